@@ -63,7 +63,18 @@ export default defineConfig({
   | List of modules to import before starting the application.
   |
   */
-  preloads: [() => import('#start/routes'), () => import('#start/kernel')],
+  preloads: [
+    () => import('#start/routes'),
+    () => import('#start/kernel'),
+    {
+      file: () => import('#start/import_worker'),
+      environment: ['web'],
+    },
+    {
+      file: () => import('#start/bank_sync'),
+      environment: ['web'],
+    },
+  ],
 
   /*
   |--------------------------------------------------------------------------
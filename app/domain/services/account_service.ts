@@ -7,6 +7,7 @@ import type {
 	UpdateAccountSettingsDto,
 } from "#domain/types/index";
 import Account from "#models/account";
+import db from "@adonisjs/lucid/services/db";
 
 /**
  * Service métier pour la gestion des comptes
@@ -103,6 +104,12 @@ export default class AccountService {
 			await this.accountRepo.update(accountId, { bank: settings.bank });
 		}
 
+		if (settings.lowBalanceThreshold !== undefined) {
+			await this.accountRepo.update(accountId, {
+				lowBalanceThreshold: settings.lowBalanceThreshold,
+			});
+		}
+
 		// Recalculer le solde
 		await this.balanceCalculator.recalculateForAccount(accountId);
 
@@ -146,15 +153,22 @@ export default class AccountService {
 			throw new Error("Compte non trouvé");
 		}
 
-		// Supprimer toutes les transactions
-		const deletedCount =
-			await this.transactionRepo.deleteByAccountId(accountId);
+		// Tout ou rien : une erreur laisse le compte intact
+		const deletedCount = await db.transaction(async (trx) => {
+			// Supprimer toutes les transactions
+			const count = await this.transactionRepo.deleteByAccountId(
+				accountId,
+				trx,
+			);
+
+			// Supprimer tous les batches d'import
+			await this.importBatchRepo.deleteByAccountId(accountId, trx);
 
-		// Supprimer tous les batches d'import
-		await this.importBatchRepo.deleteByAccountId(accountId);
+			// Réinitialiser le compte
+			await this.accountRepo.resetToInitialState(accountId, trx);
 
-		// Réinitialiser le compte
-		await this.accountRepo.resetToInitialState(accountId);
+			return count;
+		});
 
 		const updatedAccount = await this.accountRepo.findById(accountId);
 		const newBalance = updatedAccount?.balance ?? 0;
@@ -165,6 +179,50 @@ export default class AccountService {
 		};
 	}
 
+	/**
+	 * Supprime les données des comptes liés à des connexions bancaires
+	 * Le compte par défaut est réinitialisé, les comptes créés par la liaison sont supprimés
+	 *
+	 * @param resetDefault - Réinitialise aussi le compte par défaut s'il n'est pas lié
+	 */
+	async removeBankAccounts(
+		bankConnectionIds: number[],
+		resetDefault: boolean,
+	): Promise<{
+		deletedTransactions: number;
+		deletedAccounts: number;
+		newBalance: number;
+	}> {
+		const linked =
+			await this.accountRepo.findByBankConnectionIds(bankConnectionIds);
+		const defaultAccount = await this.getOrCreateDefault();
+
+		let deletedTransactions = 0;
+		let deletedAccounts = 0;
+		for (const account of linked) {
+			if (account.id === defaultAccount.id) continue;
+
+			// Les transactions et imports du compte sont supprimés en cascade
+			deletedTransactions += await this.transactionRepo.countByAccountId(
+				account.id,
+			);
+			await this.accountRepo.delete(account.id);
+			deletedAccounts++;
+		}
+
+		let newBalance = defaultAccount.balance;
+		if (
+			resetDefault ||
+			linked.some((account) => account.id === defaultAccount.id)
+		) {
+			const result = await this.resetAccount(defaultAccount.id);
+			deletedTransactions += result.deletedTransactions;
+			newBalance = result.newBalance;
+		}
+
+		return { deletedTransactions, deletedAccounts, newBalance };
+	}
+
 	/**
 	 * Calcule et retourne les statistiques d'un compte
 	 */
@@ -193,16 +251,27 @@ export default class AccountService {
 
 	/**
 	 * Calcule les statistiques mensuelles
+	 * Avec projection, ajoute les montants attendus en fin de mois (expected)
 	 */
 	async getMonthlyStats(
 		accountId: number,
 		year?: number,
 		month?: number,
+		options?: { projection?: boolean },
 	): Promise<{
 		income: number;
 		expenses: number;
 		savings: number;
 		savingsRate: number;
+		expected?: {
+			income: number;
+			expenses: number;
+			savings: number;
+			savingsRate: number;
+			elapsedDays: number;
+			daysInMonth: number;
+			seasonalYears: number;
+		};
 	}> {
 		const now = new Date();
 		const targetYear = year ?? now.getFullYear();
@@ -212,13 +281,31 @@ export default class AccountService {
 			accountId,
 			targetYear,
 			targetMonth,
+			options,
 		);
 
-		return {
+		const monthly = {
 			income: stats.income.amount,
 			expenses: stats.expenses.amount,
 			savings: stats.savings.amount,
 			savingsRate: stats.savingsRate,
 		};
+
+		if (!stats.projection) {
+			return monthly;
+		}
+
+		return {
+			...monthly,
+			expected: {
+				income: stats.projection.income.amount,
+				expenses: stats.projection.expenses.amount,
+				savings: stats.projection.savings.amount,
+				savingsRate: stats.projection.savingsRate,
+				elapsedDays: stats.projection.elapsedDays,
+				daysInMonth: stats.projection.daysInMonth,
+				seasonalYears: stats.projection.seasonalYears,
+			},
+		};
 	}
 }
@@ -0,0 +1,173 @@
+import { DateTime } from "luxon";
+import AccountRepository from "#infrastructure/repositories/account_repository";
+import BalanceAlertRepository from "#infrastructure/repositories/balance_alert_repository";
+import ForecastService from "#domain/services/forecast_service";
+import type {
+	BalanceAlertData,
+	ForecastResult,
+	LowBalancePrediction,
+} from "#domain/types/index";
+import type BalanceAlert from "#models/balance_alert";
+
+/**
+ * Service métier pour les alertes de solde bas
+ * Couche Domain - prévient avant que le solde projeté ne passe sous le seuil du compte
+ */
+export default class BalanceAlertService {
+	constructor(
+		private alertRepo: BalanceAlertRepository,
+		private accountRepo: AccountRepository,
+		private forecastService: ForecastService,
+	) {}
+
+	/**
+	 * Récupère les alertes d'un compte
+	 * Par défaut seules les alertes non acquittées sont retournées
+	 */
+	async getByAccountId(
+		accountId: number,
+		includeAcknowledged: boolean = false,
+	): Promise<BalanceAlertData[]> {
+		const alerts = await this.alertRepo.findByAccountId(accountId, {
+			statuses: includeAcknowledged ? ["active", "acknowledged"] : ["active"],
+		});
+		return alerts.map((alert) => this.toData(alert));
+	}
+
+	/**
+	 * Réévalue la prévision du compte et met à jour les alertes enregistrées
+	 * Une alerte couvre un passage sous le seuil, du premier jour prévu jusqu'au retour
+	 * au-dessus : tant qu'il dure, elle est actualisée sans perdre son acquittement.
+	 * Les alertes qui ne correspondent plus à la prévision sont clôturées
+	 *
+	 * @returns L'alerte en cours, ou null si le solde reste au-dessus du seuil
+	 */
+	async evaluate(accountId: number): Promise<BalanceAlertData | null> {
+		const account = await this.accountRepo.findById(accountId);
+		if (!account) {
+			throw new Error("Compte non trouvé");
+		}
+
+		const open = await this.alertRepo.findByAccountId(accountId, {
+			statuses: ["active", "acknowledged"],
+		});
+
+		let prediction: LowBalancePrediction | null = null;
+		if (account.lowBalanceThreshold !== null) {
+			const forecast = await this.forecastService.forecast(accountId);
+			prediction = this.predict(forecast, Number(account.lowBalanceThreshold));
+		}
+
+		const current = prediction
+			? open.find((alert) => Number(alert.threshold) === prediction.threshold)
+			: undefined;
+
+		for (const alert of open) {
+			if (alert !== current) {
+				await this.alertRepo.update(alert.id, {
+					status: "resolved",
+					resolvedAt: DateTime.now(),
+				});
+			}
+		}
+
+		if (!prediction) return null;
+
+		const details = {
+			projectedBalance: prediction.balance,
+			lowestDate: DateTime.fromISO(prediction.lowestBalance.date),
+			lowestBalance: prediction.lowestBalance.balance,
+			causes: prediction.causes,
+		};
+
+		if (current) {
+			// Une fois le seuil franchi, la date de l'alerte reste celle du franchissement
+			const isUpcoming = current.alertDate > DateTime.now().startOf("day");
+			const updated = await this.alertRepo.update(current.id, {
+				...details,
+				...(isUpcoming && { alertDate: DateTime.fromISO(prediction.date) }),
+			});
+			return this.toData(updated!);
+		}
+
+		const alert = await this.alertRepo.create({
+			accountId,
+			threshold: prediction.threshold,
+			alertDate: DateTime.fromISO(prediction.date),
+			...details,
+		});
+		return this.toData(alert);
+	}
+
+	/**
+	 * Acquitte une alerte
+	 */
+	async acknowledge(id: number): Promise<BalanceAlertData> {
+		const alert = await this.alertRepo.findById(id);
+		if (!alert) {
+			throw new Error("Alerte non trouvée");
+		}
+
+		if (alert.status !== "active") {
+			return this.toData(alert);
+		}
+
+		const updated = await this.alertRepo.update(id, {
+			status: "acknowledged",
+			acknowledgedAt: DateTime.now(),
+		});
+		return this.toData(updated!);
+	}
+
+	/**
+	 * Cherche le premier jour où le solde projeté passe sous le seuil
+	 * Les opérations en cause sont les sorties prévues ce jour-là
+	 */
+	predict(
+		forecast: ForecastResult,
+		threshold: number,
+	): LowBalancePrediction | null {
+		const lowestBalance = forecast.lowestBalance;
+
+		if (forecast.startBalance < threshold) {
+			return {
+				threshold,
+				date: forecast.startDate,
+				balance: forecast.startBalance,
+				lowestBalance,
+				causes: [],
+			};
+		}
+
+		const day = forecast.days.find((d) => d.balance < threshold);
+		if (!day) return null;
+
+		return {
+			threshold,
+			date: day.date,
+			balance: day.balance,
+			lowestBalance,
+			causes: day.items
+				.filter((item) => item.amount < 0)
+				.sort((a, b) => a.amount - b.amount),
+		};
+	}
+
+	/**
+	 * Données d'une alerte exposées par l'API (dates ISO, montants numériques)
+	 */
+	private toData(alert: BalanceAlert): BalanceAlertData {
+		return {
+			id: alert.id,
+			accountId: alert.accountId,
+			threshold: Number(alert.threshold),
+			alertDate: alert.alertDate.toISODate()!,
+			projectedBalance: Number(alert.projectedBalance),
+			lowestDate: alert.lowestDate.toISODate()!,
+			lowestBalance: Number(alert.lowestBalance),
+			causes: alert.causes,
+			status: alert.status,
+			acknowledgedAt: alert.acknowledgedAt?.toISO() ?? null,
+		};
+	}
+}
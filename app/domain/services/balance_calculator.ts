@@ -1,15 +1,27 @@
+import { DateTime } from "luxon";
 import TransactionRepository from "#infrastructure/repositories/transaction_repository";
 import AccountRepository from "#infrastructure/repositories/account_repository";
+import RecurringSeriesService from "#domain/services/recurring_series_service";
+import PlannedTransactionService from "#domain/services/planned_transaction_service";
 import { Money } from "#domain/value-objects/money";
+import type Transaction from "#models/transaction";
+import type { BalanceCheck, StatementBalance } from "#domain/types/index";
 
 /**
  * Service métier pour le calcul des soldes
  * Couche Domain - contient la logique métier pure
  */
 export default class BalanceCalculator {
+	/**
+	 * Nombre d'années précédentes utilisées pour la saisonnalité
+	 */
+	static readonly SEASONAL_YEARS = 3;
+
 	constructor(
 		private transactionRepo: TransactionRepository,
 		private accountRepo: AccountRepository,
+		private recurringSeriesService: RecurringSeriesService,
+		private plannedTransactionService: PlannedTransactionService,
 	) {}
 
 	/**
@@ -38,6 +50,41 @@ export default class BalanceCalculator {
 		return initialBalance.add(credits).subtract(debits);
 	}
 
+	/**
+	 * Compare le solde d'un relevé bancaire au solde calculé à la même date
+	 * Un écart révèle des opérations manquantes ou un solde initial erroné
+	 */
+	async checkStatementBalance(
+		accountId: number,
+		statement: StatementBalance,
+	): Promise<BalanceCheck> {
+		const account = await this.accountRepo.findById(accountId);
+		if (!account) {
+			throw new Error(`Compte non trouvé: ${accountId}`);
+		}
+
+		const date = DateTime.fromJSDate(statement.date).startOf("day");
+		const computed = new Money(
+			account.initialBalance ?? 0,
+			account.currency,
+		).add(
+			new Money(
+				await this.transactionRepo.sumUntil(accountId, date),
+				account.currency,
+			),
+		);
+		const difference =
+			Math.round((statement.amount - computed.amount) * 100) / 100;
+
+		return {
+			date: date.toISODate()!,
+			statementBalance: statement.amount,
+			computedBalance: computed.amount,
+			difference,
+			matches: Math.abs(difference) < 0.01,
+		};
+	}
+
 	/**
 	 * Calcule et met à jour le solde d'un compte en base
 	 */
@@ -59,16 +106,27 @@ export default class BalanceCalculator {
 
 	/**
 	 * Calcule les statistiques mensuelles d'un compte
+	 * En mode projection, estime aussi les montants attendus en fin de mois
 	 */
 	async calculateMonthlyStats(
 		accountId: number,
 		year: number,
 		month: number,
+		options?: { projection?: boolean },
 	): Promise<{
 		income: Money;
 		expenses: Money;
 		savings: Money;
 		savingsRate: number;
+		projection?: {
+			income: Money;
+			expenses: Money;
+			savings: Money;
+			savingsRate: number;
+			elapsedDays: number;
+			daysInMonth: number;
+			seasonalYears: number;
+		};
 	}> {
 		const account = await this.accountRepo.findById(accountId);
 		if (!account) {
@@ -100,15 +158,168 @@ export default class BalanceCalculator {
 		);
 
 		const savings = income.subtract(expenses);
-		const savingsRate =
-			income.amount > 0 ? (savings.amount / income.amount) * 100 : 0;
 
-		return {
+		const stats = {
 			income,
 			expenses,
 			savings,
-			savingsRate: Math.max(0, savingsRate), // Pas de taux négatif
+			savingsRate: this.savingsRate(income, savings),
 		};
+
+		if (!options?.projection) {
+			return stats;
+		}
+
+		return {
+			...stats,
+			projection: await this.projectMonthEnd(
+				accountId,
+				year,
+				month,
+				income,
+				expenses,
+			),
+		};
+	}
+
+	/**
+	 * Estime les revenus et dépenses du mois à sa clôture
+	 * Reste du mois = opérations récurrentes et planifiées à venir
+	 *   + part variable, mélange du rythme actuel et du même mois les années précédentes
+	 * Plus le mois avance, plus le rythme actuel pèse dans l'estimation
+	 */
+	private async projectMonthEnd(
+		accountId: number,
+		year: number,
+		month: number,
+		income: Money,
+		expenses: Money,
+	) {
+		const currency = income.currency;
+		const monthStart = DateTime.fromObject({ year, month, day: 1 });
+		const monthEnd = monthStart.endOf("month").startOf("day");
+		const daysInMonth: number = monthStart.daysInMonth!;
+		const today = DateTime.now().startOf("day");
+
+		let elapsedDays: number = daysInMonth;
+		if (today < monthStart) {
+			elapsedDays = 0;
+		} else if (today < monthEnd) {
+			elapsedDays = today.day;
+		}
+
+		let expectedIncome = income;
+		let expectedExpenses = expenses;
+		let seasonalYears = 0;
+
+		if (elapsedDays < daysInMonth) {
+			const asOf = monthStart.plus({ days: elapsedDays - 1 });
+			const remainingFrom = monthStart.plus({ days: elapsedDays });
+
+			// Opérations connues d'ici la fin du mois
+			const scheduled = [
+				...(await this.recurringSeriesService.getForecastItems(
+					accountId,
+					asOf,
+					monthEnd,
+				)),
+				...(await this.plannedTransactionService.getForecastItems(
+					accountId,
+					asOf,
+					monthEnd,
+				)),
+			];
+
+			// Rythme actuel de la part variable
+			const monthToDate =
+				elapsedDays > 0
+					? await this.transactionRepo.findByAccountIdBetween(
+							accountId,
+							monthStart,
+							asOf,
+						)
+					: [];
+			const runRate = this.variableTotals(monthToDate);
+			const remainingDays = daysInMonth - elapsedDays;
+
+			// Même période du mois les années précédentes
+			const seasonal = { credit: 0, debit: 0 };
+			for (let i = 1; i <= BalanceCalculator.SEASONAL_YEARS; i++) {
+				const start = remainingFrom.minus({ years: i });
+				const history = await this.transactionRepo.findByAccountIdBetween(
+					accountId,
+					start,
+					start.endOf("month").startOf("day"),
+				);
+				if (history.length === 0) continue;
+
+				const totals = this.variableTotals(history);
+				seasonal.credit += totals.credit;
+				seasonal.debit += totals.debit;
+				seasonalYears++;
+			}
+
+			const weight = elapsedDays / daysInMonth;
+			const estimate = (type: "credit" | "debit") => {
+				const fromRunRate =
+					elapsedDays > 0 ? (runRate[type] / elapsedDays) * remainingDays : 0;
+				if (seasonalYears === 0) return fromRunRate;
+
+				const fromSeasonal = seasonal[type] / seasonalYears;
+				return elapsedDays > 0
+					? weight * fromRunRate + (1 - weight) * fromSeasonal
+					: fromSeasonal;
+			};
+
+			const scheduledCredits = scheduled
+				.filter((item) => item.amount > 0)
+				.reduce((sum, item) => sum + item.amount, 0);
+			const scheduledDebits = scheduled
+				.filter((item) => item.amount < 0)
+				.reduce((sum, item) => sum + Math.abs(item.amount), 0);
+
+			expectedIncome = income.add(
+				new Money(scheduledCredits + estimate("credit"), currency),
+			);
+			expectedExpenses = expenses.add(
+				new Money(scheduledDebits + estimate("debit"), currency),
+			);
+		}
+
+		const expectedSavings = expectedIncome.subtract(expectedExpenses);
+
+		return {
+			income: expectedIncome,
+			expenses: expectedExpenses,
+			savings: expectedSavings,
+			savingsRate: this.savingsRate(expectedIncome, expectedSavings),
+			elapsedDays,
+			daysInMonth,
+			seasonalYears,
+		};
+	}
+
+	/**
+	 * Totaux (en valeur absolue) des transactions non rattachées à une série récurrente
+	 */
+	private variableTotals(transactions: Transaction[]): {
+		credit: number;
+		debit: number;
+	} {
+		const totals = { credit: 0, debit: 0 };
+		for (const tx of transactions) {
+			if (tx.recurringSeriesId !== null) continue;
+			totals[tx.type] += Math.abs(Number(tx.amount));
+		}
+		return totals;
+	}
+
+	/**
+	 * Taux d'épargne en pourcentage des revenus
+	 */
+	private savingsRate(income: Money, savings: Money): number {
+		const rate = income.amount > 0 ? (savings.amount / income.amount) * 100 : 0;
+		return Math.max(0, rate); // Pas de taux négatif
 	}
 
 	/**
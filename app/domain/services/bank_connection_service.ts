@@ -0,0 +1,234 @@
+import { DateTime } from "luxon";
+import BankConnectionRepository from "#infrastructure/repositories/bank_connection_repository";
+import TinkApiClient, {
+	type TinkToken,
+} from "#infrastructure/external/tink/tink_api_client";
+import type BankConnection from "#models/bank_connection";
+import type { TinkAccountData } from "#domain/types/index";
+
+/**
+ * Service métier pour les connexions bancaires persistantes
+ * Couche Domain - les tokens restent côté serveur et sont renouvelés à l'expiration
+ */
+export default class BankConnectionService {
+	/**
+	 * Marge avant expiration à partir de laquelle le token est renouvelé (secondes)
+	 */
+	private static readonly TOKEN_REFRESH_MARGIN_SECONDS = 60;
+
+	/**
+	 * Durée du consentement DSP2 quand Tink ne la fournit pas (jours)
+	 */
+	private static readonly DEFAULT_CONSENT_DAYS = 90;
+
+	private tinkClient: TinkApiClient;
+
+	/**
+	 * @param syncOverlapDays - Jours repris avant la dernière date comptabilisée
+	 *   à chaque synchronisation (opérations comptabilisées en retard)
+	 */
+	constructor(
+		private bankConnectionRepo: BankConnectionRepository,
+		private syncOverlapDays: number,
+	) {
+		this.tinkClient = new TinkApiClient();
+	}
+
+	/**
+	 * Récupère toutes les connexions
+	 */
+	async getAll(): Promise<BankConnection[]> {
+		return this.bankConnectionRepo.findAll();
+	}
+
+	/**
+	 * Récupère les connexions à synchroniser
+	 * Une connexion en erreur est retentée : l'échec peut n'être que passager
+	 */
+	async getSyncable(): Promise<BankConnection[]> {
+		return this.bankConnectionRepo.findAllSyncable();
+	}
+
+	/**
+	 * Récupère une connexion par son ID, ou la connexion synchronisable la plus récente
+	 */
+	async resolve(id?: number): Promise<BankConnection> {
+		if (id !== undefined) {
+			const connection = await this.bankConnectionRepo.findById(id);
+			if (!connection) {
+				throw new Error("Connexion bancaire non trouvée");
+			}
+			return connection;
+		}
+
+		const connection = await this.bankConnectionRepo.findLatestSyncable();
+		if (!connection) {
+			throw new Error("Aucune connexion bancaire active");
+		}
+		return connection;
+	}
+
+	/**
+	 * Enregistre une connexion à partir du token obtenu après Tink Link
+	 */
+	async create(
+		token: TinkToken,
+		accounts: TinkAccountData[],
+	): Promise<BankConnection> {
+		return this.bankConnectionRepo.create({
+			provider: "tink",
+			accessToken: token.access_token,
+			refreshToken: token.refresh_token ?? null,
+			tokenExpiresAt: DateTime.now().plus({ seconds: token.expires_in }),
+			consentExpiresAt: await this.fetchConsentExpiry(token.access_token),
+			accounts,
+		});
+	}
+
+	/**
+	 * Retourne un access token valide, renouvelé si besoin
+	 * La connexion passe en "expired" si le consentement ou le refresh token a expiré
+	 */
+	async getAccessToken(connection: BankConnection): Promise<string> {
+		if (
+			connection.consentExpiresAt &&
+			connection.consentExpiresAt < DateTime.now()
+		) {
+			return this.markExpired(connection, "Consentement bancaire expiré");
+		}
+
+		const refreshAt = DateTime.now().plus({
+			seconds: BankConnectionService.TOKEN_REFRESH_MARGIN_SECONDS,
+		});
+		if (
+			connection.accessToken &&
+			connection.tokenExpiresAt &&
+			connection.tokenExpiresAt > refreshAt
+		) {
+			return connection.accessToken;
+		}
+
+		if (!connection.refreshToken) {
+			return this.markExpired(connection, "Token expiré sans refresh token");
+		}
+
+		let token: TinkToken;
+		try {
+			token = await this.tinkClient.refreshAccessToken(connection.refreshToken);
+		} catch (error) {
+			console.error("Erreur renouvellement token:", error);
+			return this.markExpired(connection, "Renouvellement du token refusé");
+		}
+
+		// Tink ne renvoie pas toujours un nouveau refresh token
+		await this.bankConnectionRepo.updateTokens(connection.id, {
+			accessToken: token.access_token,
+			refreshToken: token.refresh_token ?? connection.refreshToken,
+			tokenExpiresAt: DateTime.now().plus({ seconds: token.expires_in }),
+		});
+
+		return token.access_token;
+	}
+
+	/**
+	 * Date (yyyy-MM-dd) à partir de laquelle demander les transactions
+	 * Première synchronisation : tout l'historique disponible
+	 */
+	getSyncStartDate(connection: BankConnection): string | undefined {
+		if (!connection.bookedUntil) return undefined;
+
+		return (
+			connection.bookedUntil
+				.minus({ days: Math.max(this.syncOverlapDays, 0) })
+				.toISODate() ?? undefined
+		);
+	}
+
+	/**
+	 * Enregistre une synchronisation réussie
+	 * Le point de reprise avance jusqu'à la date comptabilisée la plus récente reçue
+	 *
+	 * @param bookedDates - Dates comptabilisées (yyyy-MM-dd) des transactions importées
+	 */
+	async markSynced(
+		connection: BankConnection,
+		accounts: TinkAccountData[],
+		bookedDates: string[],
+	): Promise<BankConnection | null> {
+		const latest = bookedDates
+			.map((date) => DateTime.fromISO(date))
+			.filter((date) => date.isValid)
+			.reduce<DateTime | null>(
+				(max, date) => (!max || date > max ? date : max),
+				connection.bookedUntil,
+			);
+
+		return this.bankConnectionRepo.markSynced(connection.id, accounts, latest);
+	}
+
+	/**
+	 * Enregistre l'échec d'une synchronisation (une connexion expirée le reste)
+	 */
+	async markFailed(id: number, error: unknown): Promise<void> {
+		const connection = await this.bankConnectionRepo.findById(id);
+		if (!connection || connection.status === "expired") return;
+
+		const message = error instanceof Error ? error.message : "Erreur inconnue";
+		await this.bankConnectionRepo.updateStatus(id, "error", message);
+	}
+
+	/**
+	 * Supprime une connexion et ses tokens
+	 */
+	async delete(id: number): Promise<void> {
+		const deleted = await this.bankConnectionRepo.delete(id);
+		if (!deleted) {
+			throw new Error("Connexion bancaire non trouvée");
+		}
+	}
+
+	/**
+	 * Supprime toutes les connexions
+	 */
+	async deleteAll(): Promise<number> {
+		return this.bankConnectionRepo.deleteAll();
+	}
+
+	/**
+	 * Marque la connexion comme expirée : une reconnexion via Tink Link est requise
+	 */
+	private async markExpired(
+		connection: BankConnection,
+		reason: string,
+	): Promise<never> {
+		await this.bankConnectionRepo.updateStatus(
+			connection.id,
+			"expired",
+			reason,
+		);
+		throw new Error(`Connexion bancaire expirée: ${reason}`);
+	}
+
+	/**
+	 * Date d'expiration du consentement : la plus proche parmi les accès bancaires
+	 */
+	private async fetchConsentExpiry(accessToken: string): Promise<DateTime> {
+		const fallback = DateTime.now().plus({
+			days: BankConnectionService.DEFAULT_CONSENT_DAYS,
+		});
+
+		try {
+			const credentials = await this.tinkClient.getCredentials(accessToken);
+			const expiries = credentials
+				.map((credential) => credential.sessionExpiryDate)
+				.filter((expiry): expiry is number => typeof expiry === "number");
+
+			return expiries.length > 0
+				? DateTime.fromMillis(Math.min(...expiries))
+				: fallback;
+		} catch (error) {
+			console.error("Erreur récupération consentement Tink:", error);
+			return fallback;
+		}
+	}
+}
@@ -0,0 +1,90 @@
+import BankConnectionService from "#domain/services/bank_connection_service";
+import ImportService from "#domain/services/import_service";
+import type { BankSyncReport, BankSyncTrigger } from "#domain/types/index";
+
+/**
+ * Planificateur des synchronisations bancaires automatiques
+ * Couche Domain - synchronise périodiquement chaque connexion non expirée
+ */
+export default class BankSyncScheduler {
+	private timer: NodeJS.Timeout | null = null;
+	private isSyncing = false;
+
+	constructor(
+		private bankConnectionService: BankConnectionService,
+		private importService: ImportService,
+	) {}
+
+	/**
+	 * Démarre la synchronisation périodique
+	 *
+	 * @param intervalMinutes - Cadence en minutes (0 pour désactiver)
+	 */
+	start(intervalMinutes: number): void {
+		if (this.timer || intervalMinutes <= 0) return;
+
+		this.timer = setInterval(
+			() => {
+				void this.syncAll("scheduled");
+			},
+			intervalMinutes * 60 * 1000,
+		);
+		this.timer.unref();
+	}
+
+	/**
+	 * Arrête la synchronisation périodique (la synchronisation en cours se termine)
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Synchronise une à une toutes les connexions non expirées (y compris en erreur)
+	 * L'échec d'une connexion n'empêche pas la synchronisation des suivantes
+	 */
+	async syncAll(trigger: BankSyncTrigger): Promise<BankSyncReport> {
+		const report: BankSyncReport = {
+			connections: 0,
+			succeeded: 0,
+			failed: 0,
+			imported: 0,
+			errors: [],
+		};
+		if (this.isSyncing) return report;
+		this.isSyncing = true;
+
+		try {
+			const connections = await this.bankConnectionService.getSyncable();
+			report.connections = connections.length;
+
+			for (const connection of connections) {
+				try {
+					const result = await this.importService.syncFromTink(
+						connection.id,
+						undefined,
+						trigger,
+					);
+					report.succeeded++;
+					report.imported += result.imported;
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : "Erreur inconnue";
+					console.error(`Erreur synchronisation ${connection.id}:`, error);
+
+					report.failed++;
+					report.errors.push(`Connexion ${connection.id}: ${message}`);
+				}
+			}
+		} catch (error) {
+			console.error("Erreur synchronisation bancaire:", error);
+		} finally {
+			this.isSyncing = false;
+		}
+
+		return report;
+	}
+}
@@ -0,0 +1,136 @@
+import CsvImportTemplateRepository from "#infrastructure/repositories/csv_import_template_repository";
+import type { CsvBankProfile } from "#infrastructure/external/csv/bank_profiles";
+import type { SaveCsvTemplateDto } from "#domain/types/index";
+import type CsvImportTemplate from "#models/csv_import_template";
+
+/**
+ * Service métier pour les modèles d'import CSV définis par l'utilisateur
+ * Couche Domain - transforme chaque modèle en profil bancaire utilisable par le parser
+ */
+export default class CsvTemplateService {
+	/**
+	 * Préfixe des identifiants de profil issus d'un modèle
+	 */
+	static readonly PROFILE_PREFIX = "template-";
+
+	/**
+	 * Formats de date proposés à l'utilisateur
+	 */
+	static readonly DATE_FORMATS = [
+		"dd/MM/yyyy",
+		"dd/MM/yy",
+		"dd-MM-yyyy",
+		"dd.MM.yyyy",
+		"yyyy-MM-dd",
+		"MM/dd/yyyy",
+	];
+
+	constructor(private templateRepo: CsvImportTemplateRepository) {}
+
+	/**
+	 * Récupère tous les modèles
+	 */
+	async getAll(): Promise<CsvImportTemplate[]> {
+		return this.templateRepo.findAll();
+	}
+
+	/**
+	 * Récupère un modèle par son ID
+	 */
+	async getById(id: number): Promise<CsvImportTemplate | null> {
+		return this.templateRepo.findById(id);
+	}
+
+	/**
+	 * Crée un modèle
+	 */
+	async create(data: SaveCsvTemplateDto): Promise<CsvImportTemplate> {
+		this.assertMapping(data);
+
+		return this.templateRepo.create({
+			name: data.name,
+			delimiter: data.delimiter,
+			headerOffset: data.headerOffset ?? 0,
+			dateFormat: data.dateFormat,
+			decimalSeparator: data.decimalSeparator,
+			mapping: data.mapping,
+		});
+	}
+
+	/**
+	 * Remplace un modèle
+	 */
+	async update(
+		id: number,
+		data: SaveCsvTemplateDto,
+	): Promise<CsvImportTemplate> {
+		this.assertMapping(data);
+
+		const template = await this.templateRepo.update(id, {
+			name: data.name,
+			delimiter: data.delimiter,
+			headerOffset: data.headerOffset ?? 0,
+			dateFormat: data.dateFormat,
+			decimalSeparator: data.decimalSeparator,
+			mapping: data.mapping,
+		});
+		if (!template) {
+			throw new Error("Modèle non trouvé");
+		}
+		return template;
+	}
+
+	/**
+	 * Supprime un modèle
+	 */
+	async delete(id: number): Promise<void> {
+		const deleted = await this.templateRepo.delete(id);
+		if (!deleted) {
+			throw new Error("Modèle non trouvé");
+		}
+	}
+
+	/**
+	 * Convertit tous les modèles en profils bancaires
+	 */
+	async getProfiles(): Promise<CsvBankProfile[]> {
+		const templates = await this.templateRepo.findAll();
+		return templates.map((template) => this.toProfile(template));
+	}
+
+	/**
+	 * Convertit un modèle en profil bancaire
+	 */
+	toProfile(template: CsvImportTemplate): CsvBankProfile {
+		const { mapping } = template;
+
+		return {
+			id: `${CsvTemplateService.PROFILE_PREFIX}${template.id}`,
+			name: template.name,
+			delimiter: template.delimiter,
+			dateFormats: [template.dateFormat],
+			decimalSeparator: template.decimalSeparator,
+			headerOffset: template.headerOffset,
+			columns: {
+				date: mapping.date,
+				label: mapping.label,
+				amount: mapping.amount ?? undefined,
+				debit: mapping.debit ?? undefined,
+				credit: mapping.credit ?? undefined,
+				merchant: mapping.merchant ?? undefined,
+			},
+		};
+	}
+
+	/**
+	 * Vérifie qu'un montant peut être lu avec le mapping
+	 */
+	private assertMapping(data: SaveCsvTemplateDto): void {
+		const { amount, debit, credit } = data.mapping;
+		if (!amount && !(debit && credit)) {
+			throw new Error(
+				"Mapping invalide: une colonne montant ou les colonnes débit et crédit sont requises",
+			);
+		}
+	}
+}
@@ -0,0 +1,314 @@
+import { DateTime } from "luxon";
+import AccountRepository from "#infrastructure/repositories/account_repository";
+import TransactionRepository from "#infrastructure/repositories/transaction_repository";
+import RecurringSeriesService from "#domain/services/recurring_series_service";
+import PlannedTransactionService from "#domain/services/planned_transaction_service";
+import RecurrenceDetector from "#domain/services/recurrence_detector";
+import VariableSpendingEstimator from "#domain/services/variable_spending_estimator";
+import { Money } from "#domain/value-objects/money";
+import type {
+	ForecastDay,
+	ForecastItem,
+	ForecastResult,
+	ScenarioAdjustmentData,
+	VariableSpendingModel,
+} from "#domain/types/index";
+
+/**
+ * Service métier pour la prévision du solde
+ * Couche Domain - projette le solde jour par jour à partir du solde actuel
+ */
+export default class ForecastService {
+	static readonly DEFAULT_HORIZON_DAYS = 90;
+
+	/**
+	 * Historique utilisé pour estimer les dépenses variables
+	 */
+	static readonly VARIABLE_HISTORY_DAYS = 180;
+
+	constructor(
+		private accountRepo: AccountRepository,
+		private transactionRepo: TransactionRepository,
+		private recurringSeriesService: RecurringSeriesService,
+		private plannedTransactionService: PlannedTransactionService,
+		private detector: RecurrenceDetector,
+		private spendingEstimator: VariableSpendingEstimator,
+	) {}
+
+	/**
+	 * Projette le solde d'un compte sur les N prochains jours
+	 * Les ajustements d'un scénario sont appliqués sur les éléments de référence
+	 */
+	async forecast(
+		accountId: number,
+		horizonDays: number = ForecastService.DEFAULT_HORIZON_DAYS,
+		adjustments: ScenarioAdjustmentData[] = [],
+	): Promise<ForecastResult> {
+		const account = await this.accountRepo.findById(accountId);
+		if (!account) {
+			throw new Error(`Compte non trouvé: ${accountId}`);
+		}
+
+		const today = DateTime.now().startOf("day");
+		const endDate = today.plus({ days: horizonDays });
+		const startBalance = new Money(
+			Number.parseFloat(String(account.balance)) || 0,
+			account.currency,
+		);
+
+		const items = this.applyAdjustments(
+			await this.collectItems(accountId, today, endDate),
+			adjustments,
+			today,
+			endDate,
+		);
+		const days = this.projectBalances(startBalance, today, horizonDays, items);
+		const variableSpending = await this.estimateVariableSpending(
+			accountId,
+			today,
+		);
+
+		days.forEach((day, index) => {
+			day.bands = this.spendingEstimator.band(
+				variableSpending,
+				day.balance,
+				index + 1,
+			);
+		});
+
+		return this.buildResult(
+			accountId,
+			startBalance,
+			today,
+			horizonDays,
+			days,
+			variableSpending,
+		);
+	}
+
+	/**
+	 * Calcule la courbe de solde jour par jour
+	 * Les éléments du jour de départ sont considérés comme déjà comptabilisés
+	 */
+	projectBalances(
+		startBalance: Money,
+		startDate: DateTime,
+		horizonDays: number,
+		items: ForecastItem[],
+	): ForecastDay[] {
+		const itemsByDate = new Map<string, ForecastItem[]>();
+		for (const item of items) {
+			const dayItems = itemsByDate.get(item.date) ?? [];
+			dayItems.push(item);
+			itemsByDate.set(item.date, dayItems);
+		}
+
+		const days: ForecastDay[] = [];
+		let balance = startBalance;
+
+		for (let offset = 1; offset <= horizonDays; offset++) {
+			const date = startDate.plus({ days: offset }).toISODate()!;
+			const dayItems = itemsByDate.get(date) ?? [];
+
+			let inflows = Money.zero(startBalance.currency);
+			let outflows = Money.zero(startBalance.currency);
+			for (const item of dayItems) {
+				const amount = new Money(item.amount, startBalance.currency);
+				if (amount.isNegative()) {
+					outflows = outflows.add(amount.abs());
+				} else {
+					inflows = inflows.add(amount);
+				}
+			}
+
+			balance = balance.add(inflows).subtract(outflows);
+
+			days.push({
+				date,
+				balance: balance.amount,
+				inflows: inflows.amount,
+				outflows: outflows.amount,
+				items: dayItems,
+			});
+		}
+
+		return days;
+	}
+
+	/**
+	 * Assemble le résultat final avec le point bas de la courbe
+	 */
+	private buildResult(
+		accountId: number,
+		startBalance: Money,
+		startDate: DateTime,
+		horizonDays: number,
+		days: ForecastDay[],
+		variableSpending: VariableSpendingModel,
+	): ForecastResult {
+		let lowestBalance = {
+			date: startDate.toISODate()!,
+			balance: startBalance.amount,
+		};
+		let zeroCrossingDate = startBalance.isNegative()
+			? startDate.toISODate()!
+			: null;
+
+		for (const day of days) {
+			if (day.balance < lowestBalance.balance) {
+				lowestBalance = { date: day.date, balance: day.balance };
+			}
+			if (zeroCrossingDate === null && day.balance < 0) {
+				zeroCrossingDate = day.date;
+			}
+		}
+
+		return {
+			accountId,
+			currency: startBalance.currency,
+			startDate: startDate.toISODate()!,
+			startBalance: startBalance.amount,
+			horizonDays,
+			endBalance: days.at(-1)?.balance ?? startBalance.amount,
+			lowestBalance,
+			zeroCrossingDate,
+			variableSpending,
+			days,
+		};
+	}
+
+	/**
+	 * Estime les dépenses variables à partir de l'historique récent
+	 * Les transactions rattachées à une série récurrente sont déjà projetées et sont exclues
+	 */
+	private async estimateVariableSpending(
+		accountId: number,
+		today: DateTime,
+	): Promise<VariableSpendingModel> {
+		const history = await this.transactionRepo.findByAccountIdBetween(
+			accountId,
+			today.minus({ days: ForecastService.VARIABLE_HISTORY_DAYS }),
+			today.minus({ days: 1 }),
+		);
+
+		// Un historique plus court que la fenêtre ne doit pas diluer la moyenne
+		const from = history[0]?.date.startOf("day") ?? today;
+
+		return this.spendingEstimator.estimate(
+			history.filter((tx) => tx.recurringSeriesId === null),
+			from,
+			today,
+		);
+	}
+
+	/**
+	 * Récupère les éléments futurs compris dans l'horizon
+	 */
+	private async collectItems(
+		accountId: number,
+		today: DateTime,
+		endDate: DateTime,
+	): Promise<ForecastItem[]> {
+		const recurring = await this.recurringSeriesService.getForecastItems(
+			accountId,
+			today,
+			endDate,
+		);
+		const planned = await this.plannedTransactionService.getForecastItems(
+			accountId,
+			today,
+			endDate,
+		);
+
+		return [...recurring, ...planned];
+	}
+
+	/**
+	 * Applique les ajustements d'un scénario sur les éléments de la prévision
+	 */
+	private applyAdjustments(
+		items: ForecastItem[],
+		adjustments: ScenarioAdjustmentData[],
+		today: DateTime,
+		endDate: DateTime,
+	): ForecastItem[] {
+		let result = items;
+
+		for (const adjustment of adjustments) {
+			const from = adjustment.startDate
+				? DateTime.fromJSDate(adjustment.startDate).toISODate()!
+				: null;
+			const until = adjustment.endDate
+				? DateTime.fromJSDate(adjustment.endDate).toISODate()!
+				: null;
+
+			// Les dates ISO se comparent dans l'ordre lexicographique
+			const isAffected = (item: ForecastItem) =>
+				item.source === adjustment.targetType &&
+				item.sourceId === adjustment.targetId &&
+				(!from || item.date >= from) &&
+				(!until || item.date <= until);
+
+			switch (adjustment.kind) {
+				case "remove":
+					result = result.filter((item) => !isAffected(item));
+					break;
+				case "scale":
+					result = result.map((item) =>
+						isAffected(item)
+							? { ...item, amount: item.amount * (adjustment.factor ?? 1) }
+							: item,
+					);
+					break;
+				case "add":
+					result = [
+						...result,
+						...this.expandAddition(adjustment, today, endDate),
+					];
+					break;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Génère les occurrences d'une opération ajoutée par un scénario
+	 */
+	private expandAddition(
+		adjustment: ScenarioAdjustmentData,
+		today: DateTime,
+		endDate: DateTime,
+	): ForecastItem[] {
+		const items: ForecastItem[] = [];
+		const until = adjustment.endDate
+			? DateTime.min(DateTime.fromJSDate(adjustment.endDate), endDate)
+			: endDate;
+
+		let date = adjustment.startDate
+			? DateTime.fromJSDate(adjustment.startDate).startOf("day")
+			: today.plus({ days: 1 });
+
+		// Une opération répétée commencée dans le passé reprend à la prochaine échéance
+		while (adjustment.period && date <= today) {
+			date = this.detector.nextOccurrence(date, adjustment.period);
+		}
+		if (date <= today) {
+			date = today.plus({ days: 1 });
+		}
+
+		while (date <= until) {
+			items.push({
+				date: date.toISODate()!,
+				label: adjustment.label || "Scénario",
+				amount: adjustment.amount ?? 0,
+				source: "scenario",
+			});
+
+			if (!adjustment.period) break;
+			date = this.detector.nextOccurrence(date, adjustment.period);
+		}
+
+		return items;
+	}
+}
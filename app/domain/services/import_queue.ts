@@ -0,0 +1,95 @@
+import ImportJobRepository from "#infrastructure/repositories/import_job_repository";
+import ImportBatchRepository from "#infrastructure/repositories/import_batch_repository";
+import ImportService from "#domain/services/import_service";
+import type ImportJob from "#models/import_job";
+
+/**
+ * File d'attente des imports, stockée en base (table import_jobs)
+ * Couche Domain - traite les jobs un par un en arrière-plan du serveur
+ */
+export default class ImportQueue {
+	/**
+	 * Intervalle de scrutation des jobs en attente (ms)
+	 */
+	private static readonly POLL_INTERVAL_MS = 1000;
+
+	private timer: NodeJS.Timeout | null = null;
+	private isWorking = false;
+
+	constructor(
+		private importJobRepo: ImportJobRepository,
+		private importBatchRepo: ImportBatchRepository,
+		private importService: ImportService,
+	) {}
+
+	/**
+	 * Démarre le traitement périodique de la file
+	 * Les jobs interrompus par un arrêt du serveur sont remis en attente
+	 */
+	async start(): Promise<void> {
+		if (this.timer) return;
+
+		const requeued = await this.importJobRepo.requeueProcessing();
+		if (requeued > 0) {
+			console.log(`🔁 ${requeued} import(s) interrompu(s) remis en file`);
+		}
+
+		this.timer = setInterval(() => {
+			void this.work();
+		}, ImportQueue.POLL_INTERVAL_MS);
+		this.timer.unref();
+	}
+
+	/**
+	 * Arrête le traitement périodique (le job en cours se termine)
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Traite les jobs en attente jusqu'à vider la file
+	 *
+	 * @returns Le nombre de jobs traités
+	 */
+	async work(): Promise<number> {
+		if (this.isWorking) return 0;
+		this.isWorking = true;
+
+		let processed = 0;
+		try {
+			let job = await this.importJobRepo.claimNext();
+			while (job) {
+				await this.process(job);
+				processed++;
+				job = await this.importJobRepo.claimNext();
+			}
+		} catch (error) {
+			console.error("Erreur file d'import:", error);
+		} finally {
+			this.isWorking = false;
+		}
+
+		return processed;
+	}
+
+	/**
+	 * Exécute un job et enregistre son résultat ou son échec
+	 */
+	private async process(job: ImportJob): Promise<void> {
+		try {
+			const result = await this.importService.runImportJob(job);
+			await this.importJobRepo.markCompleted(job.id, result);
+		} catch (error) {
+			const message =
+				error instanceof Error ? error.message : "Erreur inconnue";
+			console.error(`Erreur import ${job.importBatchId}:`, error);
+
+			await this.importJobRepo.markFailed(job.id, message);
+			await this.importBatchRepo.markFailed(job.importBatchId, message);
+		}
+	}
+}
@@ -1,21 +1,91 @@
+import { randomUUID } from "node:crypto";
+import { DateTime } from "luxon";
 import AccountService from "#domain/services/account_service";
 import TransactionService from "#domain/services/transaction_service";
+import RecurringSeriesService from "#domain/services/recurring_series_service";
+import CsvTemplateService from "#domain/services/csv_template_service";
+import BalanceAlertService from "#domain/services/balance_alert_service";
+import BalanceCalculator from "#domain/services/balance_calculator";
+import BankConnectionService from "#domain/services/bank_connection_service";
 import CsvParser from "#infrastructure/external/csv/csv_parser";
+import OfxParser from "#infrastructure/external/ofx/ofx_parser";
+import QifParser, {
+	type QifDateOrder,
+} from "#infrastructure/external/qif/qif_parser";
+import Camt053Parser from "#infrastructure/external/camt/camt053_parser";
+import Mt940Parser from "#infrastructure/external/mt940/mt940_parser";
+import XlsxReader from "#infrastructure/external/xlsx/xlsx_reader";
 import TinkApiClient from "#infrastructure/external/tink/tink_api_client";
 import TinkTransformer from "#infrastructure/external/tink/tink_transformer";
+import { charsetDetector } from "#infrastructure/utils/charset_detector";
 import AccountRepository from "#infrastructure/repositories/account_repository";
+import ImportPreviewRepository from "#infrastructure/repositories/import_preview_repository";
+import ImportJobRepository from "#infrastructure/repositories/import_job_repository";
+import BankSyncRunRepository from "#infrastructure/repositories/bank_sync_run_repository";
+import type ImportBatch from "#models/import_batch";
+import db from "@adonisjs/lucid/services/db";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
+import type ImportJob from "#models/import_job";
+import type BankSyncRun from "#models/bank_sync_run";
+import type BankConnection from "#models/bank_connection";
+import type Account from "#models/account";
 import type {
+	CsvPreview,
+	ImportPreviewResult,
+	ImportPreviewRow,
+	ImportProgress,
 	ImportResult,
+	ImportRowStatus,
+	ParseResult,
+	QueuedImport,
+	StatementFormat,
 	TinkAccountData,
 	BankConnectionResult,
+	BankSyncResult,
+	BankSyncTrigger,
+	BankAccountSyncResult,
+	TinkTransactionData,
 } from "#domain/types/index";
 
+/**
+ * Options d'import d'un fichier de relevé
+ */
+interface ImportFileOptions {
+	profile?: string; // Profil bancaire (CSV, XLSX)
+	dateOrder?: QifDateOrder; // Ordre jour / mois (QIF)
+	sheet?: string; // Nom ou numéro de feuille (XLSX)
+}
+
 /**
  * Service métier pour l'import de transactions
  * Couche Domain - orchestre les différentes sources d'import
  */
 export default class ImportService {
+	/**
+	 * Format de relevé associé à chaque extension de fichier acceptée
+	 */
+	static readonly FILE_FORMATS: Record<string, StatementFormat> = {
+		csv: "csv",
+		xlsx: "xlsx",
+		ofx: "ofx",
+		qfx: "ofx",
+		qif: "qif",
+		xml: "camt053",
+		sta: "mt940",
+		mt940: "mt940",
+	};
+
+	/**
+	 * Durée de validité d'un aperçu d'import (minutes)
+	 */
+	private static readonly PREVIEW_TTL_MINUTES = 60;
+
 	private csvParser: CsvParser;
+	private ofxParser: OfxParser;
+	private qifParser: QifParser;
+	private camt053Parser: Camt053Parser;
+	private mt940Parser: Mt940Parser;
+	private xlsxReader: XlsxReader;
 	private tinkClient: TinkApiClient;
 	private tinkTransformer: TinkTransformer;
 
@@ -23,48 +93,329 @@ export default class ImportService {
 		private accountService: AccountService,
 		private transactionService: TransactionService,
 		private accountRepo: AccountRepository,
+		private recurringSeriesService: RecurringSeriesService,
+		private csvTemplateService: CsvTemplateService,
+		private balanceCalculator: BalanceCalculator,
+		private importPreviewRepo: ImportPreviewRepository,
+		private importJobRepo: ImportJobRepository,
+		private bankConnectionService: BankConnectionService,
+		private bankSyncRunRepo: BankSyncRunRepository,
+		private balanceAlertService: BalanceAlertService,
 	) {
 		this.csvParser = new CsvParser();
+		this.ofxParser = new OfxParser();
+		this.qifParser = new QifParser();
+		this.camt053Parser = new Camt053Parser();
+		this.mt940Parser = new Mt940Parser();
+		this.xlsxReader = new XlsxReader();
 		this.tinkClient = new TinkApiClient();
 		this.tinkTransformer = new TinkTransformer();
 	}
 
 	/**
-	 * Importe des transactions depuis un fichier CSV
+	 * Importe un relevé dont le format est déduit de l'extension du fichier
 	 */
-	async importFromCsv(
-		csvContent: string,
+	async importFile(
+		data: Buffer,
 		filename: string,
+		options?: ImportFileOptions,
 	): Promise<ImportResult> {
-		// Parser le CSV
-		const { transactions, errors: parseErrors } =
-			this.csvParser.parse(csvContent);
+		return this.importStatement(
+			await this.parseFile(data, filename, options),
+			filename,
+		);
+	}
 
-		if (transactions.length === 0 && parseErrors.length > 0) {
+	/**
+	 * Met un relevé en file d'attente d'import (traitement en arrière-plan)
+	 */
+	async queueFile(
+		data: Buffer,
+		filename: string,
+		options?: ImportFileOptions,
+	): Promise<QueuedImport> {
+		return this.queueStatement(
+			await this.parseFile(data, filename, options),
+			filename,
+		);
+	}
+
+	/**
+	 * Avancement d'un import : progression du batch et résultat du job
+	 */
+	async getImportProgress(batchId: number): Promise<ImportProgress | null> {
+		const batch = await this.transactionService.getImportBatch(batchId);
+		if (!batch) return null;
+
+		const job = await this.importJobRepo.findByImportBatchId(batchId);
+
+		return {
+			batchId: batch.id,
+			status: batch.status,
+			rowsTotal: batch.rowsTotal,
+			rowsProcessed: batch.rowsProcessed,
+			rowsImported: batch.rowsImported,
+			rowsSkipped: batch.rowsSkipped,
+			errorMessage: batch.errorMessage ?? job?.errorMessage ?? null,
+			result: job?.result ?? null,
+		};
+	}
+
+	/**
+	 * Exécute un job d'import de la file
+	 * Mêmes étapes qu'un import direct : transactions, solde du relevé, récurrences
+	 */
+	async runImportJob(job: ImportJob): Promise<ImportResult> {
+		const batch = await this.transactionService.getImportBatch(
+			job.importBatchId,
+		);
+		if (!batch || !job.payload) {
+			throw new Error(`Import non trouvé: ${job.importBatchId}`);
+		}
+
+		// Import annulé avant son traitement : rien à insérer
+		if (batch.status === "rolled_back") {
 			return {
 				imported: 0,
 				skipped: 0,
-				errors: parseErrors,
-				batchId: 0,
+				errors: ["Import annulé avant son traitement"],
+				batchId: batch.id,
 			};
 		}
 
-		// Récupérer ou créer le compte par défaut
+		const { payload } = job;
+		const transactions = payload.transactions.map((txData) => ({
+			...txData,
+			date: DateTime.fromISO(txData.date).toJSDate(),
+		}));
+
+		const result = await this.transactionService.importIntoBatch(
+			batch,
+			transactions,
+		);
+
+		return this.completeImport(batch.accountId, result, {
+			transactions,
+			errors: payload.errors,
+			profile: payload.profile,
+			closingBalance: payload.closingBalance && {
+				amount: payload.closingBalance.amount,
+				date: DateTime.fromISO(payload.closingBalance.date).toJSDate(),
+			},
+		});
+	}
+
+	/**
+	 * Analyse un relevé sans rien écrire et propose une décision par ligne
+	 * L'aperçu est conservé pour être confirmé avec son jeton
+	 */
+	async previewFile(
+		data: Buffer,
+		filename: string,
+		options?: ImportFileOptions,
+	): Promise<ImportPreviewResult> {
+		const parsed = await this.parseFile(data, filename, options);
 		const account = await this.accountService.getOrCreateDefault();
 
-		// Importer les transactions
-		const result = await this.transactionService.importBatch(
+		const rows = await this.transactionService.previewBatch(
 			account.id,
+			parsed.transactions,
+		);
+		for (const message of parsed.errors) {
+			rows.push({
+				index: rows.length,
+				status: "error",
+				date: null,
+				label: message,
+				amount: null,
+				type: null,
+				merchant: null,
+				category: null,
+				paymentMethod: null,
+				hash: null,
+				externalId: null,
+				matchedTransactionId: null,
+			});
+		}
+
+		await this.importPreviewRepo.deleteExpired();
+		const preview = await this.importPreviewRepo.create({
+			token: randomUUID(),
+			accountId: account.id,
 			filename,
-			transactions,
+			profile: parsed.profile ?? null,
+			rows,
+			closingBalance: parsed.closingBalance?.amount ?? null,
+			closingBalanceDate: parsed.closingBalance
+				? DateTime.fromJSDate(parsed.closingBalance.date)
+				: null,
+			expiresAt: DateTime.now().plus({
+				minutes: ImportService.PREVIEW_TTL_MINUTES,
+			}),
+		});
+
+		return {
+			token: preview.token,
+			filename,
+			expiresAt: preview.expiresAt.toISO()!,
+			profile: parsed.profile,
+			detected: parsed.detected,
+			rows,
+			summary: this.summarizeRows(rows),
+		};
+	}
+
+	/**
+	 * Met en file d'import les lignes d'un aperçu, sauf celles décochées
+	 * Les catégories et marchands proposés sont appliqués
+	 */
+	async confirmPreview(
+		token: string,
+		excludedRows: number[] = [],
+	): Promise<QueuedImport> {
+		const preview = await this.importPreviewRepo.findByToken(token);
+		if (!preview) {
+			throw new Error("Aperçu d'import introuvable ou expiré");
+		}
+
+		const excluded = new Set(excludedRows);
+		const transactions = preview.rows
+			.filter((row) => row.status !== "error" && !excluded.has(row.index))
+			.map((row) => ({
+				date: DateTime.fromISO(row.date!).toJSDate(),
+				label: row.label,
+				amount: row.amount!,
+				type: row.type!,
+				merchant: row.merchant,
+				paymentMethod: row.paymentMethod,
+				category: row.category,
+				hash: row.hash!,
+				externalId: row.externalId ?? undefined,
+			}));
+
+		if (transactions.length === 0) {
+			throw new Error("Aucune ligne sélectionnée pour l'import");
+		}
+
+		const closingBalance =
+			preview.closingBalance !== null && preview.closingBalanceDate
+				? {
+						amount: Number(preview.closingBalance),
+						date: preview.closingBalanceDate.toJSDate(),
+					}
+				: undefined;
+
+		const queued = await this.queueStatement(
+			{
+				transactions,
+				errors: [],
+				profile: preview.profile ?? undefined,
+				closingBalance,
+			},
+			preview.filename,
+			preview.accountId,
 		);
 
-		// Ajouter les erreurs de parsing
-		result.errors = [...parseErrors, ...result.errors];
+		await this.importPreviewRepo.delete(preview.id);
+
+		return queued;
+	}
+
+	/**
+	 * Historique des imports du compte par défaut
+	 */
+	async getImportHistory(): Promise<ImportBatch[]> {
+		const account = await this.accountService.getOrCreateDefault();
+		return this.transactionService.getImportHistory(account.id);
+	}
+
+	/**
+	 * Annule un import et met à jour les récurrences sans ses transactions
+	 */
+	async rollbackImport(
+		batchId: number,
+	): Promise<{ batch: ImportBatch; removed: number }> {
+		const result = await this.transactionService.rollbackImportBatch(batchId);
+
+		await this.refreshRecurringSeries(result.batch.accountId);
+		await this.refreshBalanceAlerts(result.batch.accountId);
 
 		return result;
 	}
 
+	/**
+	 * Importe des transactions depuis un fichier CSV
+	 * Le profil bancaire (intégré ou modèle utilisateur) est détecté depuis l'en-tête
+	 * sauf s'il est imposé
+	 */
+	async importFromCsv(
+		csvContent: string,
+		filename: string,
+		options?: { profile?: string },
+	): Promise<ImportResult> {
+		// Parser le CSV
+		const parsed = this.csvParser.parse(csvContent, {
+			profile: options?.profile,
+			extraProfiles: await this.csvTemplateService.getProfiles(),
+		});
+
+		return this.importStatement(parsed, filename);
+	}
+
+	/**
+	 * Importe des transactions depuis un relevé OFX / QFX
+	 * Le solde de clôture du relevé sert à vérifier le solde après import
+	 */
+	async importFromOfx(
+		ofxContent: string,
+		filename: string,
+	): Promise<ImportResult> {
+		return this.importStatement(this.ofxParser.parse(ofxContent), filename);
+	}
+
+	/**
+	 * Importe des transactions depuis un export QIF
+	 * Les catégories QIF sont converties en catégories ForecastPro
+	 */
+	async importFromQif(
+		qifContent: string,
+		filename: string,
+		options?: { dateOrder?: QifDateOrder },
+	): Promise<ImportResult> {
+		return this.importStatement(
+			this.qifParser.parse(qifContent, options),
+			filename,
+		);
+	}
+
+	/**
+	 * Liste les profils bancaires CSV disponibles (modèles utilisateur inclus)
+	 */
+	async getCsvProfiles(): Promise<{ id: string; name: string }[]> {
+		const templates = await this.csvTemplateService.getProfiles();
+		return [
+			...this.csvParser.listProfiles(),
+			...templates.map((profile) => ({ id: profile.id, name: profile.name })),
+		];
+	}
+
+	/**
+	 * Aperçu des colonnes et des premières lignes d'un CSV
+	 * L'encodage du fichier est détecté avant la lecture des colonnes
+	 */
+	async previewCsvColumns(
+		data: Buffer,
+		options?: { delimiter?: string; headerOffset?: number },
+	): Promise<CsvPreview> {
+		const { content, encoding } = charsetDetector.decode(data);
+		const preview = this.csvParser.preview(content, {
+			...options,
+			extraProfiles: await this.csvTemplateService.getProfiles(),
+		});
+
+		return { ...preview, encoding };
+	}
+
 	/**
 	 * Génère l'URL d'authentification Tink
 	 */
@@ -79,7 +430,9 @@ export default class ImportService {
 	}
 
 	/**
-	 * Échange le code Tink et importe les transactions
+	 * Échange le code Tink, enregistre la connexion et importe les transactions
+	 * Chaque compte Tink est importé dans son propre compte, créé à la première apparition
+	 * Les tokens sont conservés (chiffrés) côté serveur et ne sont pas retournés
 	 */
 	async processTinkCallback(
 		code: string,
@@ -97,21 +450,6 @@ export default class ImportService {
 		);
 		const accounts = this.tinkTransformer.transformAccounts(rawAccounts);
 
-		// Récupérer les transactions
-		const rawTransactions = await this.tinkClient.getTransactions(
-			tokenData.access_token,
-			undefined,
-			500,
-		);
-		const transactions =
-			this.tinkTransformer.transformTransactions(rawTransactions);
-
-		// Mettre à jour les infos du compte avec Tink
-		const account = await this.accountService.getOrCreateDefault();
-
-		// Sélectionner le compte courant (CHECKING) en priorité, sinon le premier compte
-		const tinkAccount = this.selectPrimaryAccount(accounts);
-
 		console.log(
 			`📊 Comptes Tink disponibles:`,
 			accounts.map((a) => ({
@@ -120,76 +458,132 @@ export default class ImportService {
 				balance: a.balance,
 			})),
 		);
-		console.log(
-			`📌 Compte sélectionné:`,
-			tinkAccount?.name,
-			tinkAccount?.type,
-			tinkAccount?.balance,
+
+		// Conserver la connexion avant l'import pour pouvoir resynchroniser
+		const connection = await this.bankConnectionService.create(
+			tokenData,
+			accounts,
 		);
 
-		if (tinkAccount) {
-			await this.accountService.updateBankInfo(account.id, {
-				name: tinkAccount.name || account.name,
-				bank: "Tink",
-				accountNumber: tinkAccount.iban,
-				currency: tinkAccount.currency,
-			});
+		// Tout l'historique disponible de chaque compte
+		const sync = await this.syncTinkAccounts(
+			connection,
+			tokenData.access_token,
+			accounts,
+		);
+		if (sync.errors.length > 0) {
+			const error = new Error(
+				`Synchronisation incomplète: ${sync.errors.join(" ; ")}`,
+			);
+			await this.bankConnectionService.markFailed(connection.id, error);
+			throw error;
 		}
 
-		// Importer les transactions
-		const importResult = await this.transactionService.importFromTink(
-			account.id,
-			transactions,
+		await this.bankConnectionService.markSynced(
+			connection,
+			accounts,
+			sync.bookedDates,
 		);
 
-		// Ajuster le solde initial pour correspondre au solde réel de Tink
-		// solde_initial = solde_tink - (crédits - débits_importés)
-		if (tinkAccount?.balance !== null && tinkAccount?.balance !== undefined) {
-			await this.adjustInitialBalanceFromTink(account.id, tinkAccount.balance);
-		}
-
 		return {
-			accessToken: tokenData.access_token,
-			expiresIn: tokenData.expires_in,
+			connectionId: connection.id,
 			accounts,
-			importResult,
+			imported: sync.results.reduce((sum, r) => sum + r.imported, 0),
+			skipped: sync.results.reduce((sum, r) => sum + r.skipped, 0),
+			syncedAccounts: sync.results,
 		};
 	}
 
 	/**
-	 * Synchronise les transactions depuis Tink
+	 * Synchronise une connexion bancaire : importe les nouvelles transactions Tink
+	 * Sans ID, la connexion synchronisable la plus récente est utilisée
+	 * Chaque synchronisation est consignée dans le journal bank_sync_runs
+	 *
+	 * @param options.fullHistory - Reprend tout l'historique au lieu du dernier point de reprise
 	 */
 	async syncFromTink(
-		accessToken: string,
-		accountId?: string,
-	): Promise<{
-		count: number;
-		transactions: Array<{
-			externalId: string;
-			date: string;
-			amount: number;
-			description: string;
-			type: "credit" | "debit";
-		}>;
-	}> {
-		const rawTransactions = await this.tinkClient.getTransactions(
-			accessToken,
-			accountId,
-			500,
-		);
-		const transactions =
-			this.tinkTransformer.transformTransactions(rawTransactions);
+		connectionId?: number,
+		tinkAccountId?: string,
+		trigger: BankSyncTrigger = "manual",
+		options?: { fullHistory?: boolean },
+	): Promise<BankSyncResult> {
+		const connection = await this.bankConnectionService.resolve(connectionId);
+		const run = await this.bankSyncRunRepo.start(connection.id, trigger);
 
-		return {
-			count: transactions.length,
-			transactions,
-		};
+		let results: BankAccountSyncResult[] = [];
+		try {
+			const accessToken =
+				await this.bankConnectionService.getAccessToken(connection);
+
+			const rawAccounts = await this.tinkClient.getAccounts(accessToken);
+			const accounts = this.tinkTransformer.transformAccounts(rawAccounts);
+
+			const selected = tinkAccountId
+				? accounts.filter((account) => account.id === tinkAccountId)
+				: accounts;
+			if (selected.length === 0 && tinkAccountId) {
+				throw new Error("Compte Tink introuvable dans la connexion");
+			}
+
+			// Reprise depuis le dernier point de synchronisation, moins la fenêtre de recouvrement
+			const sync = await this.syncTinkAccounts(
+				connection,
+				accessToken,
+				selected,
+				options?.fullHistory
+					? undefined
+					: this.bankConnectionService.getSyncStartDate(connection),
+			);
+			results = sync.results;
+			if (sync.errors.length > 0) {
+				throw new Error(
+					`Synchronisation incomplète: ${sync.errors.join(" ; ")}`,
+				);
+			}
+
+			// Une synchronisation limitée à un compte ne fait pas avancer le point de reprise
+			await this.bankConnectionService.markSynced(
+				connection,
+				accounts,
+				tinkAccountId ? [] : sync.bookedDates,
+			);
+			await this.bankSyncRunRepo.markCompleted(run.id, results);
+
+			return {
+				connectionId: connection.id,
+				runId: run.id,
+				count: results.reduce((sum, r) => sum + r.fetched, 0),
+				imported: results.reduce((sum, r) => sum + r.imported, 0),
+				skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+				syncedAccounts: results,
+			};
+		} catch (error) {
+			const message =
+				error instanceof Error ? error.message : "Erreur inconnue";
+			await this.bankSyncRunRepo.markFailed(run.id, message, results);
+			await this.bankConnectionService.markFailed(connection.id, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Journal des dernières synchronisations bancaires
+	 */
+	async getSyncRuns(
+		connectionId?: number,
+		limit: number = 50,
+	): Promise<BankSyncRun[]> {
+		return this.bankSyncRunRepo.findRecent(limit, connectionId);
 	}
 
 	/**
-	 * Récupère les comptes depuis Tink
+	 * Récupère les comptes d'une connexion depuis Tink
 	 */
-	async getTinkAccounts(accessToken: string): Promise<TinkAccountData[]> {
+	async getTinkAccounts(connectionId?: number): Promise<TinkAccountData[]> {
+		const connection = await this.bankConnectionService.resolve(connectionId);
+		const accessToken =
+			await this.bankConnectionService.getAccessToken(connection);
+
 		const rawAccounts = await this.tinkClient.getAccounts(accessToken);
 		return this.tinkTransformer.transformAccounts(rawAccounts);
 	}
@@ -219,6 +613,429 @@ export default class ImportService {
 		return accounts[0];
 	}
 
+	/**
+	 * Synchronise un à un les comptes Tink vers leurs comptes liés
+	 * L'échec d'un compte n'empêche pas la synchronisation des suivants
+	 *
+	 * @param bookedDateGte - Date de reprise (yyyy-MM-dd), tout l'historique sinon
+	 */
+	private async syncTinkAccounts(
+		connection: BankConnection,
+		accessToken: string,
+		accounts: TinkAccountData[],
+		bookedDateGte?: string,
+	): Promise<{
+		results: BankAccountSyncResult[];
+		bookedDates: string[];
+		errors: string[];
+	}> {
+		const primary = this.selectPrimaryAccount(accounts);
+		const results: BankAccountSyncResult[] = [];
+		const bookedDates: string[] = [];
+		const errors: string[] = [];
+
+		// Le compte principal en dernier : les opérations des autres comptes, autrefois
+		// importées dans son compte lié, en sont déplacées avant le calcul de son solde
+		const ordered = [
+			...accounts.filter((account) => account.id !== primary?.id),
+			...accounts.filter((account) => account.id === primary?.id),
+		];
+
+		for (const tinkAccount of ordered) {
+			try {
+				const account = await this.resolveLinkedAccount(
+					connection,
+					tinkAccount,
+					tinkAccount.id === primary?.id,
+				);
+
+				const rawTransactions = await this.tinkClient.getTransactions(
+					accessToken,
+					{ accountId: tinkAccount.id, bookedDateGte },
+				);
+				const transactions =
+					this.tinkTransformer.transformTransactions(rawTransactions);
+
+				const importResult = await this.importTinkAccount(
+					account,
+					tinkAccount,
+					transactions,
+				);
+
+				results.push({
+					tinkAccountId: tinkAccount.id,
+					accountId: account.id,
+					fetched: transactions.length,
+					imported: importResult.imported,
+					skipped: importResult.skipped,
+					batchId: importResult.batchId,
+				});
+				bookedDates.push(...transactions.map((tx) => tx.date));
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Erreur inconnue";
+				console.error(`Erreur synchronisation ${tinkAccount.name}:`, error);
+				errors.push(`${tinkAccount.name}: ${message}`);
+			}
+		}
+
+		return { results, bookedDates, errors };
+	}
+
+	/**
+	 * Compte lié à un compte Tink, créé à sa première apparition
+	 * Recherche par identifiant Tink, puis par IBAN (reconnexion) ;
+	 * le compte principal d'une première connexion reprend le compte par défaut
+	 */
+	private async resolveLinkedAccount(
+		connection: BankConnection,
+		tinkAccount: TinkAccountData,
+		isPrimary: boolean,
+	): Promise<Account> {
+		let account =
+			(await this.accountRepo.findByExternalAccountId(tinkAccount.id)) ??
+			(tinkAccount.iban
+				? await this.accountRepo.findByAccountNumber(tinkAccount.iban)
+				: null);
+
+		if (!account && isPrimary) {
+			const defaultAccount = await this.accountService.getOrCreateDefault();
+			if (!defaultAccount.externalAccountId) {
+				account = defaultAccount;
+			}
+		}
+
+		account ??= await this.accountRepo.create({
+			name: tinkAccount.name || "Compte Tink",
+			bank: "Tink",
+			accountNumber: tinkAccount.iban,
+			currency: tinkAccount.currency,
+		});
+
+		if (
+			account.externalAccountId !== tinkAccount.id ||
+			account.bankConnectionId !== connection.id
+		) {
+			account =
+				(await this.accountRepo.linkExternalAccount(
+					account.id,
+					tinkAccount.id,
+					connection.id,
+				)) ?? account;
+		}
+
+		return account;
+	}
+
+	/**
+	 * Importe les transactions d'un compte Tink dans son compte lié
+	 * Infos du compte, transactions et solde initial : tout ou rien
+	 */
+	private async importTinkAccount(
+		account: Account,
+		tinkAccount: TinkAccountData,
+		transactions: TinkTransactionData[],
+	): Promise<ImportResult> {
+		let batchId: number | null = null;
+		let importResult: ImportResult;
+		try {
+			importResult = await db.transaction(async (trx) => {
+				await this.accountRepo.updateBankInfo(
+					account.id,
+					{
+						name: tinkAccount.name || account.name,
+						bank: "Tink",
+						accountNumber: tinkAccount.iban,
+						currency: tinkAccount.currency,
+					},
+					trx,
+				);
+
+				const result = await this.transactionService.importFromTink(
+					account.id,
+					transactions,
+					trx,
+				);
+				batchId = result.batchId;
+
+				// Ajuster le solde initial pour correspondre au solde réel du compte Tink
+				// solde_initial = solde_tink - (crédits - débits_importés)
+				if (tinkAccount.balance !== null) {
+					await this.adjustInitialBalanceFromTink(
+						account.id,
+						tinkAccount.balance,
+						trx,
+					);
+				}
+
+				return result;
+			});
+		} catch (error) {
+			// L'import a abouti mais la transaction a été annulée ensuite
+			if (batchId !== null) {
+				await this.transactionService.markImportFailed(batchId, error);
+			}
+			throw error;
+		}
+
+		await this.transactionService.finalizeImport(
+			account.id,
+			importResult.batchId,
+		);
+		await this.refreshRecurringSeries(account.id);
+		await this.refreshBalanceAlerts(account.id);
+
+		return importResult;
+	}
+
+	/**
+	 * Décode puis parse un relevé selon le format déduit de l'extension du fichier
+	 * L'encodage, le BOM et le séparateur (CSV) détectés sont joints au résultat
+	 */
+	private async parseFile(
+		data: Buffer,
+		filename: string,
+		options?: ImportFileOptions,
+	): Promise<ParseResult> {
+		const format = this.formatOf(filename);
+		if (format === "xlsx") {
+			return this.parseWorkbook(data, options);
+		}
+
+		const { content, encoding, bom } = charsetDetector.decode(data);
+		const parsed = await this.parseContent(content, format, options);
+
+		return {
+			...parsed,
+			detected: {
+				format,
+				encoding,
+				bom,
+				delimiter: parsed.delimiter ?? null,
+			},
+		};
+	}
+
+	/**
+	 * Parse une feuille d'un classeur XLSX avec les profils CSV
+	 * (les fichiers XML d'un classeur sont toujours en UTF-8)
+	 */
+	private async parseWorkbook(
+		data: Buffer,
+		options?: ImportFileOptions,
+	): Promise<ParseResult> {
+		const sheet = this.xlsxReader.read(data, options?.sheet);
+		const parsed = this.csvParser.parseTable(sheet.rows, {
+			profile: options?.profile,
+			extraProfiles: await this.csvTemplateService.getProfiles(),
+		});
+
+		return {
+			...parsed,
+			detected: {
+				format: "xlsx",
+				encoding: "utf-8",
+				bom: false,
+				delimiter: null,
+				sheet: sheet.name,
+			},
+		};
+	}
+
+	/**
+	 * Parse le contenu texte d'un relevé dans le format indiqué
+	 */
+	private async parseContent(
+		content: string,
+		format: StatementFormat,
+		options?: ImportFileOptions,
+	): Promise<ParseResult> {
+		switch (format) {
+			case "ofx":
+				return this.ofxParser.parse(content);
+			case "qif":
+				return this.qifParser.parse(content, options);
+			case "camt053":
+				return this.camt053Parser.parse(content);
+			case "mt940":
+				return this.mt940Parser.parse(content);
+			default:
+				return this.csvParser.parse(content, {
+					profile: options?.profile,
+					extraProfiles: await this.csvTemplateService.getProfiles(),
+				});
+		}
+	}
+
+	/**
+	 * Format de relevé déduit de l'extension du fichier (CSV par défaut)
+	 */
+	private formatOf(filename: string): StatementFormat {
+		const extname = filename.split(".").pop()?.toLowerCase() ?? "";
+		return ImportService.FILE_FORMATS[extname] ?? "csv";
+	}
+
+	/**
+	 * Nombre de lignes d'un aperçu par décision
+	 */
+	private summarizeRows(
+		rows: ImportPreviewRow[],
+	): Record<ImportRowStatus, number> {
+		const summary: Record<ImportRowStatus, number> = {
+			new: 0,
+			duplicate: 0,
+			probable_duplicate: 0,
+			error: 0,
+		};
+		for (const row of rows) summary[row.status]++;
+		return summary;
+	}
+
+	/**
+	 * Importe le résultat d'un parser (dans le compte par défaut si non précisé)
+	 */
+	private async importStatement(
+		parsed: ParseResult,
+		filename: string,
+		accountId?: number,
+	): Promise<ImportResult> {
+		const { transactions, errors: parseErrors, profile } = parsed;
+
+		if (transactions.length === 0 && parseErrors.length > 0) {
+			return {
+				imported: 0,
+				skipped: 0,
+				errors: parseErrors,
+				batchId: 0,
+				profile,
+				detected: parsed.detected,
+			};
+		}
+
+		// Récupérer ou créer le compte par défaut
+		const targetAccountId =
+			accountId ?? (await this.accountService.getOrCreateDefault()).id;
+
+		// Importer les transactions
+		const result = await this.transactionService.importBatch(
+			targetAccountId,
+			filename,
+			transactions,
+			this.formatOf(filename),
+		);
+
+		return this.completeImport(targetAccountId, result, parsed);
+	}
+
+	/**
+	 * Met en file d'attente le résultat d'un parser
+	 * (dans le compte par défaut si non précisé)
+	 */
+	private async queueStatement(
+		parsed: ParseResult,
+		filename: string,
+		accountId?: number,
+	): Promise<QueuedImport> {
+		const { transactions, errors, profile } = parsed;
+
+		if (transactions.length === 0 && errors.length > 0) {
+			return {
+				batchId: 0,
+				rowsTotal: 0,
+				errors,
+				profile,
+				detected: parsed.detected,
+			};
+		}
+
+		const targetAccountId =
+			accountId ?? (await this.accountService.getOrCreateDefault()).id;
+
+		const batch = await this.transactionService.createImportBatch(
+			targetAccountId,
+			filename,
+			transactions.length,
+			this.formatOf(filename),
+		);
+
+		// Dates sérialisées en date locale (AAAA-MM-JJ), comme en base
+		await this.importJobRepo.create({
+			importBatchId: batch.id,
+			payload: {
+				transactions: transactions.map((txData) => ({
+					...txData,
+					date: DateTime.fromJSDate(txData.date).toISODate()!,
+				})),
+				errors,
+				profile,
+				closingBalance: parsed.closingBalance && {
+					amount: parsed.closingBalance.amount,
+					date: DateTime.fromJSDate(parsed.closingBalance.date).toISODate()!,
+				},
+			},
+		});
+
+		return {
+			batchId: batch.id,
+			rowsTotal: transactions.length,
+			errors,
+			profile,
+			detected: parsed.detected,
+		};
+	}
+
+	/**
+	 * Étapes suivant l'insertion des transactions : erreurs de parsing,
+	 * rapprochement avec le solde du relevé et détection des récurrences
+	 */
+	private async completeImport(
+		accountId: number,
+		result: ImportResult,
+		parsed: ParseResult,
+	): Promise<ImportResult> {
+		// Ajouter les erreurs de parsing
+		result.errors = [...parsed.errors, ...result.errors];
+		result.profile = parsed.profile;
+		result.detected = parsed.detected;
+
+		// Rapprocher le solde calculé du solde indiqué par le relevé
+		if (parsed.closingBalance) {
+			result.balanceCheck = await this.balanceCalculator.checkStatementBalance(
+				accountId,
+				parsed.closingBalance,
+			);
+		}
+
+		// Mettre à jour les récurrences avec les nouvelles transactions
+		await this.refreshRecurringSeries(accountId);
+		await this.refreshBalanceAlerts(accountId);
+
+		return result;
+	}
+
+	/**
+	 * Relance la détection des transactions récurrentes après un import
+	 */
+	private async refreshRecurringSeries(accountId: number): Promise<void> {
+		try {
+			await this.recurringSeriesService.detect(accountId);
+		} catch (error) {
+			console.error("Erreur détection des récurrences:", error);
+			// Ne pas faire échouer l'import pour une erreur de détection
+		}
+	}
+
+	/**
+	 * Réévalue les alertes de solde bas après un import
+	 */
+	private async refreshBalanceAlerts(accountId: number): Promise<void> {
+		try {
+			await this.balanceAlertService.evaluate(accountId);
+		} catch (error) {
+			console.error("Erreur évaluation des alertes:", error);
+		}
+	}
+
 	/**
 	 * Ajuste le solde initial pour correspondre au solde réel de Tink
 	 *
@@ -233,54 +1050,69 @@ export default class ImportService {
 	private async adjustInitialBalanceFromTink(
 		accountId: number,
 		tinkBalance: number,
+		trx: TransactionClientContract,
 	): Promise<void> {
 		try {
-			// Récupérer le compte
-			const account = await this.accountRepo.findById(accountId);
-			if (!account) return;
-
-			// Calculer la somme des transactions importées
-			// Crédits = transactions positives, Débits = transactions négatives (en valeur absolue)
-			const Transaction = (await import("#models/transaction")).default;
-
-			const creditsResult = await Transaction.query()
-				.where("accountId", accountId)
-				.where("type", "credit")
-				.sum("amount as total")
-				.first();
-
-			const debitsResult = await Transaction.query()
-				.where("accountId", accountId)
-				.where("type", "debit")
-				.sum("amount as total")
-				.first();
-
-			const credits = parseFloat(creditsResult?.$extras?.total) || 0;
-			const debitsRaw = parseFloat(debitsResult?.$extras?.total) || 0;
-			const debits = Math.abs(debitsRaw);
-
-			// Calculer le solde initial correct
-			// solde_tink = solde_initial + crédits - débits
-			// Donc: solde_initial = solde_tink - crédits + débits
-			const calculatedInitialBalance = tinkBalance - credits + debits;
-
-			console.log(`📊 Ajustement solde initial depuis Tink:`);
-			console.log(`   Solde Tink: ${tinkBalance}`);
-			console.log(`   Crédits importés: ${credits}`);
-			console.log(`   Débits importés: ${debits}`);
-			console.log(`   Solde initial calculé: ${calculatedInitialBalance}`);
-
-			// Mettre à jour le solde initial et recalculer
-			account.initialBalance = calculatedInitialBalance;
-			account.balance = tinkBalance; // Le solde réel est celui de Tink
-			await account.save();
-
-			console.log(
-				`✅ Solde ajusté: initial=${calculatedInitialBalance}, actuel=${tinkBalance}`,
-			);
+			// Point de sauvegarde : une erreur n'annule pas l'import
+			await trx.transaction(async (savepoint) => {
+				await this.applyTinkBalance(accountId, tinkBalance, savepoint);
+			});
 		} catch (error) {
 			console.error("Erreur ajustement solde initial:", error);
 			// Ne pas faire échouer l'import pour une erreur de calcul de solde
 		}
 	}
+
+	/**
+	 * Calcule et enregistre le solde initial correspondant au solde Tink
+	 */
+	private async applyTinkBalance(
+		accountId: number,
+		tinkBalance: number,
+		trx: TransactionClientContract,
+	): Promise<void> {
+		// Récupérer le compte
+		const account = await this.accountRepo.findById(accountId, trx);
+		if (!account) return;
+
+		// Calculer la somme des transactions importées
+		// Crédits = transactions positives, Débits = transactions négatives (en valeur absolue)
+		const Transaction = (await import("#models/transaction")).default;
+
+		const creditsResult = await Transaction.query({ client: trx })
+			.where("accountId", accountId)
+			.where("type", "credit")
+			.sum("amount as total")
+			.first();
+
+		const debitsResult = await Transaction.query({ client: trx })
+			.where("accountId", accountId)
+			.where("type", "debit")
+			.sum("amount as total")
+			.first();
+
+		const credits = parseFloat(creditsResult?.$extras?.total) || 0;
+		const debitsRaw = parseFloat(debitsResult?.$extras?.total) || 0;
+		const debits = Math.abs(debitsRaw);
+
+		// Calculer le solde initial correct
+		// solde_tink = solde_initial + crédits - débits
+		// Donc: solde_initial = solde_tink - crédits + débits
+		const calculatedInitialBalance = tinkBalance - credits + debits;
+
+		console.log(`📊 Ajustement solde initial depuis Tink:`);
+		console.log(`   Solde Tink: ${tinkBalance}`);
+		console.log(`   Crédits importés: ${credits}`);
+		console.log(`   Débits importés: ${debits}`);
+		console.log(`   Solde initial calculé: ${calculatedInitialBalance}`);
+
+		// Mettre à jour le solde initial et recalculer
+		account.initialBalance = calculatedInitialBalance;
+		account.balance = tinkBalance; // Le solde réel est celui de Tink
+		await account.save();
+
+		console.log(
+			`✅ Solde ajusté: initial=${calculatedInitialBalance}, actuel=${tinkBalance}`,
+		);
+	}
 }
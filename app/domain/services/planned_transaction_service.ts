@@ -0,0 +1,366 @@
+import { DateTime } from "luxon";
+import PlannedTransactionRepository from "#infrastructure/repositories/planned_transaction_repository";
+import RecurrenceDetector from "#domain/services/recurrence_detector";
+import type {
+	CreatePlannedTransactionDto,
+	ForecastItem,
+	UpdatePlannedTransactionDto,
+} from "#domain/types/index";
+import type PlannedTransaction from "#models/planned_transaction";
+import type Transaction from "#models/transaction";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
+
+/**
+ * Service métier pour les transactions planifiées (échéances à venir)
+ * Couche Domain - gère les échéances et leur rapprochement avec les transactions réelles
+ */
+export default class PlannedTransactionService {
+	/**
+	 * Écart maximal (en jours) entre l'échéance et la transaction réelle
+	 */
+	private static readonly MATCH_WINDOW_DAYS = 7;
+
+	constructor(
+		private plannedRepo: PlannedTransactionRepository,
+		private detector: RecurrenceDetector,
+	) {}
+
+	/**
+	 * Récupère les transactions planifiées d'un compte
+	 */
+	async getByAccountId(accountId: number): Promise<PlannedTransaction[]> {
+		return this.plannedRepo.findByAccountId(accountId);
+	}
+
+	/**
+	 * Récupère une transaction planifiée par son ID
+	 */
+	async getById(id: number): Promise<PlannedTransaction | null> {
+		return this.plannedRepo.findById(id);
+	}
+
+	/**
+	 * Crée une transaction planifiée
+	 */
+	async create(
+		accountId: number,
+		data: CreatePlannedTransactionDto,
+	): Promise<PlannedTransaction> {
+		return this.plannedRepo.create({
+			accountId,
+			label: data.label,
+			amount: this.signedAmount(data.amount, data.type),
+			type: data.type,
+			dueDate: DateTime.fromJSDate(data.dueDate),
+			period: data.period ?? null,
+			interval: data.interval ?? 1,
+			endDate: data.endDate ? DateTime.fromJSDate(data.endDate) : null,
+			category: data.category ?? null,
+		});
+	}
+
+	/**
+	 * Met à jour une transaction planifiée
+	 */
+	async update(
+		id: number,
+		data: UpdatePlannedTransactionDto,
+	): Promise<PlannedTransaction> {
+		const planned = await this.plannedRepo.findById(id);
+		if (!planned) {
+			throw new Error("Transaction planifiée non trouvée");
+		}
+
+		const changes: Parameters<PlannedTransactionRepository["update"]>[1] = {};
+		const type = data.type ?? planned.type;
+
+		if (data.label !== undefined) changes.label = data.label;
+		if (data.type !== undefined) changes.type = data.type;
+		if (data.period !== undefined) changes.period = data.period;
+		if (data.interval !== undefined) changes.interval = data.interval;
+		if (data.category !== undefined) changes.category = data.category;
+		if (data.status !== undefined) changes.status = data.status;
+		if (data.dueDate !== undefined) {
+			changes.dueDate = DateTime.fromJSDate(data.dueDate);
+		}
+		if (data.endDate !== undefined) {
+			changes.endDate = data.endDate ? DateTime.fromJSDate(data.endDate) : null;
+		}
+		if (data.amount !== undefined || data.type !== undefined) {
+			changes.amount = this.signedAmount(
+				data.amount ?? Number(planned.amount),
+				type,
+			);
+		}
+
+		const updated = await this.plannedRepo.update(id, changes);
+		return updated!;
+	}
+
+	/**
+	 * Supprime une transaction planifiée
+	 */
+	async delete(id: number): Promise<void> {
+		const deleted = await this.plannedRepo.delete(id);
+		if (!deleted) {
+			throw new Error("Transaction planifiée non trouvée");
+		}
+	}
+
+	/**
+	 * Rapproche des transactions importées avec les échéances en attente
+	 * Une échéance est réalisée si une transaction de même sens et de montant proche
+	 * est passée dans la fenêtre autour de la date prévue ; les échéances suivantes
+	 * d'une opération répétée sont rapprochées à leur tour
+	 *
+	 * @returns Le nombre d'échéances réalisées
+	 */
+	async matchImported(
+		accountId: number,
+		transactions: Transaction[],
+	): Promise<number> {
+		if (transactions.length === 0) return 0;
+
+		const pending = await this.plannedRepo.findByAccountId(accountId, {
+			status: "pending",
+		});
+		const used = new Set<number>();
+		let realized = 0;
+
+		for (const planned of pending) {
+			// Une opération répétée peut avoir plusieurs échéances couvertes par l'import
+			let current: PlannedTransaction | null = planned;
+			while (
+				current?.status === "pending" &&
+				(!current.endDate || current.dueDate <= current.endDate)
+			) {
+				const match = this.findMatch(current, transactions, used);
+				if (!match) break;
+
+				used.add(match.id);
+				current = await this.realize(current, match);
+				realized++;
+			}
+		}
+
+		return realized;
+	}
+
+	/**
+	 * Reporte le rapprochement d'une transaction supprimée sur celle qui la remplace
+	 */
+	async transferRealization(
+		fromTransactionId: number,
+		toTransactionId: number,
+		trx?: TransactionClientContract,
+	): Promise<void> {
+		await this.plannedRepo.reassignRealizedTransaction(
+			fromTransactionId,
+			toTransactionId,
+			trx,
+		);
+	}
+
+	/**
+	 * Annule les rapprochements de transactions supprimées : chaque transaction
+	 * planifiée revient à sa plus ancienne échéance annulée et redevient attendue
+	 *
+	 * @returns Le nombre d'échéances rétablies
+	 */
+	async revertRealizations(
+		transactionIds: number[],
+		trx?: TransactionClientContract,
+	): Promise<number> {
+		const realizations =
+			await this.plannedRepo.findRealizationsByTransactionIds(
+				transactionIds,
+				trx,
+			);
+		if (realizations.length === 0) return 0;
+
+		await this.plannedRepo.deleteRealizationsByTransactionIds(
+			transactionIds,
+			trx,
+		);
+
+		const earliestDue = new Map<number, DateTime>();
+		for (const realization of realizations) {
+			const current = earliestDue.get(realization.plannedTransactionId);
+			if (!current || realization.dueDate < current) {
+				earliestDue.set(realization.plannedTransactionId, realization.dueDate);
+			}
+		}
+
+		for (const [plannedId, dueDate] of earliestDue) {
+			const planned = await this.plannedRepo.findById(plannedId, trx);
+			if (!planned || planned.status === "cancelled") continue;
+
+			const latest = await this.plannedRepo.findLatestRealization(
+				plannedId,
+				trx,
+			);
+			await this.plannedRepo.update(
+				plannedId,
+				{
+					dueDate: dueDate < planned.dueDate ? dueDate : planned.dueDate,
+					status: "pending",
+					realizedTransactionId: latest?.transactionId ?? null,
+				},
+				trx,
+			);
+		}
+
+		return realizations.length;
+	}
+
+	/**
+	 * Génère les occurrences à venir des échéances en attente
+	 * Une échéance dépassée non rapprochée reste attendue dès le lendemain de `from`,
+	 * une seule fois : les occurrences répétées suivantes reprennent après `from`
+	 */
+	async getForecastItems(
+		accountId: number,
+		from: DateTime,
+		to: DateTime,
+	): Promise<ForecastItem[]> {
+		const pending = await this.plannedRepo.findByAccountId(accountId, {
+			status: "pending",
+		});
+		const items: ForecastItem[] = [];
+
+		for (const planned of pending) {
+			let due = planned.dueDate;
+			const isActive = (date: DateTime) =>
+				!planned.endDate || date <= planned.endDate;
+
+			if (due <= from) {
+				const overdue = from.plus({ days: 1 });
+				if (overdue <= to && isActive(due)) {
+					items.push({
+						date: overdue.toISODate()!,
+						label: planned.label,
+						amount: Number(planned.amount),
+						source: "planned",
+						sourceId: planned.id,
+					});
+				}
+
+				if (!planned.period) continue;
+				while (due <= from) {
+					due = this.nextDueDate(planned, due);
+				}
+			}
+
+			while (due <= to && isActive(due)) {
+				items.push({
+					date: due.toISODate()!,
+					label: planned.label,
+					amount: Number(planned.amount),
+					source: "planned",
+					sourceId: planned.id,
+				});
+
+				if (!planned.period) break;
+				due = this.nextDueDate(planned, due);
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Marque une échéance comme réalisée
+	 * Les opérations répétées passent à l'échéance suivante
+	 */
+	private async realize(
+		planned: PlannedTransaction,
+		transaction: Transaction,
+	): Promise<PlannedTransaction | null> {
+		// Journalisée pour pouvoir rétablir l'échéance si l'import est annulé
+		await this.plannedRepo.recordRealization({
+			plannedTransactionId: planned.id,
+			transactionId: transaction.id,
+			dueDate: planned.dueDate,
+		});
+
+		if (!planned.period) {
+			return this.plannedRepo.update(planned.id, {
+				status: "realized",
+				realizedTransactionId: transaction.id,
+			});
+		}
+
+		const nextDue = this.nextDueDate(planned, planned.dueDate);
+		const isFinished = planned.endDate !== null && nextDue > planned.endDate;
+
+		return this.plannedRepo.update(planned.id, {
+			dueDate: nextDue,
+			status: isFinished ? "realized" : "pending",
+			realizedTransactionId: transaction.id,
+		});
+	}
+
+	/**
+	 * Transaction la plus proche d'une échéance : même sens, montant proche,
+	 * dans la fenêtre de rapprochement, meilleur libellé puis date la plus proche
+	 */
+	private findMatch(
+		planned: PlannedTransaction,
+		transactions: Transaction[],
+		used: Set<number>,
+	): Transaction | undefined {
+		return transactions
+			.filter(
+				(tx) =>
+					!used.has(tx.id) &&
+					tx.type === planned.type &&
+					this.detector.amountsMatch(
+						Number(planned.amount),
+						Number(tx.amount),
+					) &&
+					Math.abs(tx.date.diff(planned.dueDate, "days").days) <=
+						PlannedTransactionService.MATCH_WINDOW_DAYS,
+			)
+			.sort(
+				(a, b) =>
+					this.labelScore(planned.label, b.label) -
+						this.labelScore(planned.label, a.label) ||
+					Math.abs(a.date.diff(planned.dueDate, "days").days) -
+						Math.abs(b.date.diff(planned.dueDate, "days").days),
+			)[0];
+	}
+
+	/**
+	 * Calcule l'échéance suivante d'une opération répétée
+	 */
+	private nextDueDate(planned: PlannedTransaction, from: DateTime): DateTime {
+		let next = from;
+		for (let i = 0; i < Math.max(1, planned.interval); i++) {
+			next = this.detector.nextOccurrence(next, planned.period!);
+		}
+		return next;
+	}
+
+	/**
+	 * Score de similarité entre deux libellés (nombre de mots communs)
+	 */
+	private labelScore(plannedLabel: string, label: string): number {
+		const words = new Set(
+			this.detector
+				.normalizeLabel(label)
+				.split(" ")
+				.filter((word) => word.length > 2),
+		);
+		return this.detector
+			.normalizeLabel(plannedLabel)
+			.split(" ")
+			.filter((word) => words.has(word)).length;
+	}
+
+	/**
+	 * Applique le signe selon le type (débit négatif, crédit positif)
+	 */
+	private signedAmount(amount: number, type: "debit" | "credit"): number {
+		return type === "credit" ? Math.abs(amount) : -Math.abs(amount);
+	}
+}
@@ -0,0 +1,208 @@
+import { DateTime } from "luxon";
+import type {
+	DetectedSeries,
+	RecurrencePeriod,
+	TransactionType,
+} from "#domain/types/index";
+import type Transaction from "#models/transaction";
+
+/**
+ * Caractéristiques de chaque période de récurrence
+ * - days: intervalle nominal en jours
+ * - tolerance: écart accepté (en jours) sur chaque intervalle
+ * - minOccurrences: nombre minimal d'occurrences pour valider la série
+ */
+const PERIODS: Record<
+	RecurrencePeriod,
+	{ days: number; tolerance: number; minOccurrences: number }
+> = {
+	weekly: { days: 7, tolerance: 2, minOccurrences: 4 },
+	monthly: { days: 30, tolerance: 5, minOccurrences: 3 },
+	quarterly: { days: 91, tolerance: 12, minOccurrences: 2 },
+	yearly: { days: 365, tolerance: 20, minOccurrences: 2 },
+};
+
+/**
+ * Service métier pour la détection des transactions récurrentes
+ * Couche Domain - logique pure, sans accès aux données
+ */
+export default class RecurrenceDetector {
+	/**
+	 * Écart relatif accepté entre deux montants d'une même série
+	 */
+	static readonly AMOUNT_TOLERANCE = 0.1;
+
+	/**
+	 * Détecte les séries récurrentes dans une liste de transactions
+	 */
+	detect(transactions: Transaction[]): DetectedSeries[] {
+		const series: DetectedSeries[] = [];
+
+		for (const group of this.groupByMerchant(transactions).values()) {
+			for (const cluster of this.clusterByAmount(group)) {
+				const detected = this.analyzeCluster(cluster);
+				if (detected) {
+					series.push(detected);
+				}
+			}
+		}
+
+		return series;
+	}
+
+	/**
+	 * Calcule l'occurrence suivante d'une date selon la période
+	 */
+	nextOccurrence(date: DateTime, period: RecurrencePeriod): DateTime {
+		switch (period) {
+			case "weekly":
+				return date.plus({ weeks: 1 });
+			case "monthly":
+				return date.plus({ months: 1 });
+			case "quarterly":
+				return date.plus({ months: 3 });
+			case "yearly":
+				return date.plus({ years: 1 });
+		}
+	}
+
+	/**
+	 * Vérifie si deux montants appartiennent à la même série
+	 */
+	amountsMatch(reference: number, amount: number): boolean {
+		return (
+			Math.abs(Math.abs(amount) - Math.abs(reference)) <=
+			Math.abs(reference) * RecurrenceDetector.AMOUNT_TOLERANCE
+		);
+	}
+
+	/**
+	 * Normalise un libellé pour le regroupement
+	 * Supprime les chiffres (dates, références), la ponctuation et les espaces multiples
+	 */
+	normalizeLabel(label: string): string {
+		return label
+			.toUpperCase()
+			.normalize("NFD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.replace(/\d+/g, " ")
+			.replace(/[^A-Z ]/g, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+	}
+
+	/**
+	 * Regroupe les transactions par marchand normalisé et sens de l'opération
+	 */
+	private groupByMerchant(
+		transactions: Transaction[],
+	): Map<string, Transaction[]> {
+		const groups = new Map<string, Transaction[]>();
+
+		for (const tx of transactions) {
+			const merchantKey = this.normalizeLabel(tx.merchant || tx.label);
+			if (!merchantKey) continue;
+
+			const key = `${tx.type}|${merchantKey}`;
+			const group = groups.get(key) ?? [];
+			group.push(tx);
+			groups.set(key, group);
+		}
+
+		return groups;
+	}
+
+	/**
+	 * Découpe un groupe en sous-groupes de montants proches
+	 * (ex: deux abonnements différents chez le même marchand)
+	 */
+	private clusterByAmount(group: Transaction[]): Transaction[][] {
+		const sorted = [...group].sort(
+			(a, b) => Math.abs(Number(a.amount)) - Math.abs(Number(b.amount)),
+		);
+		const clusters: Transaction[][] = [];
+		let current: Transaction[] = [];
+
+		for (const tx of sorted) {
+			if (
+				current.length > 0 &&
+				!this.amountsMatch(Number(current[0].amount), Number(tx.amount))
+			) {
+				clusters.push(current);
+				current = [];
+			}
+			current.push(tx);
+		}
+
+		if (current.length > 0) {
+			clusters.push(current);
+		}
+
+		return clusters;
+	}
+
+	/**
+	 * Analyse un sous-groupe et en déduit une série si les intervalles sont réguliers
+	 */
+	private analyzeCluster(cluster: Transaction[]): DetectedSeries | null {
+		const sorted = [...cluster].sort(
+			(a, b) => a.date.toMillis() - b.date.toMillis(),
+		);
+		if (sorted.length < 2) return null;
+
+		const intervals: number[] = [];
+		for (let i = 1; i < sorted.length; i++) {
+			intervals.push(
+				Math.round(sorted[i].date.diff(sorted[i - 1].date, "days").days),
+			);
+		}
+
+		const period = this.inferPeriod(this.median(intervals));
+		if (!period) return null;
+
+		const { days, tolerance, minOccurrences } = PERIODS[period];
+		if (sorted.length < minOccurrences) return null;
+
+		const isRegular = intervals.every(
+			(interval) => Math.abs(interval - days) <= tolerance,
+		);
+		if (!isRegular) return null;
+
+		const last = sorted[sorted.length - 1];
+		const type: TransactionType = last.type;
+
+		return {
+			merchantKey: this.normalizeLabel(last.merchant || last.label),
+			label: last.merchant || last.label,
+			type,
+			amount: this.median(sorted.map((tx) => Number(tx.amount))),
+			period,
+			lastDate: last.date.toJSDate(),
+			nextExpectedDate: this.nextOccurrence(last.date, period).toJSDate(),
+			transactionIds: sorted.map((tx) => tx.id),
+		};
+	}
+
+	/**
+	 * Déduit la période à partir de l'intervalle médian
+	 */
+	private inferPeriod(interval: number): RecurrencePeriod | null {
+		for (const [period, { days, tolerance }] of Object.entries(PERIODS)) {
+			if (Math.abs(interval - days) <= tolerance) {
+				return period as RecurrencePeriod;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Calcule la médiane d'une liste de valeurs
+	 */
+	private median(values: number[]): number {
+		const sorted = [...values].sort((a, b) => a - b);
+		const middle = Math.floor(sorted.length / 2);
+		return sorted.length % 2 === 0
+			? (sorted[middle - 1] + sorted[middle]) / 2
+			: sorted[middle];
+	}
+}
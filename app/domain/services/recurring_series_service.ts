@@ -0,0 +1,247 @@
+import { DateTime } from "luxon";
+import RecurringSeriesRepository from "#infrastructure/repositories/recurring_series_repository";
+import TransactionRepository from "#infrastructure/repositories/transaction_repository";
+import RecurrenceDetector from "#domain/services/recurrence_detector";
+import type {
+	ForecastItem,
+	RecurrenceDetectionResult,
+	UpdateRecurringSeriesDto,
+} from "#domain/types/index";
+import type RecurringSeries from "#models/recurring_series";
+
+/**
+ * Service métier pour les séries récurrentes (salaire, loyer, abonnements...)
+ * Couche Domain - persiste les détections et gère les actions utilisateur
+ */
+export default class RecurringSeriesService {
+	private static readonly HISTORY_MONTHS = 18;
+
+	/**
+	 * Nombre de périodes sans transaction au-delà duquel une série détectée
+	 * est considérée comme arrêtée (abonnement résilié...)
+	 */
+	private static readonly MAX_MISSED_PERIODS = 2;
+
+	constructor(
+		private seriesRepo: RecurringSeriesRepository,
+		private transactionRepo: TransactionRepository,
+		private detector: RecurrenceDetector,
+	) {}
+
+	/**
+	 * Récupère les séries d'un compte (hors séries écartées par défaut)
+	 */
+	async getByAccountId(
+		accountId: number,
+		includeDismissed: boolean = false,
+	): Promise<RecurringSeries[]> {
+		return this.seriesRepo.findByAccountId(accountId, {
+			statuses: includeDismissed ? undefined : ["detected", "confirmed"],
+		});
+	}
+
+	/**
+	 * Récupère une série par son ID
+	 */
+	async getById(id: number): Promise<RecurringSeries | null> {
+		return this.seriesRepo.findById(id);
+	}
+
+	/**
+	 * Analyse l'historique du compte et met à jour les séries
+	 * Les séries confirmées gardent les valeurs saisies par l'utilisateur,
+	 * les séries écartées ne sont pas recréées
+	 */
+	async detect(accountId: number): Promise<RecurrenceDetectionResult> {
+		const today = DateTime.now().startOf("day");
+		const history = await this.transactionRepo.findByAccountIdBetween(
+			accountId,
+			today.minus({ months: RecurringSeriesService.HISTORY_MONTHS }),
+			today,
+		);
+
+		const detectedSeries = this.detector.detect(history);
+		let created = 0;
+		let updated = 0;
+
+		for (const detected of detectedSeries) {
+			const candidates = await this.seriesRepo.findByMerchantKey(
+				accountId,
+				detected.merchantKey,
+				detected.type,
+			);
+			const existing = candidates.find((series) =>
+				this.detector.amountsMatch(Number(series.amount), detected.amount),
+			);
+
+			const lastDate = DateTime.fromJSDate(detected.lastDate);
+			const nextExpectedDate = DateTime.fromJSDate(detected.nextExpectedDate);
+
+			if (!existing) {
+				const series = await this.seriesRepo.create({
+					accountId,
+					merchantKey: detected.merchantKey,
+					label: detected.label,
+					type: detected.type,
+					amount: detected.amount,
+					period: detected.period,
+					lastDate,
+					nextExpectedDate,
+					occurrences: detected.transactionIds.length,
+				});
+				await this.seriesRepo.linkTransactions(
+					series.id,
+					detected.transactionIds,
+				);
+				created++;
+				continue;
+			}
+
+			if (existing.status === "dismissed") continue;
+
+			if (existing.status === "confirmed") {
+				// Avancer l'échéance sans écraser les valeurs saisies
+				await this.seriesRepo.update(existing.id, {
+					lastDate,
+					nextExpectedDate:
+						existing.nextExpectedDate > lastDate
+							? existing.nextExpectedDate
+							: this.detector.nextOccurrence(lastDate, existing.period),
+					occurrences: detected.transactionIds.length,
+				});
+			} else {
+				await this.seriesRepo.update(existing.id, {
+					label: detected.label,
+					amount: detected.amount,
+					period: detected.period,
+					lastDate,
+					nextExpectedDate,
+					occurrences: detected.transactionIds.length,
+				});
+			}
+
+			await this.seriesRepo.linkTransactions(
+				existing.id,
+				detected.transactionIds,
+			);
+			updated++;
+		}
+
+		return { detected: detectedSeries.length, created, updated };
+	}
+
+	/**
+	 * Confirme une série détectée
+	 */
+	async confirm(id: number): Promise<RecurringSeries> {
+		return this.setStatus(id, "confirmed");
+	}
+
+	/**
+	 * Écarte une série (ne sera plus proposée ni prévue)
+	 */
+	async dismiss(id: number): Promise<RecurringSeries> {
+		const series = await this.setStatus(id, "dismissed");
+		await this.seriesRepo.unlinkTransactions(id);
+		return series;
+	}
+
+	/**
+	 * Modifie une série - une série modifiée est considérée comme confirmée
+	 */
+	async update(
+		id: number,
+		data: UpdateRecurringSeriesDto,
+	): Promise<RecurringSeries> {
+		const series = await this.seriesRepo.findById(id);
+		if (!series) {
+			throw new Error("Série non trouvée");
+		}
+
+		const changes: Parameters<RecurringSeriesRepository["update"]>[1] = {
+			status: "confirmed",
+		};
+
+		if (data.label !== undefined) changes.label = data.label;
+		if (data.period !== undefined) changes.period = data.period;
+		if (data.category !== undefined) changes.category = data.category;
+		if (data.nextExpectedDate !== undefined) {
+			changes.nextExpectedDate = DateTime.fromJSDate(data.nextExpectedDate);
+		}
+		if (data.amount !== undefined) {
+			// Le signe suit le sens de la série
+			changes.amount =
+				series.type === "credit"
+					? Math.abs(data.amount)
+					: -Math.abs(data.amount);
+		}
+
+		const updated = await this.seriesRepo.update(id, changes);
+
+		return updated!;
+	}
+
+	/**
+	 * Génère les occurrences futures des séries actives sur une période
+	 * Les échéances dépassées sans transaction sont reportées à la période suivante,
+	 * sauf pour une série détectée arrêtée depuis plus de MAX_MISSED_PERIODS périodes
+	 */
+	async getForecastItems(
+		accountId: number,
+		from: DateTime,
+		to: DateTime,
+	): Promise<ForecastItem[]> {
+		const seriesList = await this.getByAccountId(accountId);
+		const items: ForecastItem[] = [];
+
+		for (const series of seriesList) {
+			if (series.status === "detected" && this.isStopped(series, from)) {
+				continue;
+			}
+
+			let next = series.nextExpectedDate;
+			while (next <= from) {
+				next = this.detector.nextOccurrence(next, series.period);
+			}
+
+			while (next <= to) {
+				items.push({
+					date: next.toISODate()!,
+					label: series.label,
+					amount: Number(series.amount),
+					source: "recurring",
+					sourceId: series.id,
+				});
+				next = this.detector.nextOccurrence(next, series.period);
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Vérifie si la dernière transaction d'une série date de plus de
+	 * MAX_MISSED_PERIODS périodes
+	 */
+	private isStopped(series: RecurringSeries, from: DateTime): boolean {
+		let deadline = series.lastDate;
+		for (let i = 0; i < RecurringSeriesService.MAX_MISSED_PERIODS; i++) {
+			deadline = this.detector.nextOccurrence(deadline, series.period);
+		}
+		return deadline < from;
+	}
+
+	/**
+	 * Change le statut d'une série
+	 */
+	private async setStatus(
+		id: number,
+		status: "confirmed" | "dismissed",
+	): Promise<RecurringSeries> {
+		const series = await this.seriesRepo.update(id, { status });
+		if (!series) {
+			throw new Error("Série non trouvée");
+		}
+		return series;
+	}
+}
@@ -0,0 +1,285 @@
+import { DateTime } from "luxon";
+import SavingsGoalRepository from "#infrastructure/repositories/savings_goal_repository";
+import AccountRepository from "#infrastructure/repositories/account_repository";
+import TransactionRepository from "#infrastructure/repositories/transaction_repository";
+import BalanceCalculator from "#domain/services/balance_calculator";
+import type {
+	CreateSavingsGoalDto,
+	SavingsGoalData,
+	SavingsGoalProjection,
+	UpdateSavingsGoalDto,
+} from "#domain/types/index";
+import type SavingsGoal from "#models/savings_goal";
+
+/**
+ * Service métier pour les objectifs d'épargne
+ * Couche Domain - suit la progression et projette la date d'atteinte de chaque objectif
+ */
+export default class SavingsGoalService {
+	/**
+	 * Nombre de mois complets utilisés pour mesurer le rythme d'épargne
+	 */
+	static readonly SAVINGS_HISTORY_MONTHS = 3;
+
+	constructor(
+		private goalRepo: SavingsGoalRepository,
+		private accountRepo: AccountRepository,
+		private transactionRepo: TransactionRepository,
+		private balanceCalculator: BalanceCalculator,
+	) {}
+
+	/**
+	 * Récupère les objectifs d'un compte avec leur projection
+	 */
+	async getByAccountId(
+		accountId: number,
+	): Promise<{ goal: SavingsGoalData; projection: SavingsGoalProjection }[]> {
+		const goals = await this.goalRepo.findByAccountId(accountId);
+		if (goals.length === 0) return [];
+
+		const monthlySavings = await this.averageMonthlySavings(accountId);
+		const savedAmounts = await this.savedAmounts(goals);
+
+		return goals.map((goal) => ({
+			goal: this.toData(goal),
+			projection: this.project(
+				goal,
+				savedAmounts.get(goal.id)!,
+				monthlySavings,
+			),
+		}));
+	}
+
+	/**
+	 * Récupère un objectif avec sa projection
+	 */
+	async getById(id: number): Promise<{
+		goal: SavingsGoalData;
+		projection: SavingsGoalProjection;
+	} | null> {
+		const goal = await this.goalRepo.findById(id);
+		if (!goal) return null;
+
+		// Le solde partagé se répartit entre tous les objectifs du compte
+		const goals = await this.goalRepo.findByAccountId(goal.accountId);
+		const monthlySavings = await this.averageMonthlySavings(goal.accountId);
+		const savedAmounts = await this.savedAmounts(goals);
+
+		return {
+			goal: this.toData(goal),
+			projection: this.project(
+				goal,
+				savedAmounts.get(goal.id)!,
+				monthlySavings,
+			),
+		};
+	}
+
+	/**
+	 * Crée un objectif
+	 */
+	async create(
+		accountId: number,
+		data: CreateSavingsGoalDto,
+	): Promise<SavingsGoalData> {
+		if (data.linkedAccountId) {
+			await this.assertAccountExists(data.linkedAccountId);
+		}
+
+		const goal = await this.goalRepo.create({
+			accountId,
+			name: data.name,
+			targetAmount: data.targetAmount,
+			targetDate: DateTime.fromJSDate(data.targetDate),
+			linkedAccountId: data.linkedAccountId ?? null,
+			category: data.category ?? null,
+			initialAmount: data.initialAmount ?? 0,
+		});
+		return this.toData(goal);
+	}
+
+	/**
+	 * Met à jour un objectif
+	 */
+	async update(
+		id: number,
+		data: UpdateSavingsGoalDto,
+	): Promise<SavingsGoalData> {
+		const changes: Parameters<SavingsGoalRepository["update"]>[1] = {};
+
+		if (data.name !== undefined) changes.name = data.name;
+		if (data.targetAmount !== undefined) {
+			changes.targetAmount = data.targetAmount;
+		}
+		if (data.targetDate !== undefined) {
+			changes.targetDate = DateTime.fromJSDate(data.targetDate);
+		}
+		if (data.linkedAccountId !== undefined) {
+			if (data.linkedAccountId) {
+				await this.assertAccountExists(data.linkedAccountId);
+			}
+			changes.linkedAccountId = data.linkedAccountId;
+		}
+		if (data.category !== undefined) changes.category = data.category;
+		if (data.initialAmount !== undefined) {
+			changes.initialAmount = data.initialAmount;
+		}
+
+		const goal = await this.goalRepo.update(id, changes);
+		if (!goal) {
+			throw new Error("Objectif non trouvé");
+		}
+		return this.toData(goal);
+	}
+
+	/**
+	 * Supprime un objectif
+	 */
+	async delete(id: number): Promise<void> {
+		const deleted = await this.goalRepo.delete(id);
+		if (!deleted) {
+			throw new Error("Objectif non trouvé");
+		}
+	}
+
+	/**
+	 * Calcule la progression et la projection d'un objectif
+	 */
+	private project(
+		goal: SavingsGoal,
+		savedAmount: number,
+		monthlySavings: number,
+	): SavingsGoalProjection {
+		const today = DateTime.now().startOf("day");
+		const targetAmount = Number(goal.targetAmount);
+		const remainingAmount = Math.max(0, targetAmount - savedAmount);
+
+		// Mois restants avant la date cible (au moins un pour lisser l'effort)
+		const monthsLeft = Math.max(
+			1,
+			goal.targetDate.diff(today, "months").months,
+		);
+		const requiredMonthlyContribution = remainingAmount / monthsLeft;
+
+		let projectedCompletionDate: DateTime | null = today;
+		if (remainingAmount > 0) {
+			projectedCompletionDate =
+				monthlySavings > 0
+					? today.plus({ months: Math.ceil(remainingAmount / monthlySavings) })
+					: null;
+		}
+
+		return {
+			savedAmount: this.round(savedAmount),
+			remainingAmount: this.round(remainingAmount),
+			progressPercent:
+				targetAmount > 0
+					? this.round(Math.min(100, (savedAmount / targetAmount) * 100))
+					: 100,
+			monthlySavings: this.round(monthlySavings),
+			requiredMonthlyContribution: this.round(requiredMonthlyContribution),
+			projectedCompletionDate: projectedCompletionDate?.toISODate() ?? null,
+			onTrack:
+				projectedCompletionDate !== null &&
+				projectedCompletionDate <= goal.targetDate,
+		};
+	}
+
+	/**
+	 * Montant déjà épargné de chaque objectif
+	 * - avec catégorie : total des transactions de la catégorie (ex: virements vers l'épargne)
+	 * - sinon : solde du compte lié (à défaut, du compte de l'objectif), réparti entre
+	 *   les objectifs qui le partagent par date cible croissante : il n'est compté qu'une fois
+	 *
+	 * @param goals - Objectifs triés par date cible
+	 */
+	private async savedAmounts(
+		goals: SavingsGoal[],
+	): Promise<Map<number, number>> {
+		const savedAmounts = new Map<number, number>();
+		const available = new Map<number, number>();
+
+		for (const goal of goals) {
+			const initialAmount = Number(goal.initialAmount) || 0;
+
+			if (goal.category) {
+				const total = await this.transactionRepo.sumByCategory(
+					goal.accountId,
+					goal.category,
+				);
+				savedAmounts.set(goal.id, initialAmount + Math.abs(total));
+				continue;
+			}
+
+			const accountId = goal.linkedAccountId ?? goal.accountId;
+			if (!available.has(accountId)) {
+				const account = await this.accountRepo.findById(accountId);
+				const balance = Number.parseFloat(String(account?.balance)) || 0;
+				available.set(accountId, Math.max(0, balance));
+			}
+
+			const balance = available.get(accountId)!;
+			const share = Math.min(
+				balance,
+				Math.max(0, Number(goal.targetAmount) - initialAmount),
+			);
+			available.set(accountId, balance - share);
+			savedAmounts.set(goal.id, initialAmount + share);
+		}
+
+		return savedAmounts;
+	}
+
+	/**
+	 * Vérifie que le compte lié à un objectif existe
+	 */
+	private async assertAccountExists(accountId: number): Promise<void> {
+		const account = await this.accountRepo.findById(accountId);
+		if (!account) {
+			throw new Error("Compte lié non trouvé");
+		}
+	}
+
+	/**
+	 * Épargne mensuelle moyenne sur les derniers mois complets
+	 */
+	private async averageMonthlySavings(accountId: number): Promise<number> {
+		const currentMonth = DateTime.now().startOf("month");
+		let total = 0;
+
+		for (let i = 1; i <= SavingsGoalService.SAVINGS_HISTORY_MONTHS; i++) {
+			const month = currentMonth.minus({ months: i });
+			const stats = await this.balanceCalculator.calculateMonthlyStats(
+				accountId,
+				month.year,
+				month.month,
+			);
+			total += stats.savings.amount;
+		}
+
+		return total / SavingsGoalService.SAVINGS_HISTORY_MONTHS;
+	}
+
+	/**
+	 * Données d'un objectif exposées par l'API (date ISO, montants numériques)
+	 */
+	private toData(goal: SavingsGoal): SavingsGoalData {
+		return {
+			id: goal.id,
+			accountId: goal.accountId,
+			linkedAccountId: goal.linkedAccountId,
+			name: goal.name,
+			targetAmount: Number(goal.targetAmount),
+			targetDate: goal.targetDate.toISODate()!,
+			category: goal.category,
+			initialAmount: Number(goal.initialAmount),
+		};
+	}
+
+	/**
+	 * Arrondit au centime
+	 */
+	private round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
@@ -0,0 +1,193 @@
+import { DateTime } from "luxon";
+import ScenarioRepository, {
+	type ScenarioAdjustmentRow,
+} from "#infrastructure/repositories/scenario_repository";
+import ForecastService from "#domain/services/forecast_service";
+import type {
+	ForecastResult,
+	SaveScenarioDto,
+	ScenarioAdjustmentData,
+	ScenarioComparison,
+	ScenarioComparisonResult,
+} from "#domain/types/index";
+import type Scenario from "#models/scenario";
+import type ScenarioAdjustment from "#models/scenario_adjustment";
+
+/**
+ * Service métier pour les scénarios de simulation ("et si...")
+ * Couche Domain - compare la prévision de chaque scénario à la prévision de référence
+ */
+export default class ScenarioService {
+	constructor(
+		private scenarioRepo: ScenarioRepository,
+		private forecastService: ForecastService,
+	) {}
+
+	/**
+	 * Récupère les scénarios d'un compte
+	 */
+	async getByAccountId(accountId: number): Promise<Scenario[]> {
+		return this.scenarioRepo.findByAccountId(accountId);
+	}
+
+	/**
+	 * Récupère un scénario par son ID
+	 */
+	async getById(id: number): Promise<Scenario | null> {
+		return this.scenarioRepo.findById(id);
+	}
+
+	/**
+	 * Crée un scénario
+	 */
+	async create(accountId: number, data: SaveScenarioDto): Promise<Scenario> {
+		return this.scenarioRepo.create({
+			accountId,
+			name: data.name,
+			description: data.description ?? null,
+			adjustments: data.adjustments.map((adj) => this.toRow(adj)),
+		});
+	}
+
+	/**
+	 * Remplace le contenu d'un scénario
+	 */
+	async update(id: number, data: SaveScenarioDto): Promise<Scenario> {
+		const scenario = await this.scenarioRepo.update(id, {
+			name: data.name,
+			description: data.description ?? null,
+			adjustments: data.adjustments.map((adj) => this.toRow(adj)),
+		});
+		if (!scenario) {
+			throw new Error("Scénario non trouvé");
+		}
+		return scenario;
+	}
+
+	/**
+	 * Supprime un scénario
+	 */
+	async delete(id: number): Promise<void> {
+		const deleted = await this.scenarioRepo.delete(id);
+		if (!deleted) {
+			throw new Error("Scénario non trouvé");
+		}
+	}
+
+	/**
+	 * Compare les scénarios d'un compte avec la prévision de référence
+	 * Si scenarioId est fourni, seul ce scénario est évalué
+	 */
+	async compare(
+		accountId: number,
+		horizonDays?: number,
+		scenarioId?: number,
+	): Promise<ScenarioComparisonResult> {
+		let scenarios: Scenario[];
+		if (scenarioId !== undefined) {
+			const scenario = await this.scenarioRepo.findById(scenarioId);
+			if (!scenario || scenario.accountId !== accountId) {
+				throw new Error("Scénario non trouvé");
+			}
+			scenarios = [scenario];
+		} else {
+			scenarios = await this.scenarioRepo.findByAccountId(accountId);
+		}
+
+		const baseline = await this.forecastService.forecast(
+			accountId,
+			horizonDays,
+		);
+
+		const comparisons: ScenarioComparison[] = [];
+		for (const scenario of scenarios) {
+			const projected = await this.forecastService.forecast(
+				accountId,
+				horizonDays,
+				scenario.adjustments.map((adj) => this.toAdjustmentData(adj)),
+			);
+			comparisons.push(this.diff(scenario, baseline, projected));
+		}
+
+		return {
+			baseline: {
+				endBalance: baseline.endBalance,
+				lowestBalance: baseline.lowestBalance,
+				zeroCrossingDate: baseline.zeroCrossingDate,
+			},
+			scenarios: comparisons,
+		};
+	}
+
+	/**
+	 * Calcule l'écart jour par jour entre deux courbes de même horizon
+	 */
+	private diff(
+		scenario: Scenario,
+		baseline: ForecastResult,
+		projected: ForecastResult,
+	): ScenarioComparison {
+		return {
+			scenarioId: scenario.id,
+			name: scenario.name,
+			endBalance: projected.endBalance,
+			lowestBalance: projected.lowestBalance,
+			zeroCrossingDate: projected.zeroCrossingDate,
+			days: projected.days.map((day, index) => {
+				const reference = baseline.days[index].balance;
+				return {
+					date: day.date,
+					baseline: reference,
+					scenario: day.balance,
+					difference: Math.round((day.balance - reference) * 100) / 100,
+				};
+			}),
+		};
+	}
+
+	/**
+	 * Convertit un ajustement métier en ligne persistable
+	 */
+	private toRow(adjustment: ScenarioAdjustmentData): ScenarioAdjustmentRow {
+		let amount = adjustment.amount ?? null;
+		if (amount !== null && adjustment.type) {
+			amount =
+				adjustment.type === "credit" ? Math.abs(amount) : -Math.abs(amount);
+		}
+
+		return {
+			kind: adjustment.kind,
+			targetType: adjustment.targetType ?? null,
+			targetId: adjustment.targetId ?? null,
+			label: adjustment.label ?? null,
+			amount,
+			period: adjustment.period ?? null,
+			factor: adjustment.factor ?? null,
+			startDate: adjustment.startDate
+				? DateTime.fromJSDate(adjustment.startDate)
+				: null,
+			endDate: adjustment.endDate
+				? DateTime.fromJSDate(adjustment.endDate)
+				: null,
+		};
+	}
+
+	/**
+	 * Convertit un ajustement persisté en donnée métier
+	 */
+	private toAdjustmentData(
+		adjustment: ScenarioAdjustment,
+	): ScenarioAdjustmentData {
+		return {
+			kind: adjustment.kind,
+			targetType: adjustment.targetType,
+			targetId: adjustment.targetId,
+			label: adjustment.label,
+			amount: adjustment.amount !== null ? Number(adjustment.amount) : null,
+			period: adjustment.period,
+			factor: adjustment.factor !== null ? Number(adjustment.factor) : null,
+			startDate: adjustment.startDate?.toJSDate() ?? null,
+			endDate: adjustment.endDate?.toJSDate() ?? null,
+		};
+	}
+}
@@ -2,10 +2,33 @@ import AccountRepository from "#infrastructure/repositories/account_repository";
 import TransactionRepository from "#infrastructure/repositories/transaction_repository";
 import ImportBatchRepository from "#infrastructure/repositories/import_batch_repository";
 import CategoryRuleRepository from "#infrastructure/repositories/category_rule_repository";
+import RecurringSeriesRepository from "#infrastructure/repositories/recurring_series_repository";
+import PlannedTransactionRepository from "#infrastructure/repositories/planned_transaction_repository";
+import ScenarioRepository from "#infrastructure/repositories/scenario_repository";
+import BalanceAlertRepository from "#infrastructure/repositories/balance_alert_repository";
+import SavingsGoalRepository from "#infrastructure/repositories/savings_goal_repository";
+import CsvImportTemplateRepository from "#infrastructure/repositories/csv_import_template_repository";
+import ImportPreviewRepository from "#infrastructure/repositories/import_preview_repository";
+import ImportJobRepository from "#infrastructure/repositories/import_job_repository";
+import BankConnectionRepository from "#infrastructure/repositories/bank_connection_repository";
+import BankSyncRunRepository from "#infrastructure/repositories/bank_sync_run_repository";
 import BalanceCalculator from "#domain/services/balance_calculator";
 import AccountService from "#domain/services/account_service";
 import TransactionService from "#domain/services/transaction_service";
 import ImportService from "#domain/services/import_service";
+import ForecastService from "#domain/services/forecast_service";
+import RecurrenceDetector from "#domain/services/recurrence_detector";
+import VariableSpendingEstimator from "#domain/services/variable_spending_estimator";
+import RecurringSeriesService from "#domain/services/recurring_series_service";
+import PlannedTransactionService from "#domain/services/planned_transaction_service";
+import ScenarioService from "#domain/services/scenario_service";
+import BalanceAlertService from "#domain/services/balance_alert_service";
+import SavingsGoalService from "#domain/services/savings_goal_service";
+import CsvTemplateService from "#domain/services/csv_template_service";
+import ImportQueue from "#domain/services/import_queue";
+import BankConnectionService from "#domain/services/bank_connection_service";
+import BankSyncScheduler from "#domain/services/bank_sync_scheduler";
+import bankSyncConfig from "#config/bank_sync";
 
 /**
  * Provider de services
@@ -18,12 +41,34 @@ class ServiceProvider {
 	private _transactionRepo?: TransactionRepository;
 	private _importBatchRepo?: ImportBatchRepository;
 	private _categoryRuleRepo?: CategoryRuleRepository;
+	private _recurringSeriesRepo?: RecurringSeriesRepository;
+	private _plannedTransactionRepo?: PlannedTransactionRepository;
+	private _scenarioRepo?: ScenarioRepository;
+	private _balanceAlertRepo?: BalanceAlertRepository;
+	private _savingsGoalRepo?: SavingsGoalRepository;
+	private _csvImportTemplateRepo?: CsvImportTemplateRepository;
+	private _importPreviewRepo?: ImportPreviewRepository;
+	private _importJobRepo?: ImportJobRepository;
+	private _bankConnectionRepo?: BankConnectionRepository;
+	private _bankSyncRunRepo?: BankSyncRunRepository;
 
 	// Services (singletons)
 	private _balanceCalculator?: BalanceCalculator;
 	private _accountService?: AccountService;
 	private _transactionService?: TransactionService;
 	private _importService?: ImportService;
+	private _forecastService?: ForecastService;
+	private _recurrenceDetector?: RecurrenceDetector;
+	private _variableSpendingEstimator?: VariableSpendingEstimator;
+	private _recurringSeriesService?: RecurringSeriesService;
+	private _plannedTransactionService?: PlannedTransactionService;
+	private _scenarioService?: ScenarioService;
+	private _balanceAlertService?: BalanceAlertService;
+	private _savingsGoalService?: SavingsGoalService;
+	private _csvTemplateService?: CsvTemplateService;
+	private _importQueue?: ImportQueue;
+	private _bankConnectionService?: BankConnectionService;
+	private _bankSyncScheduler?: BankSyncScheduler;
 
 	// ============================================================================
 	// REPOSITORIES
@@ -57,6 +102,76 @@ class ServiceProvider {
 		return this._categoryRuleRepo;
 	}
 
+	get recurringSeriesRepository(): RecurringSeriesRepository {
+		if (!this._recurringSeriesRepo) {
+			this._recurringSeriesRepo = new RecurringSeriesRepository();
+		}
+		return this._recurringSeriesRepo;
+	}
+
+	get plannedTransactionRepository(): PlannedTransactionRepository {
+		if (!this._plannedTransactionRepo) {
+			this._plannedTransactionRepo = new PlannedTransactionRepository();
+		}
+		return this._plannedTransactionRepo;
+	}
+
+	get scenarioRepository(): ScenarioRepository {
+		if (!this._scenarioRepo) {
+			this._scenarioRepo = new ScenarioRepository();
+		}
+		return this._scenarioRepo;
+	}
+
+	get balanceAlertRepository(): BalanceAlertRepository {
+		if (!this._balanceAlertRepo) {
+			this._balanceAlertRepo = new BalanceAlertRepository();
+		}
+		return this._balanceAlertRepo;
+	}
+
+	get savingsGoalRepository(): SavingsGoalRepository {
+		if (!this._savingsGoalRepo) {
+			this._savingsGoalRepo = new SavingsGoalRepository();
+		}
+		return this._savingsGoalRepo;
+	}
+
+	get csvImportTemplateRepository(): CsvImportTemplateRepository {
+		if (!this._csvImportTemplateRepo) {
+			this._csvImportTemplateRepo = new CsvImportTemplateRepository();
+		}
+		return this._csvImportTemplateRepo;
+	}
+
+	get importPreviewRepository(): ImportPreviewRepository {
+		if (!this._importPreviewRepo) {
+			this._importPreviewRepo = new ImportPreviewRepository();
+		}
+		return this._importPreviewRepo;
+	}
+
+	get importJobRepository(): ImportJobRepository {
+		if (!this._importJobRepo) {
+			this._importJobRepo = new ImportJobRepository();
+		}
+		return this._importJobRepo;
+	}
+
+	get bankConnectionRepository(): BankConnectionRepository {
+		if (!this._bankConnectionRepo) {
+			this._bankConnectionRepo = new BankConnectionRepository();
+		}
+		return this._bankConnectionRepo;
+	}
+
+	get bankSyncRunRepository(): BankSyncRunRepository {
+		if (!this._bankSyncRunRepo) {
+			this._bankSyncRunRepo = new BankSyncRunRepository();
+		}
+		return this._bankSyncRunRepo;
+	}
+
 	// ============================================================================
 	// SERVICES
 	// ============================================================================
@@ -66,6 +181,8 @@ class ServiceProvider {
 			this._balanceCalculator = new BalanceCalculator(
 				this.transactionRepository,
 				this.accountRepository,
+				this.recurringSeriesService,
+				this.plannedTransactionService,
 			);
 		}
 		return this._balanceCalculator;
@@ -90,6 +207,7 @@ class ServiceProvider {
 				this.accountRepository,
 				this.importBatchRepository,
 				this.balanceCalculator,
+				this.plannedTransactionService,
 			);
 		}
 		return this._transactionService;
@@ -101,11 +219,141 @@ class ServiceProvider {
 				this.accountService,
 				this.transactionService,
 				this.accountRepository,
+				this.recurringSeriesService,
+				this.csvTemplateService,
+				this.balanceCalculator,
+				this.importPreviewRepository,
+				this.importJobRepository,
+				this.bankConnectionService,
+				this.bankSyncRunRepository,
+				this.balanceAlertService,
 			);
 		}
 		return this._importService;
 	}
 
+	get forecastService(): ForecastService {
+		if (!this._forecastService) {
+			this._forecastService = new ForecastService(
+				this.accountRepository,
+				this.transactionRepository,
+				this.recurringSeriesService,
+				this.plannedTransactionService,
+				this.recurrenceDetector,
+				this.variableSpendingEstimator,
+			);
+		}
+		return this._forecastService;
+	}
+
+	get recurrenceDetector(): RecurrenceDetector {
+		if (!this._recurrenceDetector) {
+			this._recurrenceDetector = new RecurrenceDetector();
+		}
+		return this._recurrenceDetector;
+	}
+
+	get variableSpendingEstimator(): VariableSpendingEstimator {
+		if (!this._variableSpendingEstimator) {
+			this._variableSpendingEstimator = new VariableSpendingEstimator();
+		}
+		return this._variableSpendingEstimator;
+	}
+
+	get recurringSeriesService(): RecurringSeriesService {
+		if (!this._recurringSeriesService) {
+			this._recurringSeriesService = new RecurringSeriesService(
+				this.recurringSeriesRepository,
+				this.transactionRepository,
+				this.recurrenceDetector,
+			);
+		}
+		return this._recurringSeriesService;
+	}
+
+	get plannedTransactionService(): PlannedTransactionService {
+		if (!this._plannedTransactionService) {
+			this._plannedTransactionService = new PlannedTransactionService(
+				this.plannedTransactionRepository,
+				this.recurrenceDetector,
+			);
+		}
+		return this._plannedTransactionService;
+	}
+
+	get scenarioService(): ScenarioService {
+		if (!this._scenarioService) {
+			this._scenarioService = new ScenarioService(
+				this.scenarioRepository,
+				this.forecastService,
+			);
+		}
+		return this._scenarioService;
+	}
+
+	get balanceAlertService(): BalanceAlertService {
+		if (!this._balanceAlertService) {
+			this._balanceAlertService = new BalanceAlertService(
+				this.balanceAlertRepository,
+				this.accountRepository,
+				this.forecastService,
+			);
+		}
+		return this._balanceAlertService;
+	}
+
+	get savingsGoalService(): SavingsGoalService {
+		if (!this._savingsGoalService) {
+			this._savingsGoalService = new SavingsGoalService(
+				this.savingsGoalRepository,
+				this.accountRepository,
+				this.transactionRepository,
+				this.balanceCalculator,
+			);
+		}
+		return this._savingsGoalService;
+	}
+
+	get csvTemplateService(): CsvTemplateService {
+		if (!this._csvTemplateService) {
+			this._csvTemplateService = new CsvTemplateService(
+				this.csvImportTemplateRepository,
+			);
+		}
+		return this._csvTemplateService;
+	}
+
+	get importQueue(): ImportQueue {
+		if (!this._importQueue) {
+			this._importQueue = new ImportQueue(
+				this.importJobRepository,
+				this.importBatchRepository,
+				this.importService,
+			);
+		}
+		return this._importQueue;
+	}
+
+	get bankConnectionService(): BankConnectionService {
+		if (!this._bankConnectionService) {
+			this._bankConnectionService = new BankConnectionService(
+				this.bankConnectionRepository,
+				bankSyncConfig.overlapDays,
+			);
+		}
+		return this._bankConnectionService;
+	}
+
+	get bankSyncScheduler(): BankSyncScheduler {
+		if (!this._bankSyncScheduler) {
+			this._bankSyncScheduler = new BankSyncScheduler(
+				this.bankConnectionService,
+				this.importService,
+			);
+		}
+		return this._bankSyncScheduler;
+	}
+
 	// ============================================================================
 	// RESET (pour les tests)
 	// ============================================================================
@@ -115,10 +363,34 @@ class ServiceProvider {
 		this._transactionRepo = undefined;
 		this._importBatchRepo = undefined;
 		this._categoryRuleRepo = undefined;
+		this._recurringSeriesRepo = undefined;
+		this._plannedTransactionRepo = undefined;
+		this._scenarioRepo = undefined;
+		this._balanceAlertRepo = undefined;
+		this._savingsGoalRepo = undefined;
+		this._csvImportTemplateRepo = undefined;
+		this._importPreviewRepo = undefined;
+		this._importJobRepo = undefined;
+		this._bankConnectionRepo = undefined;
+		this._bankSyncRunRepo = undefined;
 		this._balanceCalculator = undefined;
 		this._accountService = undefined;
 		this._transactionService = undefined;
 		this._importService = undefined;
+		this._forecastService = undefined;
+		this._recurrenceDetector = undefined;
+		this._variableSpendingEstimator = undefined;
+		this._recurringSeriesService = undefined;
+		this._plannedTransactionService = undefined;
+		this._scenarioService = undefined;
+		this._balanceAlertService = undefined;
+		this._savingsGoalService = undefined;
+		this._csvTemplateService = undefined;
+		this._importQueue?.stop();
+		this._importQueue = undefined;
+		this._bankConnectionService = undefined;
+		this._bankSyncScheduler?.stop();
+		this._bankSyncScheduler = undefined;
 	}
 }
 
@@ -126,4 +398,21 @@ class ServiceProvider {
 export const services = new ServiceProvider();
 
 // Export des types pour faciliter l'utilisation
-export { AccountService, TransactionService, ImportService, BalanceCalculator };
+export {
+	AccountService,
+	TransactionService,
+	ImportService,
+	BalanceCalculator,
+	ForecastService,
+	RecurrenceDetector,
+	VariableSpendingEstimator,
+	RecurringSeriesService,
+	PlannedTransactionService,
+	ScenarioService,
+	BalanceAlertService,
+	SavingsGoalService,
+	CsvTemplateService,
+	ImportQueue,
+	BankConnectionService,
+	BankSyncScheduler,
+};
@@ -2,13 +2,20 @@ import TransactionRepository from "#infrastructure/repositories/transaction_repo
 import AccountRepository from "#infrastructure/repositories/account_repository";
 import ImportBatchRepository from "#infrastructure/repositories/import_batch_repository";
 import BalanceCalculator from "#domain/services/balance_calculator";
+import PlannedTransactionService from "#domain/services/planned_transaction_service";
 import { hashGenerator } from "#infrastructure/utils/hash_generator";
 import type {
 	CreateTransactionDto,
+	DuplicateMergeReport,
 	ParsedTransactionData,
+	ImportPreviewRow,
 	ImportResult,
+	ImportSource,
 } from "#domain/types/index";
 import Transaction from "#models/transaction";
+import type ImportBatch from "#models/import_batch";
+import db from "@adonisjs/lucid/services/db";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
 import { DateTime } from "luxon";
 
 /**
@@ -26,11 +33,23 @@ export class DuplicateTransactionError extends Error {
  * Couche Domain - contient la logique métier
  */
 export default class TransactionService {
+	/**
+	 * Écart maximal (en jours) entre deux opérations de même montant
+	 * pour les signaler comme doublon probable
+	 */
+	private static readonly PROBABLE_DUPLICATE_DAYS = 3;
+
+	/**
+	 * Nombre de transactions insérées par requête lors d'un import
+	 */
+	private static readonly IMPORT_CHUNK_SIZE = 1000;
+
 	constructor(
 		private transactionRepo: TransactionRepository,
 		private accountRepo: AccountRepository,
 		private importBatchRepo: ImportBatchRepository,
 		private balanceCalculator: BalanceCalculator,
+		private plannedTransactionService: PlannedTransactionService,
 	) {}
 
 	/**
@@ -69,7 +88,7 @@ export default class TransactionService {
 		const hash = hashGenerator.forManualTransaction(date, data.label, amount);
 
 		// Vérifier si la transaction existe déjà
-		const existing = await this.transactionRepo.findByHash(hash);
+		const existing = await this.transactionRepo.findByHash(accountId, hash);
 		if (existing) {
 			throw new DuplicateTransactionError();
 		}
@@ -127,36 +146,203 @@ export default class TransactionService {
 	}
 
 	/**
-	 * Importe un batch de transactions (depuis CSV ou Tink)
+	 * Importe un batch de transactions (depuis un relevé ou Tink)
+	 * trx : transaction de l'appelant, qui doit alors appeler finalizeImport après validation
 	 */
 	async importBatch(
 		accountId: number,
 		filename: string,
 		transactions: ParsedTransactionData[],
+		source?: ImportSource,
+		trx?: TransactionClientContract,
 	): Promise<ImportResult> {
-		// Créer le batch d'import
-		const batch = await this.importBatchRepo.create({
+		const batch = await this.createImportBatch(
 			accountId,
 			filename,
-			status: "processing",
+			transactions.length,
+			source,
+		);
+
+		return this.importIntoBatch(batch, transactions, trx);
+	}
+
+	/**
+	 * Crée un batch d'import en attente de traitement
+	 */
+	async createImportBatch(
+		accountId: number,
+		filename: string,
+		rowsTotal: number,
+		source?: ImportSource,
+	): Promise<ImportBatch> {
+		return this.importBatchRepo.create({
+			accountId,
+			filename,
+			source,
+			status: "pending",
+			rowsTotal,
 		});
+	}
 
+	/**
+	 * Importe des transactions dans un batch existant, par lots
+	 * Toutes les insertions ont lieu dans une transaction : en cas d'erreur,
+	 * aucune ligne n'est conservée et le batch passe en "failed".
+	 * La progression est enregistrée hors transaction pour rester visible.
+	 */
+	async importIntoBatch(
+		batch: ImportBatch,
+		transactions: ParsedTransactionData[],
+		trx?: TransactionClientContract,
+	): Promise<ImportResult> {
+		await this.importBatchRepo.updateStatus(batch.id, "processing");
+
+		let result: ImportResult;
+		try {
+			result = trx
+				? await this.insertBatchRows(batch, transactions, trx)
+				: await db.transaction((client) =>
+						this.insertBatchRows(batch, transactions, client),
+					);
+		} catch (error) {
+			await this.markImportFailed(batch.id, error);
+			throw error;
+		}
+
+		// Transaction de l'appelant : finalisation après sa validation
+		if (!trx) {
+			await this.finalizeImport(batch.accountId, batch.id);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Marque un batch comme échoué avec le message de l'erreur
+	 */
+	async markImportFailed(batchId: number, error: unknown): Promise<void> {
+		const message = error instanceof Error ? error.message : "Erreur inconnue";
+		await this.importBatchRepo.markFailed(batchId, message);
+	}
+
+	/**
+	 * Finalise un import validé : rapprochement des échéances et solde
+	 */
+	async finalizeImport(accountId: number, batchId: number): Promise<void> {
+		// Marquer comme réalisées les échéances planifiées correspondantes
+		try {
+			const created = await this.transactionRepo.findByImportBatchId(batchId);
+			await this.plannedTransactionService.matchImported(accountId, created);
+		} catch (error) {
+			console.error("Erreur rapprochement des échéances planifiées:", error);
+		}
+
+		// Recalculer le solde du compte
+		await this.balanceCalculator.recalculateForAccount(accountId);
+	}
+
+	/**
+	 * Insère les transactions d'un batch dans la transaction fournie
+	 * Chaque lot : une recherche des hashs existants puis une insertion groupée.
+	 * Un lot refusé est réinséré ligne à ligne, chaque ligne dans un point de
+	 * sauvegarde pour que ses erreurs n'annulent pas le reste de l'import.
+	 */
+	private async insertBatchRows(
+		batch: ImportBatch,
+		transactions: ParsedTransactionData[],
+		trx: TransactionClientContract,
+	): Promise<ImportResult> {
 		let imported = 0;
 		let skipped = 0;
 		const errors: string[] = [];
+		const seen = new Set<string>();
+		const seenExternal = new Set<string>();
 
-		for (const txData of transactions) {
-			try {
-				// Vérifier si la transaction existe déjà
-				const existing = await this.transactionRepo.findByHash(txData.hash);
-				if (existing) {
+		for (
+			let start = 0;
+			start < transactions.length;
+			start += TransactionService.IMPORT_CHUNK_SIZE
+		) {
+			const chunk = transactions.slice(
+				start,
+				start + TransactionService.IMPORT_CHUNK_SIZE,
+			);
+
+			// Identifiant externe d'abord : stable même si le libellé change
+			const existingExternal = await this.transactionRepo.findByExternalIds(
+				batch.accountId,
+				chunk
+					.map((txData) => txData.externalId)
+					.filter((id): id is string => !!id),
+				trx,
+			);
+			for (const tx of existingExternal) seenExternal.add(tx.externalId!);
+
+			// Transactions importées avant le stockage de l'identifiant externe,
+			// quel que soit leur compte : toutes les opérations Tink allaient au compte par défaut
+			const legacy = new Map<string, Transaction>();
+			const legacyMatches = await this.transactionRepo.findByHashes(
+				chunk
+					.map((txData) => txData.legacyHash)
+					.filter((hash): hash is string => !!hash),
+				trx,
+			);
+			for (const tx of legacyMatches) {
+				if (!tx.externalId) legacy.set(tx.hash, tx);
+			}
+
+			// Ignorer les transactions déjà dans le compte ou déjà vues dans le fichier
+			// (une même opération peut figurer sur les relevés de deux comptes)
+			const existing = await this.transactionRepo.findByAccountHashes(
+				batch.accountId,
+				chunk.map((txData) => txData.hash),
+				trx,
+			);
+			for (const tx of existing) seen.add(tx.hash);
+
+			const rows: Parameters<TransactionRepository["createMany"]>[0] = [];
+			for (const txData of chunk) {
+				if (txData.externalId && seenExternal.has(txData.externalId)) {
+					skipped++;
+					continue;
+				}
+
+				// Ancienne transaction : reçoit son identifiant au lieu d'être dupliquée,
+				// et rejoint le compte du batch si elle avait été rangée ailleurs
+				// Une collision de l'ancien hash (opérations jumelles) n'est reprise qu'une fois
+				const previous = txData.legacyHash
+					? legacy.get(txData.legacyHash)
+					: undefined;
+				if (previous && txData.externalId && !seen.has(txData.hash)) {
+					legacy.delete(previous.hash);
+					await this.transactionRepo.assignExternalId(
+						previous.id,
+						{
+							externalId: txData.externalId,
+							hash: txData.hash,
+							// Sa série récurrente appartient à l'autre compte
+							...(previous.accountId !== batch.accountId && {
+								accountId: batch.accountId,
+								recurringSeriesId: null,
+							}),
+						},
+						trx,
+					);
+					seenExternal.add(txData.externalId);
+					seen.add(txData.hash);
+					skipped++;
+					continue;
+				}
+
+				if (seen.has(txData.hash)) {
 					skipped++;
 					continue;
 				}
+				seen.add(txData.hash);
+				if (txData.externalId) seenExternal.add(txData.externalId);
 
-				// Créer la transaction
-				await this.transactionRepo.create({
-					accountId,
+				rows.push({
+					accountId: batch.accountId,
 					importBatchId: batch.id,
 					date: DateTime.fromJSDate(
 						txData.date instanceof Date ? txData.date : new Date(txData.date),
@@ -165,23 +351,42 @@ export default class TransactionService {
 					amount: txData.amount,
 					type: txData.type,
 					merchant: txData.merchant,
+					category: txData.category ?? null,
 					paymentMethod: txData.paymentMethod,
 					hash: txData.hash,
+					externalId: txData.externalId ?? null,
 				});
+			}
 
-				imported++;
-			} catch (error) {
-				const message =
-					error instanceof Error ? error.message : "Erreur inconnue";
-				errors.push(message);
+			try {
+				imported += await trx.transaction((savepoint) =>
+					this.transactionRepo.createMany(rows, savepoint),
+				);
+			} catch {
+				// Lot refusé : insertion ligne à ligne pour isoler les erreurs
+				for (const row of rows) {
+					try {
+						await trx.transaction((savepoint) =>
+							this.transactionRepo.create(row, savepoint),
+						);
+						imported++;
+					} catch (error) {
+						const message =
+							error instanceof Error ? error.message : "Erreur inconnue";
+						errors.push(`${row.label}: ${message}`);
+					}
+				}
 			}
-		}
 
-		// Mettre à jour le batch
-		await this.importBatchRepo.markCompleted(batch.id, imported, skipped);
+			await this.importBatchRepo.updateProgress(batch.id, {
+				processed: start + chunk.length,
+				imported,
+				skipped,
+			});
+		}
 
-		// Recalculer le solde du compte
-		await this.balanceCalculator.recalculateForAccount(accountId);
+		// Le batch n'est terminé qu'avec la validation de ses transactions
+		await this.importBatchRepo.markCompleted(batch.id, imported, skipped, trx);
 
 		return {
 			imported,
@@ -191,6 +396,291 @@ export default class TransactionService {
 		};
 	}
 
+	/**
+	 * Récupère un batch d'import par son ID
+	 */
+	async getImportBatch(batchId: number): Promise<ImportBatch | null> {
+		return this.importBatchRepo.findById(batchId);
+	}
+
+	/**
+	 * Historique des imports d'un compte (les plus récents en premier)
+	 */
+	async getImportHistory(accountId: number): Promise<ImportBatch[]> {
+		return this.importBatchRepo.findByAccountId(accountId);
+	}
+
+	/**
+	 * Annule un import : ses transactions sont supprimées et le batch est
+	 * conservé avec le statut "rolled_back" pour garder la trace de l'import
+	 *
+	 * @returns Le batch annulé et le nombre de transactions supprimées
+	 */
+	async rollbackImportBatch(
+		batchId: number,
+	): Promise<{ batch: ImportBatch; removed: number }> {
+		const batch = await this.importBatchRepo.findById(batchId);
+		if (!batch) {
+			throw new Error("Import non trouvé");
+		}
+		if (batch.status === "rolled_back") {
+			throw new Error("Import déjà annulé");
+		}
+		// Un import en file ou en cours réinsérerait ses lignes après l'annulation
+		if (batch.status !== "completed" && batch.status !== "failed") {
+			throw new Error("Import en cours");
+		}
+
+		const removed = await db.transaction(async (trx) => {
+			// Les échéances rapprochées avec les transactions du batch redeviennent attendues
+			const transactions = await this.transactionRepo.findByImportBatchId(
+				batchId,
+				trx,
+			);
+			await this.plannedTransactionService.revertRealizations(
+				transactions.map((transaction) => transaction.id),
+				trx,
+			);
+
+			const count = await this.transactionRepo.deleteByImportBatchId(
+				batchId,
+				trx,
+			);
+			await this.importBatchRepo.markRolledBack(batchId, trx);
+			return count;
+		});
+
+		// Recalculer le solde du compte
+		await this.balanceCalculator.recalculateForAccount(batch.accountId);
+
+		return {
+			batch: (await this.importBatchRepo.findById(batchId)) ?? batch,
+			removed,
+		};
+	}
+
+	/**
+	 * Analyse un batch sans rien écrire : doublon (même ID externe ou même hash), doublon probable
+	 * (même montant à quelques jours d'écart, libellé différent) ou nouvelle transaction
+	 * La catégorie proposée est celle du fichier, sinon la dernière utilisée pour le marchand
+	 */
+	async previewBatch(
+		accountId: number,
+		transactions: ParsedTransactionData[],
+	): Promise<ImportPreviewRow[]> {
+		if (transactions.length === 0) return [];
+
+		const dates = transactions.map((txData) =>
+			DateTime.fromJSDate(
+				txData.date instanceof Date ? txData.date : new Date(txData.date),
+			),
+		);
+		const window = TransactionService.PROBABLE_DUPLICATE_DAYS;
+
+		const [existing, sameHash, sameExternal, categorized] = await Promise.all([
+			this.transactionRepo.findByAccountIdBetween(
+				accountId,
+				DateTime.min(...dates)!.minus({ days: window }),
+				DateTime.max(...dates)!.plus({ days: window }),
+			),
+			this.transactionRepo.findByAccountHashes(
+				accountId,
+				transactions.map((tx) => tx.hash),
+			),
+			this.transactionRepo.findByExternalIds(
+				accountId,
+				transactions
+					.map((tx) => tx.externalId)
+					.filter((id): id is string => !!id),
+			),
+			this.transactionRepo.findCategorizedByMerchants(accountId, [
+				...new Set(
+					transactions
+						.map((tx) => tx.merchant)
+						.filter((merchant): merchant is string => !!merchant),
+				),
+			]),
+		]);
+
+		const byHash = new Map(sameHash.map((tx) => [tx.hash, tx]));
+		const byExternalId = new Map(
+			sameExternal.map((tx) => [tx.externalId!, tx]),
+		);
+		const knownCategories = new Map<string, string>();
+		for (const tx of categorized) {
+			if (!knownCategories.has(tx.merchant!)) {
+				knownCategories.set(tx.merchant!, tx.category!);
+			}
+		}
+
+		// Une transaction existante ne justifie qu'un seul doublon
+		const claimed = new Set([...sameHash, ...sameExternal].map((tx) => tx.id));
+
+		return transactions.map((txData, index) => {
+			const date = dates[index];
+			const duplicate =
+				(txData.externalId && byExternalId.get(txData.externalId)) ||
+				byHash.get(txData.hash);
+
+			const candidate = duplicate
+				? undefined
+				: existing
+						.filter(
+							(tx) =>
+								!claimed.has(tx.id) &&
+								Math.round(Number(tx.amount) * 100) ===
+									Math.round(txData.amount * 100) &&
+								Math.abs(tx.date.diff(date, "days").days) <= window,
+						)
+						.sort(
+							(a, b) =>
+								Math.abs(a.date.diff(date, "days").days) -
+								Math.abs(b.date.diff(date, "days").days),
+						)[0];
+			if (candidate) claimed.add(candidate.id);
+
+			return {
+				index,
+				status: duplicate
+					? "duplicate"
+					: candidate
+						? "probable_duplicate"
+						: "new",
+				date: date.toISODate(),
+				label: txData.label,
+				amount: txData.amount,
+				type: txData.type,
+				merchant: txData.merchant,
+				category:
+					txData.category ??
+					(txData.merchant ? knownCategories.get(txData.merchant) : null) ??
+					null,
+				paymentMethod: txData.paymentMethod,
+				hash: txData.hash,
+				externalId: txData.externalId ?? null,
+				matchedTransactionId: (duplicate ?? candidate)?.id ?? null,
+			};
+		});
+	}
+
+	/**
+	 * Fusionne les doublons laissés par les ré-imports de CSV (anciens hashs aléatoires)
+	 * Un export contient toutes les opérations jumelles d'un jour : pour chaque groupe
+	 * (date, libellé, montant), on conserve autant de transactions que le batch qui
+	 * en compte le plus. Les transactions conservées reçoivent le hash déterministe
+	 * afin que les prochains imports les reconnaissent.
+	 */
+	async mergeImportDuplicates(
+		accountId: number,
+		options?: { dryRun?: boolean },
+	): Promise<DuplicateMergeReport> {
+		const report: DuplicateMergeReport = {
+			accountId,
+			duplicateGroups: 0,
+			removed: 0,
+			rehashed: 0,
+		};
+
+		// Seuls les imports de fichiers CSV ont reçu des hashs aléatoires
+		const imported = (
+			await this.transactionRepo.findImportedByAccountId(accountId)
+		).filter((tx) => tx.importBatch?.filename.toLowerCase().endsWith(".csv"));
+
+		const groups = new Map<string, Transaction[]>();
+		for (const tx of imported) {
+			const key = hashGenerator.forImportedTransaction(
+				tx.date,
+				tx.label,
+				Number(tx.amount),
+				0,
+			);
+			groups.set(key, [...(groups.get(key) ?? []), tx]);
+		}
+
+		const merges: { kept: Transaction[]; removed: Transaction[] }[] = [];
+		const rehash: { tx: Transaction; hash: string }[] = [];
+
+		for (const group of groups.values()) {
+			const perBatch = new Map<number, number>();
+			for (const tx of group) {
+				const batchId = tx.importBatchId!;
+				perBatch.set(batchId, (perBatch.get(batchId) ?? 0) + 1);
+			}
+			const keep = Math.max(...perBatch.values());
+			const kept = group.slice(0, keep);
+			const removed = group.slice(keep);
+
+			if (removed.length > 0) {
+				report.duplicateGroups++;
+				report.removed += removed.length;
+				merges.push({ kept, removed });
+			}
+
+			kept.forEach((tx, occurrence) => {
+				const hash = hashGenerator.forImportedTransaction(
+					tx.date,
+					tx.label,
+					Number(tx.amount),
+					occurrence,
+				);
+				if (tx.hash !== hash) rehash.push({ tx, hash });
+			});
+		}
+
+		report.rehashed = rehash.length;
+		if (options?.dryRun) return report;
+
+		// Suppressions et nouveaux hashs : tout ou rien
+		await db.transaction(async (trx) => {
+			// Les informations saisies sur un doublon sont reportées sur la transaction conservée
+			for (const { kept, removed } of merges) {
+				for (const [index, duplicate] of removed.entries()) {
+					const target = kept[index % kept.length];
+					target.category ??= duplicate.category;
+					target.merchant ??= duplicate.merchant;
+					target.recurringSeriesId ??= duplicate.recurringSeriesId;
+
+					await this.plannedTransactionService.transferRealization(
+						duplicate.id,
+						target.id,
+						trx,
+					);
+					await this.transactionRepo.delete(duplicate.id, trx);
+				}
+
+				for (const tx of kept) {
+					await this.transactionRepo.update(
+						tx.id,
+						{
+							category: tx.category,
+							merchant: tx.merchant,
+							recurringSeriesId: tx.recurringSeriesId,
+						},
+						trx,
+					);
+				}
+			}
+
+			// Hash temporaire d'abord : un hash cible peut être détenu par une autre transaction conservée
+			for (const { tx } of rehash) {
+				await this.transactionRepo.update(
+					tx.id,
+					{ hash: `merge-${tx.id}` },
+					trx,
+				);
+			}
+			for (const { tx, hash } of rehash) {
+				await this.transactionRepo.update(tx.id, { hash }, trx);
+			}
+		});
+
+		if (report.removed > 0) {
+			await this.balanceCalculator.recalculateForAccount(accountId);
+		}
+
+		return report;
+	}
+
 	/**
 	 * Importe des transactions depuis Tink
 	 */
@@ -203,6 +693,7 @@ export default class TransactionService {
 			description: string;
 			type: "credit" | "debit";
 		}>,
+		trx?: TransactionClientContract,
 	): Promise<ImportResult> {
 		const filename = `tink_sync_${new Date().toISOString().split("T")[0]}`;
 
@@ -215,17 +706,29 @@ export default class TransactionService {
 				type: tx.type,
 				merchant: this.extractMerchant(tx.description),
 				paymentMethod: null,
-				hash: hashGenerator.forTinkTransaction(
+				// Hash stable : identifiant Tink, indépendant du libellé
+				hash: hashGenerator.forExternalTransaction(
+					"tink",
+					String(accountId),
+					tx.externalId,
+				),
+				externalId: tx.externalId,
+				legacyHash: hashGenerator.forTinkTransaction(
 					tx.date,
 					tx.amount,
 					tx.description,
 					tx.type,
 				),
-				externalId: tx.externalId,
 			}),
 		);
 
-		return this.importBatch(accountId, filename, parsedTransactions);
+		return this.importBatch(
+			accountId,
+			filename,
+			parsedTransactions,
+			"tink",
+			trx,
+		);
 	}
 
 	/**
@@ -0,0 +1,119 @@
+import { DateTime } from "luxon";
+import type {
+	ForecastBand,
+	VariableSpendingCategory,
+	VariableSpendingModel,
+} from "#domain/types/index";
+import type Transaction from "#models/transaction";
+
+/**
+ * Service métier pour la modélisation des dépenses variables
+ * Couche Domain - logique pure, sans accès aux données
+ *
+ * Chaque catégorie est modélisée par la moyenne et la variance de son total journalier.
+ * Les catégories étant supposées indépendantes, les moyennes et variances s'additionnent,
+ * et le cumul sur k jours suit approximativement une loi normale N(k·μ, k·σ²).
+ */
+export default class VariableSpendingEstimator {
+	/**
+	 * Quantile de la loi normale centrée réduite pour p10 / p90
+	 */
+	static readonly Z_P90 = 1.2816;
+
+	/**
+	 * Catégorie utilisée pour les transactions non catégorisées
+	 */
+	static readonly UNCATEGORIZED = "other";
+
+	/**
+	 * Estime le modèle de dépenses variables sur la période [from, to[
+	 * Les transactions fournies doivent exclure les opérations déjà prévues (récurrentes)
+	 */
+	estimate(
+		transactions: Transaction[],
+		from: DateTime,
+		to: DateTime,
+	): VariableSpendingModel {
+		const historyDays = Math.max(
+			0,
+			Math.round(to.startOf("day").diff(from.startOf("day"), "days").days),
+		);
+
+		if (historyDays === 0) {
+			return { historyDays, dailyMean: 0, dailyVariance: 0, categories: [] };
+		}
+
+		// Total journalier par catégorie (montants signés)
+		const dailyTotals = new Map<string, Map<string, number>>();
+		for (const tx of transactions) {
+			const category = tx.category || VariableSpendingEstimator.UNCATEGORIZED;
+			const date = tx.date.toISODate()!;
+			const byDate = dailyTotals.get(category) ?? new Map<string, number>();
+			byDate.set(date, (byDate.get(date) ?? 0) + Number(tx.amount));
+			dailyTotals.set(category, byDate);
+		}
+
+		const categories: VariableSpendingCategory[] = [];
+		let dailyMean = 0;
+		let dailyVariance = 0;
+
+		for (const [category, byDate] of dailyTotals) {
+			// Les jours sans transaction comptent pour zéro
+			const values = [...byDate.values()];
+			const sum = values.reduce((acc, value) => acc + value, 0);
+			const mean = sum / historyDays;
+			const squares = values.reduce(
+				(acc, value) => acc + (value - mean) ** 2,
+				0,
+			);
+			const zeroDays = historyDays - values.length;
+			const variance =
+				historyDays > 1
+					? (squares + zeroDays * mean ** 2) / (historyDays - 1)
+					: 0;
+
+			dailyMean += mean;
+			dailyVariance += variance;
+			categories.push({
+				category,
+				dailyMean: this.round(mean),
+				dailyStdDev: this.round(Math.sqrt(variance)),
+			});
+		}
+
+		categories.sort((a, b) => a.dailyMean - b.dailyMean);
+
+		return {
+			historyDays,
+			dailyMean: this.round(dailyMean),
+			dailyVariance: this.round(dailyVariance),
+			categories,
+		};
+	}
+
+	/**
+	 * Calcule la bande de confiance d'un solde après k jours de dépenses variables
+	 */
+	band(
+		model: VariableSpendingModel,
+		scheduledBalance: number,
+		days: number,
+	): ForecastBand {
+		const p50 = scheduledBalance + model.dailyMean * days;
+		const spread =
+			VariableSpendingEstimator.Z_P90 * Math.sqrt(model.dailyVariance * days);
+
+		return {
+			p10: this.round(p50 - spread),
+			p50: this.round(p50),
+			p90: this.round(p50 + spread),
+		};
+	}
+
+	/**
+	 * Arrondit au centime
+	 */
+	private round(value: number): number {
+		return Math.round(value * 100) / 100;
+	}
+}
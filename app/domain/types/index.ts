@@ -8,7 +8,12 @@
 // ============================================================================
 
 export type TransactionType = "debit" | "credit";
-export type ImportStatus = "pending" | "processing" | "completed" | "failed";
+export type ImportStatus =
+	| "pending"
+	| "processing"
+	| "completed"
+	| "failed"
+	| "rolled_back";
 export type PaymentMethod =
 	| "carte"
 	| "virement"
@@ -16,6 +21,30 @@ export type PaymentMethod =
 	| "retrait"
 	| "cheque"
 	| null;
+export type RecurrencePeriod = "weekly" | "monthly" | "quarterly" | "yearly";
+export type RecurringSeriesStatus = "detected" | "confirmed" | "dismissed";
+export type PlannedTransactionStatus = "pending" | "realized" | "cancelled";
+export type BalanceAlertStatus = "active" | "acknowledged" | "resolved";
+export type StatementFormat =
+	| "csv"
+	| "xlsx"
+	| "ofx"
+	| "qif"
+	| "camt053"
+	| "mt940";
+export type ImportSource = StatementFormat | "tink";
+export type FileEncoding =
+	| "utf-8"
+	| "utf-16le"
+	| "utf-16be"
+	| "windows-1252"
+	| "iso-8859-1";
+export type ImportJobStatus = "pending" | "processing" | "completed" | "failed";
+export type ImportRowStatus =
+	| "new"
+	| "duplicate"
+	| "probable_duplicate"
+	| "error";
 
 // ============================================================================
 // DATA TRANSFER OBJECTS (DTOs)
@@ -53,6 +82,7 @@ export interface UpdateAccountSettingsDto {
 	initialBalance?: number;
 	name?: string;
 	bank?: string | null;
+	lowBalanceThreshold?: number | null;
 }
 
 /**
@@ -61,7 +91,86 @@ export interface UpdateAccountSettingsDto {
 export interface CreateImportBatchDto {
 	accountId: number;
 	filename: string;
+	source?: ImportSource | null;
 	status?: ImportStatus;
+	rowsTotal?: number;
+}
+
+/**
+ * Données pour modifier une série récurrente
+ */
+export interface UpdateRecurringSeriesDto {
+	label?: string;
+	amount?: number;
+	period?: RecurrencePeriod;
+	nextExpectedDate?: Date;
+	category?: string | null;
+}
+
+/**
+ * Données pour créer une transaction planifiée
+ * Sans période, l'opération est ponctuelle
+ */
+export interface CreatePlannedTransactionDto {
+	label: string;
+	amount: number;
+	type: TransactionType;
+	dueDate: Date;
+	period?: RecurrencePeriod | null;
+	interval?: number;
+	endDate?: Date | null;
+	category?: string | null;
+}
+
+/**
+ * Données pour modifier une transaction planifiée
+ */
+export interface UpdatePlannedTransactionDto {
+	label?: string;
+	amount?: number;
+	type?: TransactionType;
+	dueDate?: Date;
+	period?: RecurrencePeriod | null;
+	interval?: number;
+	endDate?: Date | null;
+	category?: string | null;
+	status?: PlannedTransactionStatus;
+}
+
+/**
+ * Données pour créer un objectif d'épargne
+ */
+export interface CreateSavingsGoalDto {
+	name: string;
+	targetAmount: number;
+	targetDate: Date;
+	linkedAccountId?: number | null; // Compte d'épargne dont le solde alimente l'objectif
+	category?: string | null;
+	initialAmount?: number;
+}
+
+/**
+ * Données pour modifier un objectif d'épargne
+ */
+export interface UpdateSavingsGoalDto {
+	name?: string;
+	targetAmount?: number;
+	targetDate?: Date;
+	linkedAccountId?: number | null;
+	category?: string | null;
+	initialAmount?: number;
+}
+
+/**
+ * Données pour créer ou remplacer un modèle d'import CSV
+ */
+export interface SaveCsvTemplateDto {
+	name: string;
+	delimiter: string;
+	headerOffset?: number;
+	dateFormat: string;
+	decimalSeparator: "," | ".";
+	mapping: CsvColumnMapping;
 }
 
 /**
@@ -74,8 +183,30 @@ export interface ParsedTransactionData {
 	type: TransactionType;
 	merchant: string | null;
 	paymentMethod: string | null;
+	category?: string | null; // Catégorie fournie par le fichier (QIF)
 	hash: string;
-	externalId?: string; // ID externe (Tink)
+	externalId?: string; // ID externe (Tink, FITID OFX, référence bancaire)
+	legacyHash?: string; // Ancien hash (Tink), pour reprendre les transactions importées sans ID externe
+}
+
+/**
+ * Transaction en attente dans la file d'import (date sérialisée AAAA-MM-JJ)
+ */
+export interface QueuedTransactionData extends Omit<
+	ParsedTransactionData,
+	"date"
+> {
+	date: string;
+}
+
+/**
+ * Contenu d'un job d'import : transactions parsées et informations du relevé
+ */
+export interface ImportJobPayload {
+	transactions: QueuedTransactionData[];
+	errors: string[]; // Erreurs de parsing, reportées dans le résultat
+	profile?: string;
+	closingBalance?: { amount: number; date: string };
 }
 
 // ============================================================================
@@ -90,6 +221,75 @@ export interface ImportResult {
 	skipped: number;
 	errors: string[];
 	batchId: number;
+	profile?: string; // Profil bancaire détecté ou imposé (import CSV)
+	balanceCheck?: BalanceCheck; // Rapprochement avec le solde du relevé
+	detected?: DetectedFileFormat; // Encodage et format du fichier importé
+}
+
+/**
+ * Ligne d'un aperçu d'import et décision proposée
+ */
+export interface ImportPreviewRow {
+	index: number;
+	status: ImportRowStatus;
+	date: string | null; // AAAA-MM-JJ
+	label: string; // Message d'erreur pour une ligne en erreur
+	amount: number | null;
+	type: TransactionType | null;
+	merchant: string | null; // Marchand proposé
+	category: string | null; // Catégorie proposée
+	paymentMethod: string | null;
+	hash: string | null;
+	externalId: string | null; // ID externe (FITID OFX, référence bancaire), conservé à l'import
+	matchedTransactionId: number | null; // Transaction existante en doublon (probable)
+}
+
+/**
+ * Aperçu d'un import, confirmé ensuite avec son jeton
+ */
+export interface ImportPreviewResult {
+	token: string;
+	filename: string;
+	expiresAt: string;
+	profile?: string;
+	detected?: DetectedFileFormat;
+	rows: ImportPreviewRow[];
+	summary: Record<ImportRowStatus, number>;
+}
+
+/**
+ * Import mis en file d'attente, traité en arrière-plan
+ */
+export interface QueuedImport {
+	batchId: number; // 0 si aucune transaction n'a pu être lue
+	rowsTotal: number;
+	errors: string[]; // Erreurs de parsing
+	profile?: string;
+	detected?: DetectedFileFormat;
+}
+
+/**
+ * Avancement d'un import en file d'attente
+ */
+export interface ImportProgress {
+	batchId: number;
+	status: ImportStatus;
+	rowsTotal: number;
+	rowsProcessed: number;
+	rowsImported: number;
+	rowsSkipped: number;
+	errorMessage: string | null;
+	result: ImportResult | null; // Disponible une fois l'import terminé
+}
+
+/**
+ * Bilan de la fusion des doublons d'import d'un compte
+ */
+export interface DuplicateMergeReport {
+	accountId: number;
+	duplicateGroups: number; // Groupes (date, libellé, montant) contenant des doublons
+	removed: number;
+	rehashed: number; // Transactions passées au hash déterministe
 }
 
 /**
@@ -98,6 +298,74 @@ export interface ImportResult {
 export interface ParseResult {
 	transactions: ParsedTransactionData[];
 	errors: string[];
+	profile?: string; // Profil bancaire utilisé pour le parsing
+	closingBalance?: StatementBalance; // Solde de clôture du relevé (OFX...)
+	delimiter?: string; // Séparateur utilisé (CSV)
+	detected?: DetectedFileFormat; // Renseigné pour un fichier importé
+}
+
+/**
+ * Contenu texte d'un fichier et encodage détecté
+ */
+export interface DecodedFile {
+	content: string;
+	encoding: FileEncoding;
+	bom: boolean;
+}
+
+/**
+ * Encodage et format détectés d'un fichier importé
+ */
+export interface DetectedFileFormat {
+	format: StatementFormat;
+	encoding: FileEncoding;
+	bom: boolean;
+	delimiter: string | null; // CSV uniquement
+	sheet?: string; // Feuille lue (XLSX)
+}
+
+/**
+ * Solde figurant sur un relevé bancaire à une date donnée
+ */
+export interface StatementBalance {
+	amount: number;
+	date: Date;
+}
+
+/**
+ * Rapprochement entre le solde d'un relevé et le solde calculé à la même date
+ */
+export interface BalanceCheck {
+	date: string;
+	statementBalance: number;
+	computedBalance: number;
+	difference: number;
+	matches: boolean;
+}
+
+/**
+ * Correspondance entre les colonnes d'un CSV et les champs d'une transaction
+ * Les colonnes sont désignées par leur nom dans la ligne d'en-tête
+ */
+export interface CsvColumnMapping {
+	date: string;
+	label: string[];
+	amount?: string | null; // Montant signé
+	debit?: string | null; // Ou montants séparés débit / crédit
+	credit?: string | null;
+	merchant?: string | null;
+}
+
+/**
+ * Aperçu d'un fichier CSV avant configuration du mapping
+ */
+export interface CsvPreview {
+	delimiter: string;
+	headerOffset: number;
+	columns: string[];
+	rows: string[][];
+	detectedProfile: string | null;
+	encoding?: FileEncoding;
 }
 
 /**
@@ -175,8 +443,302 @@ export interface TinkTransactionData {
  * Résultat de connexion bancaire
  */
 export interface BankConnectionResult {
-	accessToken: string;
-	expiresIn: number;
+	connectionId: number;
 	accounts: TinkAccountData[];
-	importResult?: ImportResult;
+	imported: number;
+	skipped: number;
+	syncedAccounts: BankAccountSyncResult[];
+}
+
+/**
+ * Fournisseur d'accès bancaire (open banking)
+ */
+export type BankProvider = "tink";
+
+/**
+ * Statut d'une connexion bancaire
+ * - active : tokens valides ou renouvelables
+ * - expired : consentement expiré ou token non renouvelable, reconnexion requise
+ * - error : dernière synchronisation en échec
+ */
+export type BankConnectionStatus = "active" | "expired" | "error";
+
+/**
+ * Origine d'une synchronisation bancaire
+ */
+export type BankSyncTrigger = "manual" | "scheduled";
+
+/**
+ * Statut d'une synchronisation bancaire (journal bank_sync_runs)
+ */
+export type BankSyncRunStatus = "running" | "completed" | "failed";
+
+/**
+ * Résultat de la synchronisation d'un compte Tink vers son compte lié
+ */
+export interface BankAccountSyncResult {
+	tinkAccountId: string;
+	accountId: number;
+	fetched: number;
+	imported: number;
+	skipped: number;
+	batchId: number;
+}
+
+/**
+ * Résultat d'une synchronisation de connexion bancaire
+ */
+export interface BankSyncResult {
+	connectionId: number;
+	runId: number;
+	count: number;
+	imported: number;
+	skipped: number;
+	syncedAccounts: BankAccountSyncResult[];
+}
+
+/**
+ * Bilan d'une synchronisation de toutes les connexions actives
+ */
+export interface BankSyncReport {
+	connections: number;
+	succeeded: number;
+	failed: number;
+	imported: number;
+	errors: string[];
+}
+
+// ============================================================================
+// RÉCURRENCES
+// ============================================================================
+
+/**
+ * Série récurrente détectée dans l'historique des transactions
+ */
+export interface DetectedSeries {
+	merchantKey: string;
+	label: string;
+	type: TransactionType;
+	amount: number; // Montant de référence signé
+	period: RecurrencePeriod;
+	lastDate: Date;
+	nextExpectedDate: Date;
+	transactionIds: number[];
+}
+
+/**
+ * Résultat d'une détection de récurrences
+ */
+export interface RecurrenceDetectionResult {
+	detected: number;
+	created: number;
+	updated: number;
+}
+
+// ============================================================================
+// PRÉVISIONS
+// ============================================================================
+
+export type ForecastItemSource = "recurring" | "planned" | "scenario";
+export type ScenarioAdjustmentKind = "add" | "remove" | "scale";
+export type ScenarioTargetType = "recurring" | "planned";
+
+/**
+ * Élément futur pris en compte dans la prévision
+ */
+export interface ForecastItem {
+	date: string;
+	label: string;
+	amount: number; // Négatif = débit, Positif = crédit
+	source: ForecastItemSource;
+	sourceId?: number; // ID de la série récurrente ou de la transaction planifiée
+}
+
+/**
+ * Bande de confiance du solde projeté
+ */
+export interface ForecastBand {
+	p10: number;
+	p50: number;
+	p90: number;
+}
+
+/**
+ * Solde projeté pour un jour donné
+ * balance ne tient compte que des opérations prévues,
+ * bands y ajoute les dépenses variables estimées
+ */
+export interface ForecastDay {
+	date: string;
+	balance: number;
+	inflows: number;
+	outflows: number;
+	items: ForecastItem[];
+	bands?: ForecastBand;
+}
+
+/**
+ * Dépenses variables moyennes d'une catégorie (par jour)
+ */
+export interface VariableSpendingCategory {
+	category: string;
+	dailyMean: number; // Négatif = dépense nette
+	dailyStdDev: number;
+}
+
+/**
+ * Modèle statistique des dépenses variables (hors opérations récurrentes)
+ */
+export interface VariableSpendingModel {
+	historyDays: number;
+	dailyMean: number;
+	dailyVariance: number;
+	categories: VariableSpendingCategory[];
+}
+
+/**
+ * Résultat d'une prévision de solde
+ */
+export interface ForecastResult {
+	accountId: number;
+	currency: string;
+	startDate: string;
+	startBalance: number;
+	horizonDays: number;
+	endBalance: number;
+	lowestBalance: {
+		date: string;
+		balance: number;
+	};
+	zeroCrossingDate: string | null; // Premier jour où le solde devient négatif
+	variableSpending: VariableSpendingModel;
+	days: ForecastDay[];
+}
+
+/**
+ * Passage prévu du solde sous le seuil d'alerte
+ */
+export interface LowBalancePrediction {
+	threshold: number;
+	date: string; // Premier jour sous le seuil
+	balance: number;
+	lowestBalance: {
+		date: string;
+		balance: number;
+	};
+	causes: ForecastItem[]; // Sorties prévues le jour du passage sous le seuil
+}
+
+/**
+ * Alerte de solde bas telle qu'exposée par l'API
+ */
+export interface BalanceAlertData {
+	id: number;
+	accountId: number;
+	threshold: number;
+	alertDate: string; // Premier jour sous le seuil
+	projectedBalance: number;
+	lowestDate: string;
+	lowestBalance: number;
+	causes: ForecastItem[];
+	status: BalanceAlertStatus;
+	acknowledgedAt: string | null;
+}
+
+// ============================================================================
+// OBJECTIFS D'ÉPARGNE
+// ============================================================================
+
+/**
+ * Objectif d'épargne tel qu'exposé par l'API
+ */
+export interface SavingsGoalData {
+	id: number;
+	accountId: number;
+	linkedAccountId: number | null;
+	name: string;
+	targetAmount: number;
+	targetDate: string; // AAAA-MM-JJ
+	category: string | null;
+	initialAmount: number;
+}
+
+/**
+ * Projection d'un objectif d'épargne au rythme d'épargne actuel
+ */
+export interface SavingsGoalProjection {
+	savedAmount: number;
+	remainingAmount: number;
+	progressPercent: number;
+	monthlySavings: number; // Épargne mensuelle moyenne récente
+	requiredMonthlyContribution: number; // Pour atteindre l'objectif à la date cible
+	projectedCompletionDate: string | null; // Null si l'épargne actuelle ne progresse pas
+	onTrack: boolean;
+}
+
+// ============================================================================
+// SCÉNARIOS
+// ============================================================================
+
+/**
+ * Ajustement appliqué par un scénario sur la prévision
+ * - add: nouvelle opération (ponctuelle ou répétée) à partir de startDate
+ * - remove: supprime les occurrences d'un élément à partir de startDate
+ * - scale: multiplie le montant d'un élément par factor à partir de startDate
+ */
+export interface ScenarioAdjustmentData {
+	kind: ScenarioAdjustmentKind;
+	targetType?: ScenarioTargetType | null;
+	targetId?: number | null;
+	label?: string | null;
+	amount?: number | null; // Négatif = débit, Positif = crédit
+	type?: TransactionType | null; // Si fourni, impose le signe du montant
+	period?: RecurrencePeriod | null;
+	factor?: number | null;
+	startDate?: Date | null;
+	endDate?: Date | null;
+}
+
+/**
+ * Données pour créer ou remplacer un scénario
+ */
+export interface SaveScenarioDto {
+	name: string;
+	description?: string | null;
+	adjustments: ScenarioAdjustmentData[];
+}
+
+/**
+ * Écart entre la courbe d'un scénario et la courbe de référence
+ */
+export interface ScenarioComparison {
+	scenarioId: number;
+	name: string;
+	endBalance: number;
+	lowestBalance: {
+		date: string;
+		balance: number;
+	};
+	zeroCrossingDate: string | null;
+	days: Array<{
+		date: string;
+		baseline: number;
+		scenario: number;
+		difference: number;
+	}>;
+}
+
+/**
+ * Résultat de la comparaison des scénarios avec la référence
+ */
+export interface ScenarioComparisonResult {
+	baseline: {
+		endBalance: number;
+		lowestBalance: {
+			date: string;
+			balance: number;
+		};
+		zeroCrossingDate: string | null;
+	};
+	scenarios: ScenarioComparison[];
 }
@@ -36,16 +36,16 @@ export class TransactionHash {
 
 	/**
 	 * Crée un hash pour une transaction importée (CSV)
-	 * Inclut l'index de ligne pour permettre les transactions identiques le même jour
+	 * Déterministe : l'occurrence distingue les transactions identiques le même jour
 	 */
 	static forImport(
 		date: string,
 		label: string,
 		amount: number,
-		rowIndex: number,
+		occurrence: number,
 	): TransactionHash {
-		const random = Math.random().toString(36).substring(2, 10);
-		const data = `${date}|${label}|${amount}|${rowIndex}|${Date.now()}|${random}`;
+		const normalizedLabel = label.replace(/\s+/g, " ").trim().toUpperCase();
+		const data = `${date}|${normalizedLabel}|${amount.toFixed(2)}|${occurrence}`;
 		const hash = createHash("sha256")
 			.update(data)
 			.digest("hex")
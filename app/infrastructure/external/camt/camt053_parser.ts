@@ -0,0 +1,312 @@
+import { DateTime } from "luxon";
+import { hashGenerator } from "#infrastructure/utils/hash_generator";
+import type {
+	ParsedTransactionData,
+	ParseResult,
+	StatementBalance,
+	TransactionType,
+} from "#domain/types/index";
+
+/**
+ * Soldes d'un relevé CAMT.053 (<Stmt>)
+ */
+interface CamtStatement {
+	id: string;
+	account: string;
+	opening?: StatementBalance;
+	closing?: StatementBalance;
+	transactions: ParsedTransactionData[];
+}
+
+/**
+ * Parser ISO 20022 CAMT.053 (relevé de compte XML)
+ * Couche technique - ne contient pas de logique métier
+ * Seules les écritures comptabilisées (statut BOOK) sont importées
+ */
+export default class Camt053Parser {
+	/**
+	 * Codes de solde d'ouverture et de clôture
+	 */
+	private static readonly OPENING_CODES = ["OPBD", "PRCD"];
+	private static readonly CLOSING_CODES = ["CLBD"];
+
+	/**
+	 * Parse un fichier CAMT.053 complet
+	 * La référence bancaire (AcctSvcrRef) sert d'identifiant externe
+	 * lorsqu'elle est unique dans le fichier
+	 */
+	parse(content: string): ParseResult {
+		const transactions: ParsedTransactionData[] = [];
+		const errors: string[] = [];
+
+		const statements = this.elements(content, "Stmt").map((xml, index) =>
+			this.parseStatement(xml, index, errors),
+		);
+
+		if (statements.length === 0) {
+			return {
+				transactions,
+				errors: ["Aucun relevé CAMT.053 trouvé dans le fichier"],
+			};
+		}
+
+		const references = new Map<string, number>();
+		for (const statement of statements) {
+			for (const { externalId } of statement.transactions) {
+				if (externalId) {
+					references.set(externalId, (references.get(externalId) ?? 0) + 1);
+				}
+			}
+		}
+
+		const nextHash = hashGenerator.forImportedFile();
+		for (const statement of statements) {
+			for (const transaction of statement.transactions) {
+				// Référence répétée : certaines banques la réutilisent pour plusieurs écritures
+				if (
+					transaction.externalId &&
+					references.get(transaction.externalId)! > 1
+				) {
+					transaction.externalId = undefined;
+					transaction.hash = "";
+				}
+
+				// Écriture sans référence : rang parmi les opérations identiques
+				transaction.hash ||= nextHash(
+					transaction.date,
+					transaction.label,
+					transaction.amount,
+				);
+				transactions.push(transaction);
+			}
+
+			const error = this.verifyBalances(statement);
+			if (error) errors.push(error);
+		}
+
+		return {
+			transactions,
+			errors,
+			closingBalance: this.lastClosingBalance(statements),
+		};
+	}
+
+	/**
+	 * Parse un relevé et ses écritures
+	 */
+	private parseStatement(
+		xml: string,
+		index: number,
+		errors: string[],
+	): CamtStatement {
+		const account = this.element(xml, "Acct") ?? "";
+		const statement: CamtStatement = {
+			id: this.text(xml, "Id") ?? String(index + 1),
+			account: this.text(account, "IBAN") ?? this.text(account, "Id") ?? "",
+			transactions: [],
+		};
+
+		for (const balance of this.elements(xml, "Bal")) {
+			const code = this.text(this.element(balance, "Tp") ?? "", "Cd");
+			const parsed = this.parseBalance(balance);
+			if (!code || !parsed) continue;
+
+			if (Camt053Parser.OPENING_CODES.includes(code)) {
+				statement.opening ??= parsed;
+			} else if (Camt053Parser.CLOSING_CODES.includes(code)) {
+				statement.closing = parsed;
+			}
+		}
+
+		this.elements(xml, "Ntry").forEach((entry, entryIndex) => {
+			try {
+				const transaction = this.parseEntry(entry, statement.account);
+				if (transaction) statement.transactions.push(transaction);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Erreur inconnue";
+				errors.push(
+					`Relevé ${statement.id}, écriture ${entryIndex + 1}: ${message}`,
+				);
+			}
+		});
+
+		return statement;
+	}
+
+	/**
+	 * Parse une écriture (<Ntry>)
+	 * La contrepartie et les informations de remise structurées donnent le marchand
+	 */
+	private parseEntry(
+		entry: string,
+		account: string,
+	): ParsedTransactionData | null {
+		const status = this.text(entry, "Sts");
+		if (status && status !== "BOOK") return null;
+
+		// <BookgDt> contient une date <Dt> ou un horodatage <DtTm>
+		const dateStr = this.text(entry, "BookgDt") ?? "";
+		const date = DateTime.fromISO(dateStr.slice(0, 10));
+		if (!date.isValid) {
+			throw new Error(`Date invalide: ${dateStr}`);
+		}
+
+		const amount = this.signedAmount(entry);
+		if (amount === null) {
+			throw new Error(`Montant invalide: ${this.text(entry, "Amt")}`);
+		}
+		const type: TransactionType = amount < 0 ? "debit" : "credit";
+
+		// Les détails de la première transaction suffisent pour le libellé
+		const details = this.element(entry, "TxDtls") ?? "";
+		const parties = this.element(details, "RltdPties") ?? "";
+		const remittance = this.element(details, "RmtInf") ?? "";
+		const structured = this.element(remittance, "Strd") ?? "";
+
+		// Contrepartie : créancier pour un débit, débiteur pour un crédit
+		const role = type === "debit" ? "Cdtr" : "Dbtr";
+		const counterparty = this.element(parties, role) ?? "";
+		const counterpartyName = this.text(counterparty, "Nm");
+		const counterpartyIban = this.text(
+			this.element(parties, `${role}Acct`) ?? "",
+			"IBAN",
+		);
+		const invoicer = this.text(this.element(structured, "Invcr") ?? "", "Nm");
+
+		const label =
+			[
+				counterpartyName,
+				this.elements(remittance, "Ustrd")
+					.map((value) => this.clean(value))
+					.join(" "),
+			]
+				.filter((part) => part)
+				.join(" ")
+				.trim() ||
+			this.text(entry, "AddtlNtryInf") ||
+			this.text(structured, "Ref") ||
+			"Opération";
+
+		// NtryRef et EndToEndId ne sont pas uniques d'un relevé à l'autre
+		const reference = this.text(entry, "AcctSvcrRef");
+		const externalId =
+			reference && reference !== "NOTPROVIDED" ? reference : undefined;
+
+		return {
+			date: date.toJSDate(),
+			label,
+			amount,
+			type,
+			merchant: counterpartyName ?? invoicer ?? counterpartyIban ?? null,
+			paymentMethod: null,
+			hash: externalId
+				? hashGenerator.forExternalTransaction("camt053", account, externalId)
+				: "",
+			externalId,
+		};
+	}
+
+	/**
+	 * Parse un solde (<Bal>) : montant signé et date
+	 */
+	private parseBalance(balance: string): StatementBalance | null {
+		const amount = this.signedAmount(balance);
+		const dateStr = this.text(balance, "Dt") ?? "";
+		const date = DateTime.fromISO(dateStr.slice(0, 10));
+		if (amount === null || !date.isValid) return null;
+
+		return { amount, date: date.toJSDate() };
+	}
+
+	/**
+	 * Montant signé selon l'indicateur CRDT / DBIT
+	 */
+	private signedAmount(xml: string): number | null {
+		const amount = Number.parseFloat(this.text(xml, "Amt") ?? "");
+		if (Number.isNaN(amount)) return null;
+
+		const sign = this.text(xml, "CdtDbtInd") === "DBIT" ? -1 : 1;
+		return Math.round(sign * amount * 100) / 100;
+	}
+
+	/**
+	 * Vérifie que solde d'ouverture + écritures = solde de clôture
+	 */
+	private verifyBalances(statement: CamtStatement): string | null {
+		if (!statement.opening || !statement.closing) return null;
+
+		const movements = statement.transactions.reduce(
+			(sum, tx) => sum + tx.amount,
+			0,
+		);
+		const difference =
+			Math.round(
+				(statement.closing.amount - statement.opening.amount - movements) * 100,
+			) / 100;
+
+		return Math.abs(difference) < 0.01
+			? null
+			: `Relevé ${statement.id}: les écritures ne correspondent pas aux soldes (écart de ${difference})`;
+	}
+
+	/**
+	 * Solde de clôture le plus récent, si tous les relevés portent sur le même compte
+	 */
+	private lastClosingBalance(
+		statements: CamtStatement[],
+	): StatementBalance | undefined {
+		const accounts = new Set(statements.map((statement) => statement.account));
+		if (accounts.size !== 1) return undefined;
+
+		return statements
+			.map((statement) => statement.closing)
+			.filter((balance): balance is StatementBalance => !!balance)
+			.sort((a, b) => a.date.getTime() - b.date.getTime())
+			.at(-1);
+	}
+
+	/**
+	 * Contenu de toutes les balises <tag> (préfixe d'espace de noms toléré)
+	 */
+	private elements(xml: string, tag: string): string[] {
+		const pattern = new RegExp(
+			`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`,
+			"g",
+		);
+		return [...xml.matchAll(pattern)].map((match) => match[1]);
+	}
+
+	/**
+	 * Contenu de la première balise <tag>
+	 */
+	private element(xml: string, tag: string): string | null {
+		return this.elements(xml, tag)[0] ?? null;
+	}
+
+	/**
+	 * Texte de la première balise <tag>, sans les balises imbriquées
+	 */
+	private text(xml: string, tag: string): string | null {
+		const value = this.element(xml, tag);
+		if (value === null) return null;
+
+		const cleaned = this.clean(value);
+		return cleaned.length > 0 ? cleaned : null;
+	}
+
+	/**
+	 * Supprime les balises et décode les entités XML courantes
+	 */
+	private clean(value: string): string {
+		return value
+			.replace(/<[^>]+>/g, " ")
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, "&")
+			.replace(/\s+/g, " ")
+			.trim();
+	}
+}
@@ -0,0 +1,210 @@
+/**
+ * Profil d'export CSV d'une banque
+ * Les colonnes sont désignées par leur nom dans la ligne d'en-tête
+ */
+export interface CsvBankProfile {
+	id: string;
+	name: string;
+	delimiter: string;
+	dateFormats: string[]; // Formats Luxon essayés dans l'ordre
+	decimalSeparator: "," | ".";
+	headerOffset: number; // Nombre de lignes (non vides) avant la ligne d'en-tête
+	columns: {
+		date: string;
+		label: string[]; // Colonnes concaténées pour former le libellé
+		amount?: string; // Montant signé
+		debit?: string; // Ou montants séparés débit / crédit
+		credit?: string;
+		fee?: string; // Frais déduits du montant
+		merchant?: string; // Sinon extrait du libellé
+	};
+	/**
+	 * Filtre optionnel des lignes (ex: opérations en attente)
+	 */
+	include?: (record: Record<string, string>) => boolean;
+	/**
+	 * Nettoyage spécifique du libellé
+	 */
+	cleanLabel?: (label: string) => string;
+}
+
+/**
+ * Profils intégrés
+ * Le premier profil sert de format par défaut si aucun en-tête n'est reconnu
+ */
+const BUILT_IN_PROFILES: CsvBankProfile[] = [
+	{
+		id: "credit_agricole",
+		name: "Crédit Agricole",
+		delimiter: ";",
+		dateFormats: ["dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 0,
+		columns: {
+			date: "Date",
+			label: ["Libellé"],
+			debit: "Débit euros",
+			credit: "Crédit euros",
+		},
+	},
+	{
+		id: "bnp",
+		name: "BNP Paribas",
+		delimiter: ";",
+		dateFormats: ["dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 1, // Première ligne : résumé du compte
+		columns: {
+			date: "Date opération",
+			label: ["Libellé opération"],
+			amount: "Montant opération",
+		},
+		cleanLabel: (label) =>
+			label.replace(
+				/^(FACTURE CARTE DU \d{6}|FACTURE CARTE|PRLV SEPA|VIR SEPA RECU)\s+/i,
+				"",
+			),
+	},
+	{
+		id: "societe_generale",
+		name: "Société Générale",
+		delimiter: ";",
+		dateFormats: ["dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 1, // Première ligne : numéro et solde du compte
+		columns: {
+			date: "Date de l'opération",
+			label: ["Détail de l'écriture"],
+			amount: "Montant de l'opération",
+		},
+		cleanLabel: (label) => label.replace(/^CARTE X\d{4}\s+\d{2}\/\d{2}\s+/i, ""),
+	},
+	{
+		id: "lcl",
+		name: "LCL",
+		delimiter: ";",
+		dateFormats: ["dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 0,
+		columns: {
+			date: "Date",
+			label: ["Libellé", "Complément"],
+			amount: "Montant",
+		},
+	},
+	{
+		id: "boursorama",
+		name: "Boursorama",
+		delimiter: ";",
+		dateFormats: ["yyyy-MM-dd", "dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 0,
+		columns: {
+			date: "dateOp",
+			label: ["label"],
+			amount: "amount",
+		},
+		cleanLabel: (label) => label.replace(/^CARTE \d{2}\/\d{2}\/\d{2}\s+/i, ""),
+	},
+	{
+		id: "banque_postale",
+		name: "La Banque Postale",
+		delimiter: ";",
+		dateFormats: ["dd/MM/yyyy"],
+		decimalSeparator: ",",
+		headerOffset: 5, // Numéro, type, devise, date et solde du compte
+		columns: {
+			date: "Date",
+			label: ["Libellé"],
+			amount: "Montant(EUROS)",
+		},
+		cleanLabel: (label) => label.replace(/^ACHAT CB\s+/i, ""),
+	},
+	{
+		id: "n26",
+		name: "N26",
+		delimiter: ",",
+		dateFormats: ["yyyy-MM-dd"],
+		decimalSeparator: ".",
+		headerOffset: 0,
+		columns: {
+			date: "Date",
+			label: ["Payee", "Payment reference"],
+			amount: "Amount (EUR)",
+		},
+	},
+	{
+		id: "revolut",
+		name: "Revolut",
+		delimiter: ",",
+		dateFormats: ["yyyy-MM-dd HH:mm:ss", "yyyy-MM-dd"],
+		decimalSeparator: ".",
+		headerOffset: 0,
+		columns: {
+			date: "Started Date",
+			label: ["Description"],
+			amount: "Amount",
+			fee: "Fee",
+		},
+		// Les opérations annulées ou en attente ne sont pas comptabilisées
+		include: (record) =>
+			!record["state"] || record["state"].toUpperCase() === "COMPLETED",
+	},
+];
+
+/**
+ * Registre des profils bancaires CSV
+ * Couche technique - permet d'ajouter des profils sans modifier le parser
+ */
+export class BankProfileRegistry {
+	private profiles = new Map<string, CsvBankProfile>();
+
+	constructor(profiles: CsvBankProfile[] = BUILT_IN_PROFILES) {
+		for (const profile of profiles) {
+			this.register(profile);
+		}
+	}
+
+	/**
+	 * Ajoute (ou remplace) un profil
+	 */
+	register(profile: CsvBankProfile): void {
+		this.profiles.set(profile.id, profile);
+	}
+
+	/**
+	 * Récupère un profil par son identifiant
+	 */
+	get(id: string): CsvBankProfile | undefined {
+		return this.profiles.get(id);
+	}
+
+	/**
+	 * Liste les profils dans l'ordre d'enregistrement
+	 */
+	all(): CsvBankProfile[] {
+		return [...this.profiles.values()];
+	}
+
+	/**
+	 * Profil utilisé quand aucun en-tête n'est reconnu
+	 */
+	getDefault(): CsvBankProfile {
+		return this.all()[0];
+	}
+}
+
+/**
+ * Normalise un nom de colonne pour la comparaison (casse, accents, espaces)
+ */
+export function normalizeColumnName(name: string): string {
+	return name
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/\s+/g, " ")
+		.trim()
+		.toLowerCase();
+}
+
+// Export d'une instance singleton pour faciliter l'utilisation
+export const bankProfiles = new BankProfileRegistry();
@@ -1,7 +1,15 @@
 import { DateTime } from "luxon";
 import { hashGenerator } from "#infrastructure/utils/hash_generator";
 import { DateUtils } from "#infrastructure/utils/date_utils";
+import {
+	bankProfiles,
+	normalizeColumnName,
+	type BankProfileRegistry,
+	type CsvBankProfile,
+} from "#infrastructure/external/csv/bank_profiles";
+import type { XlsxCell } from "#infrastructure/external/xlsx/xlsx_reader";
 import type {
+	CsvPreview,
 	ParsedTransactionData,
 	ParseResult,
 	TransactionType,
@@ -10,31 +18,108 @@ import type {
 /**
  * Parser CSV pour les relevés bancaires
  * Couche technique - ne contient pas de logique métier
- * Supporte le format Crédit Agricole (Date;Libellé;Débit euros;Crédit euros;)
+ * Le format de chaque banque est décrit par un profil (voir bank_profiles.ts),
+ * détecté automatiquement depuis la ligne d'en-tête ou imposé par l'appelant
+ * Les feuilles XLSX suivent le même traitement (voir parseTable)
  */
 export default class CsvParser {
+	constructor(private profiles: BankProfileRegistry = bankProfiles) {}
+
+	/**
+	 * Séparateurs reconnus par la détection automatique
+	 */
+	private static readonly DELIMITERS = [";", ",", "\t", "|"];
+
 	/**
 	 * Parse un fichier CSV complet
+	 * extraProfiles : profils supplémentaires (ex: modèles utilisateur), prioritaires
 	 */
-	parse(content: string): ParseResult {
-		const transactions: ParsedTransactionData[] = [];
-		const errors: string[] = [];
+	parse(
+		content: string,
+		options?: { profile?: string; extraProfiles?: CsvBankProfile[] },
+	): ParseResult {
+		const normalizedContent = this.normalizeContent(content);
+		const extraProfiles = options?.extraProfiles ?? [];
+		const forced = this.forcedProfile(options?.profile, extraProfiles);
 
-		// Normaliser les retours à la ligne
-		const normalizedContent = content
-			.replace(/\r\n/g, "\n")
-			.replace(/\r/g, "\n");
+		let profile: CsvBankProfile;
+		if (forced) {
+			// Profil imposé : le séparateur du fichier peut différer du profil
+			const delimiter = this.detectDelimiter(normalizedContent);
+			profile =
+				this.matchHeader(forced, normalizedContent, delimiter) ??
+				this.withDelimiter(forced, delimiter);
+		} else {
+			profile =
+				this.detectProfile(normalizedContent, extraProfiles) ??
+				this.withDelimiter(
+					this.profiles.getDefault(),
+					this.detectDelimiter(normalizedContent),
+				);
+		}
 
 		// Parser les lignes en gérant les champs multilignes
-		const rows = this.parseRows(normalizedContent);
+		const rows = this.parseRows(normalizedContent, profile.delimiter);
+
+		return {
+			...this.parseRecords(rows, profile),
+			delimiter: profile.delimiter,
+		};
+	}
+
+	/**
+	 * Parse un tableau déjà découpé en cellules (feuille XLSX)
+	 * Même détection de profil et même normalisation que pour un CSV :
+	 * les nombres sont réécrits avec le séparateur décimal du profil
+	 */
+	parseTable(
+		table: XlsxCell[][],
+		options?: { profile?: string; extraProfiles?: CsvBankProfile[] },
+	): ParseResult {
+		const extraProfiles = options?.extraProfiles ?? [];
+		const profile =
+			this.forcedProfile(options?.profile, extraProfiles) ??
+			[...extraProfiles, ...this.profiles.all()].find((candidate) =>
+				this.hasColumns(
+					candidate,
+					table[candidate.headerOffset]?.map((cell) => String(cell)),
+				),
+			) ??
+			this.profiles.getDefault();
+
+		const rows = table.map((row) =>
+			row.map((cell) =>
+				typeof cell === "number"
+					? this.formatNumber(cell, profile.decimalSeparator)
+					: cell,
+			),
+		);
+
+		return this.parseRecords(rows, profile);
+	}
+
+	/**
+	 * Convertit les lignes qui suivent l'en-tête en transactions
+	 */
+	private parseRecords(rows: string[][], profile: CsvBankProfile): ParseResult {
+		const transactions: ParsedTransactionData[] = [];
+		const errors: string[] = [];
 
-		// Ignorer la première ligne (header)
-		for (let i = 1; i < rows.length; i++) {
+		const header = (rows[profile.headerOffset] ?? []).map(normalizeColumnName);
+		const nextHash = hashGenerator.forImportedFile();
+
+		// Ignorer le préambule et la ligne d'en-tête
+		for (let i = profile.headerOffset + 1; i < rows.length; i++) {
 			const row = rows[i];
-			if (!row || row.length < 4) continue;
+			if (!row || row.length < 2) continue;
+
+			const record: Record<string, string> = {};
+			header.forEach((column, index) => {
+				record[column] = row[index] ?? "";
+			});
 
 			try {
-				const transaction = this.parseRow(row, i);
+				const transaction = this.parseRow(record, profile, nextHash);
 				if (transaction) {
 					transactions.push(transaction);
 				}
@@ -45,13 +130,80 @@ export default class CsvParser {
 			}
 		}
 
-		return { transactions, errors };
+		return { transactions, errors, profile: profile.id };
+	}
+
+	/**
+	 * Détecte le profil bancaire à partir de la ligne d'en-tête
+	 * Un profil est retenu si toutes ses colonnes sont présentes, avec son
+	 * séparateur ou celui détecté dans le fichier (qui est alors appliqué au profil)
+	 */
+	detectProfile(
+		content: string,
+		extraProfiles: CsvBankProfile[] = [],
+	): CsvBankProfile | null {
+		const normalizedContent = this.normalizeContent(content);
+		const delimiter = this.detectDelimiter(normalizedContent);
+
+		for (const profile of [...extraProfiles, ...this.profiles.all()]) {
+			const matched = this.matchHeader(profile, normalizedContent, delimiter);
+			if (matched) return matched;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Aperçu des premières lignes et des colonnes d'un fichier
+	 * Sert à configurer un mapping pour une banque sans profil intégré
+	 */
+	preview(
+		content: string,
+		options?: {
+			delimiter?: string;
+			headerOffset?: number;
+			limit?: number;
+			extraProfiles?: CsvBankProfile[];
+		},
+	): CsvPreview {
+		const normalizedContent = this.normalizeContent(content);
+		const detected = this.detectProfile(
+			normalizedContent,
+			options?.extraProfiles,
+		);
+
+		const delimiter =
+			options?.delimiter ??
+			detected?.delimiter ??
+			this.detectDelimiter(normalizedContent);
+		const headerOffset = options?.headerOffset ?? detected?.headerOffset ?? 0;
+		const rows = this.parseRows(normalizedContent, delimiter);
+
+		return {
+			delimiter,
+			headerOffset,
+			columns: rows[headerOffset] ?? [],
+			rows: rows.slice(
+				headerOffset + 1,
+				headerOffset + 1 + (options?.limit ?? 10),
+			),
+			detectedProfile: detected?.id ?? null,
+		};
+	}
+
+	/**
+	 * Liste les profils disponibles
+	 */
+	listProfiles(): { id: string; name: string }[] {
+		return this.profiles
+			.all()
+			.map((profile) => ({ id: profile.id, name: profile.name }));
 	}
 
 	/**
 	 * Parse les lignes CSV en gérant les champs multilignes entre guillemets
 	 */
-	private parseRows(content: string): string[][] {
+	private parseRows(content: string, delimiter: string): string[][] {
 		const rows: string[][] = [];
 		let currentRow: string[] = [];
 		let currentField = "";
@@ -75,7 +227,7 @@ export default class CsvParser {
 			} else {
 				if (char === '"') {
 					inQuotes = true;
-				} else if (char === ";") {
+				} else if (char === delimiter) {
 					currentRow.push(currentField.trim());
 					currentField = "";
 				} else if (char === "\n") {
@@ -103,54 +255,85 @@ export default class CsvParser {
 	}
 
 	/**
-	 * Parse une ligne CSV en transaction
+	 * Parse une ligne CSV en transaction selon le profil
 	 */
 	private parseRow(
-		fields: string[],
-		rowIndex: number,
+		record: Record<string, string>,
+		profile: CsvBankProfile,
+		nextHash: (date: Date, label: string, amount: number) => string,
 	): ParsedTransactionData | null {
-		const [dateStr, label, debitStr, creditStr] = fields;
+		const { columns } = profile;
+		const dateStr = record[normalizeColumnName(columns.date)];
+		const label = columns.label
+			.map((column) => record[normalizeColumnName(column)])
+			.filter((value) => value && value.length > 0)
+			.join(" ");
 
 		// Ignorer les lignes vides ou sans date valide
 		if (!dateStr || !label) return null;
+		if (profile.include && !profile.include(record)) return null;
 
-		// Parser la date (format DD/MM/YYYY)
-		const date = DateUtils.parseFromFrenchFormat(dateStr);
+		const date = this.parseDate(dateStr, profile.dateFormats);
 		if (!date) {
 			throw new Error(`Date invalide: ${dateStr}`);
 		}
 
-		// Parser les montants
-		const debit = this.parseAmount(debitStr);
-		const credit = this.parseAmount(creditStr);
+		// Montant signé, ou colonnes débit / crédit séparées
+		let signedAmount: number;
+		if (columns.amount) {
+			signedAmount = this.parseAmount(
+				record[normalizeColumnName(columns.amount)],
+				profile.decimalSeparator,
+			);
+		} else {
+			const debit = Math.abs(
+				this.parseAmount(
+					record[normalizeColumnName(columns.debit!)],
+					profile.decimalSeparator,
+				),
+			);
+			const credit = Math.abs(
+				this.parseAmount(
+					record[normalizeColumnName(columns.credit!)],
+					profile.decimalSeparator,
+				),
+			);
+			signedAmount = debit > 0 ? -debit : credit;
+		}
 
-		// Déterminer le type et le montant
-		let amount: number;
-		let type: TransactionType;
+		if (columns.fee) {
+			const fee = Math.abs(
+				this.parseAmount(
+					record[normalizeColumnName(columns.fee)],
+					profile.decimalSeparator,
+				),
+			);
+			signedAmount -= fee;
+		}
 
-		if (debit > 0) {
-			amount = -debit; // Les débits sont négatifs
-			type = "debit";
-		} else if (credit > 0) {
-			amount = credit;
-			type = "credit";
-		} else {
+		if (signedAmount === 0) {
 			return null; // Pas de montant
 		}
 
+		// Les débits sont négatifs
+		const amount = Math.round(signedAmount * 100) / 100;
+		const type: TransactionType = amount < 0 ? "debit" : "credit";
+
 		// Nettoyer le libellé
-		const cleanLabel = label.replace(/\s+/g, " ").trim();
+		let cleanLabel = label.replace(/\s+/g, " ").trim();
+		if (profile.cleanLabel) {
+			cleanLabel = profile.cleanLabel(cleanLabel).trim() || cleanLabel;
+		}
 
 		// Extraire le marchand et la méthode de paiement
-		const { merchant, paymentMethod } = this.extractDetails(cleanLabel);
+		const details = this.extractDetails(cleanLabel);
+		const paymentMethod = details.paymentMethod;
+		const merchant =
+			(columns.merchant && record[normalizeColumnName(columns.merchant)]) ||
+			details.merchant;
 
-		// Générer un hash unique
-		const hash = hashGenerator.forImportedTransaction(
-			date.toJSDate(),
-			cleanLabel,
-			amount,
-			rowIndex,
-		);
+		// Hash déterministe : un ré-import ou un export qui chevauche ne duplique rien
+		const hash = nextHash(date.toJSDate(), cleanLabel, amount);
 
 		return {
 			date: date.toJSDate(),
@@ -164,20 +347,218 @@ export default class CsvParser {
 	}
 
 	/**
-	 * Parse un montant au format français (1 234,56)
+	 * Parse une date selon les formats du profil
 	 */
-	private parseAmount(value: string | undefined): number {
+	private parseDate(value: string, formats: string[]): DateTime | null {
+		for (const format of formats) {
+			const parsed = DateTime.fromFormat(value.trim(), format);
+			if (parsed.isValid) return parsed.startOf("day");
+		}
+
+		// Numéro de série Excel (date non formatée dans un classeur)
+		if (/^\d{5}([.,]\d+)?$/.test(value.trim())) {
+			return DateUtils.fromExcelSerial(
+				Number.parseFloat(value.trim().replace(",", ".")),
+			);
+		}
+
+		// Dernier recours : formats courants
+		return DateUtils.parse(value.trim());
+	}
+
+	/**
+	 * Parse un montant en détectant son séparateur décimal
+	 * Ex: "1 234,56", "1,234.56" ou "12.50" dans un export censé utiliser la virgule
+	 * Le séparateur du profil ne sert qu'à trancher un séparateur unique suivi de 3 chiffres
+	 */
+	private parseAmount(
+		value: string | undefined,
+		decimalSeparator: "," | ".",
+	): number {
 		if (!value || value.trim() === "") return 0;
 
-		// Supprimer tous les caractères non numériques sauf virgule et point
-		const cleaned = value
-			.replace(/[^\d,.-]/g, "") // Garde uniquement chiffres, virgule, point, tiret
-			.replace(",", ".");
+		// Supprimer tous les caractères non numériques sauf virgule, point et signe
+		const cleaned = value.replace(/[^\d,.+-]/g, "");
+		const last = Math.max(cleaned.lastIndexOf(","), cleaned.lastIndexOf("."));
+		if (last === -1) return this.toNumber(cleaned);
+
+		const separator = cleaned[last];
+		const decimals = cleaned.length - last - 1;
+		const isMixed = cleaned.includes(separator === "," ? "." : ",");
+		const isRepeated = cleaned.indexOf(separator) !== last;
+
+		// Dernier séparateur suivi de 1 ou 2 chiffres : séparateur décimal
+		// (sauf s'il se répète : "1.234.56" est mal formé)
+		let isDecimal: boolean;
+		if (decimals >= 1 && decimals <= 2 && !isRepeated) {
+			isDecimal = true;
+		} else if (
+			// Séparateur(s) de milliers seul(s) : "1.234.567", ou "1.234" avec la virgule décimale
+			decimals === 3 &&
+			!isMixed &&
+			(isRepeated || separator !== decimalSeparator)
+		) {
+			isDecimal = false;
+		} else {
+			throw new Error(`Montant ambigu: ${value}`);
+		}
+
+		const integer = cleaned.slice(0, last).replace(/[,.]/g, "");
+		return this.toNumber(
+			isDecimal
+				? `${integer}.${cleaned.slice(last + 1)}`
+				: integer + cleaned.slice(last + 1),
+		);
+	}
 
+	/**
+	 * Convertit un montant nettoyé ("-1234.56")
+	 */
+	private toNumber(cleaned: string): number {
 		const amount = Number.parseFloat(cleaned);
 		return Number.isNaN(amount) ? 0 : amount;
 	}
 
+	/**
+	 * Détecte le séparateur : celui qui découpe le plus de lignes en un même
+	 * nombre de colonnes (à égalité, le plus grand nombre de colonnes)
+	 * Les guillemets sont respectés : "12,50" ne compte pas comme une virgule
+	 */
+	private detectDelimiter(content: string): string {
+		const head = this.head(content);
+		let best = CsvParser.DELIMITERS[0];
+		let bestLines = 0;
+		let bestColumns = 0;
+
+		for (const delimiter of CsvParser.DELIMITERS) {
+			const frequency = new Map<number, number>();
+			for (const row of this.parseRows(head, delimiter)) {
+				if (row.length < 2) continue;
+				frequency.set(row.length, (frequency.get(row.length) ?? 0) + 1);
+			}
+
+			for (const [columns, lines] of frequency) {
+				if (
+					lines > bestLines ||
+					(lines === bestLines && columns > bestColumns)
+				) {
+					best = delimiter;
+					bestLines = lines;
+					bestColumns = columns;
+				}
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * Profil dont l'en-tête contient toutes les colonnes, avec son séparateur
+	 * ou à défaut avec le séparateur détecté dans le fichier
+	 */
+	private matchHeader(
+		profile: CsvBankProfile,
+		content: string,
+		detectedDelimiter: string,
+	): CsvBankProfile | null {
+		// Seules les premières lignes sont utiles à la détection
+		const head = this.head(content);
+
+		for (const delimiter of new Set([profile.delimiter, detectedDelimiter])) {
+			const header = this.parseRows(head, delimiter)[profile.headerOffset];
+			if (this.hasColumns(profile, header)) {
+				return this.withDelimiter(profile, delimiter);
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Vérifie qu'une ligne d'en-tête contient toutes les colonnes du profil
+	 */
+	private hasColumns(
+		profile: CsvBankProfile,
+		header: string[] | undefined,
+	): boolean {
+		if (!header) return false;
+
+		const columns = new Set(header.map(normalizeColumnName));
+		return this.requiredColumns(profile).every((column) => columns.has(column));
+	}
+
+	/**
+	 * Profil imposé par l'appelant (modèle utilisateur ou profil intégré)
+	 */
+	private forcedProfile(
+		id: string | undefined,
+		extraProfiles: CsvBankProfile[],
+	): CsvBankProfile | null {
+		if (!id) return null;
+
+		const profile =
+			extraProfiles.find((p) => p.id === id) ?? this.profiles.get(id);
+		if (!profile) {
+			throw new Error(`Profil bancaire inconnu: ${id}`);
+		}
+		return profile;
+	}
+
+	/**
+	 * Écrit un nombre avec le séparateur décimal du profil
+	 */
+	private formatNumber(value: number, decimalSeparator: "," | "."): string {
+		const text = String(value);
+		return decimalSeparator === "," ? text.replace(".", ",") : text;
+	}
+
+	/**
+	 * Profil avec un autre séparateur
+	 */
+	private withDelimiter(
+		profile: CsvBankProfile,
+		delimiter: string,
+	): CsvBankProfile {
+		return profile.delimiter === delimiter
+			? profile
+			: { ...profile, delimiter };
+	}
+
+	/**
+	 * Retire le BOM et normalise les retours à la ligne
+	 */
+	private normalizeContent(content: string): string {
+		return content
+			.replace(/^\uFEFF/, "")
+			.replace(/\r\n/g, "\n")
+			.replace(/\r/g, "\n");
+	}
+
+	/**
+	 * Premières lignes du fichier (suffisantes pour l'en-tête)
+	 */
+	private head(content: string): string {
+		return content.split("\n").slice(0, 20).join("\n");
+	}
+
+	/**
+	 * Colonnes attendues dans l'en-tête d'un profil
+	 */
+	private requiredColumns(profile: CsvBankProfile): string[] {
+		const { columns } = profile;
+		return [
+			columns.date,
+			...columns.label,
+			columns.amount,
+			columns.debit,
+			columns.credit,
+			columns.fee,
+			columns.merchant,
+		]
+			.filter((column): column is string => column !== undefined)
+			.map(normalizeColumnName);
+	}
+
 	/**
 	 * Extrait le marchand et la méthode de paiement du libellé
 	 */
@@ -188,7 +569,11 @@ export default class CsvParser {
 		let merchant: string | null = null;
 		let paymentMethod: string | null = null;
 
-		const upperLabel = label.toUpperCase();
+		// Sans accents : "PRÉLÈVEMENT" comme "PRELEVEMENT"
+		const upperLabel = label
+			.normalize("NFD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.toUpperCase();
 
 		// Détecter la méthode de paiement
 		if (upperLabel.includes("PAIEMENT PAR CARTE")) {
@@ -0,0 +1,384 @@
+import { DateTime } from "luxon";
+import { hashGenerator } from "#infrastructure/utils/hash_generator";
+import type {
+	ParsedTransactionData,
+	ParseResult,
+	StatementBalance,
+	TransactionType,
+} from "#domain/types/index";
+
+/**
+ * Relevé MT940 (bloc :20: ... :62F:)
+ */
+interface Mt940Statement {
+	id: string;
+	account: string;
+	opening?: StatementBalance;
+	closing?: StatementBalance;
+	transactions: ParsedTransactionData[];
+}
+
+/**
+ * Informations extraites du champ :86:
+ */
+interface Mt940Details {
+	remittance: string;
+	name: string | null;
+	iban: string | null;
+}
+
+/**
+ * Parser SWIFT MT940 (relevé de compte)
+ * Couche technique - ne contient pas de logique métier
+ * Le champ :86: est lu au format "/CODE/valeur" ou au format à sous-champs "?20"
+ */
+export default class Mt940Parser {
+	/**
+	 * Codes du champ :86: au format "/CODE/valeur" (alternative d'expression régulière)
+	 */
+	private static readonly INFO_CODES =
+		"EREF|MARF|CRED|REMI|NAME|IBAN|BIC|CNTP|ORDP|BENM|PURP|ULTC|ULTD|TRTP|CSID|ADDR";
+
+	/**
+	 * Ligne :61: : date valeur, date d'écriture, sens, montant, type, références
+	 */
+	private static readonly STATEMENT_LINE =
+		/^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+	/**
+	 * Références bancaires de remplissage, qui n'identifient pas l'opération
+	 */
+	private static readonly PLACEHOLDER_REFERENCES = ["NONREF", "NOTPROVIDED"];
+
+	/**
+	 * Parse un fichier MT940 complet
+	 * La référence bancaire (après "//" en :61:) sert d'identifiant externe
+	 * lorsqu'elle n'apparaît qu'une fois dans le fichier : certaines banques la répètent
+	 */
+	parse(content: string): ParseResult {
+		const transactions: ParsedTransactionData[] = [];
+		const errors: string[] = [];
+
+		const statements = this.readStatements(content, errors);
+		if (statements.length === 0) {
+			return {
+				transactions,
+				errors: ["Aucun relevé MT940 trouvé dans le fichier"],
+			};
+		}
+
+		const references = new Map<string, number>();
+		for (const statement of statements) {
+			for (const { externalId } of statement.transactions) {
+				if (externalId) {
+					references.set(externalId, (references.get(externalId) ?? 0) + 1);
+				}
+			}
+		}
+
+		const nextHash = hashGenerator.forImportedFile();
+		for (const statement of statements) {
+			for (const transaction of statement.transactions) {
+				// Référence répétée : elle ne distingue pas les opérations entre elles
+				if (
+					transaction.externalId &&
+					references.get(transaction.externalId)! > 1
+				) {
+					transaction.externalId = undefined;
+					transaction.hash = "";
+				}
+
+				// Opération sans référence bancaire : rang parmi les opérations identiques
+				transaction.hash ||= nextHash(
+					transaction.date,
+					transaction.label,
+					transaction.amount,
+				);
+				transactions.push(transaction);
+			}
+
+			const error = this.verifyBalances(statement);
+			if (error) errors.push(error);
+		}
+
+		return {
+			transactions,
+			errors,
+			closingBalance: this.lastClosingBalance(statements),
+		};
+	}
+
+	/**
+	 * Découpe le fichier en champs (":61:...") puis en relevés
+	 */
+	private readStatements(content: string, errors: string[]): Mt940Statement[] {
+		const statements: Mt940Statement[] = [];
+		let current: Mt940Statement | null = null;
+		let pending: { line: string; details: string } | null = null;
+
+		const flush = () => {
+			if (!current || !pending) return;
+			try {
+				const transaction = this.parseLine(
+					pending.line,
+					pending.details,
+					current.account,
+				);
+				if (transaction) current.transactions.push(transaction);
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Erreur inconnue";
+				errors.push(`Relevé ${current.id}: ${message}`);
+			}
+			pending = null;
+		};
+
+		for (const { tag, value } of this.fields(content)) {
+			switch (tag) {
+				case "20":
+					flush();
+					current = { id: value, account: "", transactions: [] };
+					statements.push(current);
+					break;
+				case "25":
+					if (current) current.account = value.replace(/\s/g, "");
+					break;
+				case "60F":
+				case "60M":
+					flush();
+					if (current) current.opening ??= this.parseBalance(value);
+					break;
+				case "61":
+					flush();
+					pending = { line: value, details: "" };
+					break;
+				case "86":
+					if (pending) pending.details = value;
+					break;
+				case "62F":
+				case "62M":
+					flush();
+					if (current) current.closing = this.parseBalance(value);
+					break;
+			}
+		}
+		flush();
+
+		return statements;
+	}
+
+	/**
+	 * Extrait les champs ":TAG:valeur" (une valeur peut s'étendre sur plusieurs lignes)
+	 */
+	private fields(content: string): { tag: string; value: string }[] {
+		const fields: { tag: string; value: string }[] = [];
+		const lines = content
+			.replace(/\r\n?/g, "\n")
+			.replace(/[{}]/g, "\n") // En-têtes SWIFT {1:...}{4:
+			.split("\n");
+
+		for (const line of lines) {
+			const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+			if (match) {
+				fields.push({ tag: match[1], value: match[2] });
+			} else if (fields.length > 0 && line.trim() && line.trim() !== "-") {
+				fields[fields.length - 1].value += `\n${line}`;
+			}
+		}
+
+		return fields;
+	}
+
+	/**
+	 * Parse une ligne :61: et son champ :86:
+	 */
+	private parseLine(
+		line: string,
+		info: string,
+		account: string,
+	): ParsedTransactionData | null {
+		const match = line.match(Mt940Parser.STATEMENT_LINE);
+		if (!match) {
+			throw new Error(`Ligne :61: invalide: ${line.split("\n")[0]}`);
+		}
+
+		const [, valueDate, entryDate, mark, , amountStr, , customerRef, bankRef] =
+			match;
+
+		const date = this.parseEntryDate(valueDate, entryDate);
+		if (!date) {
+			throw new Error(`Date invalide: ${valueDate}`);
+		}
+
+		// RC / RD : contre-passation d'un débit / crédit
+		const isDebit = mark === "D" || mark === "RC";
+		const value = Number.parseFloat(amountStr.replace(",", "."));
+		if (Number.isNaN(value) || value === 0) return null;
+
+		const amount = Math.round((isDebit ? -value : value) * 100) / 100;
+		const type: TransactionType = amount < 0 ? "debit" : "credit";
+
+		const details = this.parseDetails(info);
+		const label =
+			[details.name, details.remittance]
+				.filter((part) => part)
+				.join(" ")
+				.trim() ||
+			customerRef.trim() ||
+			"Opération";
+
+		const reference = bankRef?.trim();
+		const externalId =
+			reference &&
+			!Mt940Parser.PLACEHOLDER_REFERENCES.includes(reference.toUpperCase())
+				? reference
+				: undefined;
+
+		return {
+			date: date.toJSDate(),
+			label,
+			amount,
+			type,
+			merchant: details.name ?? details.iban,
+			paymentMethod: null,
+			hash: externalId
+				? hashGenerator.forExternalTransaction("mt940", account, externalId)
+				: "",
+			externalId,
+		};
+	}
+
+	/**
+	 * Lit le champ :86: (contrepartie et motif)
+	 */
+	private parseDetails(info: string): Mt940Details {
+		const text = info.replace(/\n/g, "");
+
+		// Format à sous-champs : "166?00VIREMENT?20Motif?32Nom?31IBAN"
+		if (/^\d{3}\?/.test(text)) {
+			const subfields = new Map<string, string>();
+			for (const part of text.split("?").slice(1)) {
+				const code = part.slice(0, 2);
+				subfields.set(code, (subfields.get(code) ?? "") + part.slice(2));
+			}
+
+			// ?20 à ?29 : motif de l'opération
+			const remittance = [...subfields.entries()]
+				.filter(([code]) => code >= "20" && code <= "29")
+				.map(([, value]) => value)
+				.join("")
+				.trim();
+			const name =
+				`${subfields.get("32") ?? ""}${subfields.get("33") ?? ""}`.trim();
+
+			return {
+				remittance: remittance || (subfields.get("00") ?? "").trim(),
+				name: name || null,
+				iban: subfields.get("31")?.trim() || null,
+			};
+		}
+
+		// Format "/CODE/valeur/CODE/valeur"
+		const pattern = new RegExp(`/(${Mt940Parser.INFO_CODES})/`, "g");
+		const matches = [...text.matchAll(pattern)];
+		if (matches.length === 0) {
+			return { remittance: text.trim(), name: null, iban: null };
+		}
+
+		const values = new Map<string, string>();
+		matches.forEach((match, index) => {
+			const start = match.index! + match[0].length;
+			const end = matches[index + 1]?.index ?? text.length;
+			values.set(match[1], text.slice(start, end).replace(/\/+$/, "").trim());
+		});
+
+		// CNTP : IBAN/BIC/NOM/VILLE
+		const counterparty = (values.get("CNTP") ?? "").split("/");
+		const remittance = (values.get("REMI") ?? "")
+			.replace(/^(USTD|STRD)\/+(\w+\/+)?/, "")
+			.trim();
+
+		return {
+			remittance,
+			name: values.get("NAME") || counterparty[2]?.trim() || null,
+			iban: values.get("IBAN") || counterparty[0]?.trim() || null,
+		};
+	}
+
+	/**
+	 * Date d'écriture (MMJJ), dont l'année est déduite de la date valeur (AAMMJJ)
+	 */
+	private parseEntryDate(
+		valueDate: string,
+		entryDate: string | undefined,
+	): DateTime | null {
+		const value = DateTime.fromFormat(valueDate, "yyMMdd");
+		if (!value.isValid) return null;
+		if (!entryDate) return value;
+
+		let entry = DateTime.fromFormat(`${value.year}${entryDate}`, "yyyyMMdd");
+		if (!entry.isValid) return value;
+
+		// Écriture et valeur de part et d'autre du 1er janvier
+		if (entry.diff(value, "days").days > 180) {
+			entry = entry.minus({ years: 1 });
+		} else if (value.diff(entry, "days").days > 180) {
+			entry = entry.plus({ years: 1 });
+		}
+
+		return entry;
+	}
+
+	/**
+	 * Parse un solde ":60F:" / ":62F:" : C240131EUR1234,56
+	 */
+	private parseBalance(value: string): StatementBalance | undefined {
+		const match = value.trim().match(/^([CD])(\d{6})[A-Z]{3}(\d+,\d*)/);
+		if (!match) return undefined;
+
+		const date = DateTime.fromFormat(match[2], "yyMMdd");
+		const amount = Number.parseFloat(match[3].replace(",", "."));
+		if (!date.isValid || Number.isNaN(amount)) return undefined;
+
+		return {
+			amount: Math.round((match[1] === "D" ? -amount : amount) * 100) / 100,
+			date: date.toJSDate(),
+		};
+	}
+
+	/**
+	 * Vérifie que solde d'ouverture + opérations = solde de clôture
+	 */
+	private verifyBalances(statement: Mt940Statement): string | null {
+		if (!statement.opening || !statement.closing) return null;
+
+		const movements = statement.transactions.reduce(
+			(sum, tx) => sum + tx.amount,
+			0,
+		);
+		const difference =
+			Math.round(
+				(statement.closing.amount - statement.opening.amount - movements) * 100,
+			) / 100;
+
+		return Math.abs(difference) < 0.01
+			? null
+			: `Relevé ${statement.id}: les opérations ne correspondent pas aux soldes (écart de ${difference})`;
+	}
+
+	/**
+	 * Solde de clôture le plus récent, si tous les relevés portent sur le même compte
+	 */
+	private lastClosingBalance(
+		statements: Mt940Statement[],
+	): StatementBalance | undefined {
+		const accounts = new Set(statements.map((statement) => statement.account));
+		if (accounts.size !== 1) return undefined;
+
+		return statements
+			.map((statement) => statement.closing)
+			.filter((balance): balance is StatementBalance => !!balance)
+			.sort((a, b) => a.date.getTime() - b.date.getTime())
+			.at(-1);
+	}
+}
@@ -0,0 +1,198 @@
+import { DateTime } from "luxon";
+import { hashGenerator } from "#infrastructure/utils/hash_generator";
+import type {
+	ParsedTransactionData,
+	ParseResult,
+	PaymentMethod,
+	StatementBalance,
+	TransactionType,
+} from "#domain/types/index";
+
+/**
+ * Parser OFX / QFX pour les relevés bancaires
+ * Couche technique - ne contient pas de logique métier
+ * Gère l'OFX 1.x (SGML, balises feuilles non fermées) comme l'OFX 2.x (XML)
+ */
+export default class OfxParser {
+	/**
+	 * Correspondance TRNTYPE -> méthode de paiement
+	 */
+	private static readonly PAYMENT_METHODS: Record<string, PaymentMethod> = {
+		POS: "carte",
+		DIRECTDEBIT: "prelevement",
+		XFER: "virement",
+		DIRECTDEP: "virement",
+		ATM: "retrait",
+		CHECK: "cheque",
+	};
+
+	/**
+	 * Parse un fichier OFX complet
+	 * Le FITID sert d'identifiant externe et de base au hash de déduplication
+	 */
+	parse(content: string): ParseResult {
+		const transactions: ParsedTransactionData[] = [];
+		const errors: string[] = [];
+
+		const body = content.slice(Math.max(content.indexOf("<OFX>"), 0));
+		const statements = this.blocks(body, "STMTRS").concat(
+			this.blocks(body, "CCSTMTRS"),
+		);
+
+		if (statements.length === 0) {
+			return {
+				transactions,
+				errors: ["Aucun relevé trouvé dans le fichier OFX"],
+			};
+		}
+
+		for (const statement of statements) {
+			const accountRef = this.field(statement, "ACCTID") ?? "";
+
+			this.blocks(statement, "STMTTRN").forEach((block, index) => {
+				try {
+					transactions.push(this.parseTransaction(block, accountRef));
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : "Erreur inconnue";
+					errors.push(`Opération ${index + 1}: ${message}`);
+				}
+			});
+		}
+
+		// Un solde de clôture n'a de sens que pour un relevé unique
+		const closingBalance =
+			statements.length === 1
+				? this.parseBalance(statements[0])
+				: undefined;
+
+		return { transactions, errors, closingBalance };
+	}
+
+	/**
+	 * Parse un bloc STMTTRN en transaction
+	 */
+	private parseTransaction(
+		block: string,
+		accountRef: string,
+	): ParsedTransactionData {
+		const fitId = this.field(block, "FITID");
+		if (!fitId) {
+			throw new Error("FITID manquant");
+		}
+
+		const dateStr = this.field(block, "DTPOSTED") ?? "";
+		const date = this.parseDate(dateStr);
+		if (!date) {
+			throw new Error(`Date invalide: ${dateStr}`);
+		}
+
+		const amount = this.parseAmount(this.field(block, "TRNAMT"));
+		if (amount === null) {
+			throw new Error(`Montant invalide: ${this.field(block, "TRNAMT")}`);
+		}
+
+		// NAME est souvent tronqué, MEMO en porte la suite ou un complément
+		const name = this.field(block, "NAME") ?? "";
+		const memo = this.field(block, "MEMO") ?? "";
+		const label =
+			(name.includes(memo) ? name : `${name} ${memo}`)
+				.replace(/\s+/g, " ")
+				.trim() || "Opération";
+
+		const type: TransactionType = amount < 0 ? "debit" : "credit";
+		const trnType = (this.field(block, "TRNTYPE") ?? "").toUpperCase();
+
+		return {
+			date: date.toJSDate(),
+			label,
+			amount,
+			type,
+			merchant: this.extractMerchant(name) ?? null,
+			paymentMethod: OfxParser.PAYMENT_METHODS[trnType] ?? null,
+			hash: hashGenerator.forExternalTransaction("ofx", accountRef, fitId),
+			externalId: fitId,
+		};
+	}
+
+	/**
+	 * Solde comptable de clôture (LEDGERBAL)
+	 */
+	private parseBalance(statement: string): StatementBalance | undefined {
+		const ledger = this.blocks(statement, "LEDGERBAL")[0];
+		if (!ledger) return undefined;
+
+		const amount = this.parseAmount(this.field(ledger, "BALAMT"));
+		const date = this.parseDate(this.field(ledger, "DTASOF") ?? "");
+		if (amount === null || !date) return undefined;
+
+		return { amount, date: date.toJSDate() };
+	}
+
+	/**
+	 * Extrait les blocs <TAG>...</TAG> (agrégats, toujours fermés en OFX)
+	 */
+	private blocks(content: string, tag: string): string[] {
+		const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi");
+		return [...content.matchAll(pattern)].map((match) => match[1]);
+	}
+
+	/**
+	 * Valeur d'une balise feuille (fermée ou non)
+	 */
+	private field(content: string, tag: string): string | null {
+		const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+		if (!match) return null;
+
+		const value = this.decodeEntities(match[1].trim());
+		return value.length > 0 ? value : null;
+	}
+
+	/**
+	 * Parse une date OFX : AAAAMMJJ[HHMMSS[.XXX]][[-5:EST]]
+	 * Seule la partie date est conservée
+	 */
+	private parseDate(value: string): DateTime | null {
+		const match = value.match(/^(\d{8})/);
+		if (!match) return null;
+
+		const parsed = DateTime.fromFormat(match[1], "yyyyMMdd");
+		return parsed.isValid ? parsed : null;
+	}
+
+	/**
+	 * Parse un montant OFX (certaines banques utilisent la virgule décimale)
+	 */
+	private parseAmount(value: string | null): number | null {
+		if (!value) return null;
+
+		const amount = Number.parseFloat(
+			value.replace(/\s/g, "").replace(",", "."),
+		);
+		return Number.isNaN(amount) ? null : Math.round(amount * 100) / 100;
+	}
+
+	/**
+	 * Nettoie le bénéficiaire : préfixes de type d'opération et date finale
+	 */
+	private extractMerchant(name: string): string | null {
+		const cleaned = name
+			.replace(/^(CB|CARTE|PRLV( SEPA)?|VIR( SEPA)?( RECU| EMIS)?)\s+/i, "")
+			.replace(/\s+\d{2}\/\d{2}(\/\d{2,4})?$/, "")
+			.trim();
+
+		return cleaned.length > 0 ? cleaned : null;
+	}
+
+	/**
+	 * Décode les entités XML/SGML courantes
+	 */
+	private decodeEntities(value: string): string {
+		return value
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, "&");
+	}
+}
@@ -0,0 +1,392 @@
+import { DateTime } from "luxon";
+import { hashGenerator } from "#infrastructure/utils/hash_generator";
+import type {
+	ParsedTransactionData,
+	ParseResult,
+	PaymentMethod,
+	TransactionType,
+} from "#domain/types/index";
+
+/**
+ * Ordre jour / mois des dates QIF (le format ne le précise pas)
+ */
+export type QifDateOrder = "dmy" | "mdy";
+
+/**
+ * Enregistrement QIF brut (une opération entre deux "^")
+ */
+interface QifRecord {
+	date: string;
+	amount: string;
+	payee: string;
+	memo: string;
+	category: string;
+	number: string;
+	splits: { category: string; memo: string; amount: string }[];
+	line: number;
+}
+
+/**
+ * Parser QIF pour les exports des anciens logiciels de gestion
+ * Couche technique - ne contient pas de logique métier
+ * Seules les sections bancaires (Bank, CCard, Cash) sont importées
+ */
+export default class QifParser {
+	/**
+	 * Sections contenant des opérations importables
+	 */
+	private static readonly ACCOUNT_TYPES = ["bank", "ccard", "cash"];
+
+	/**
+	 * Mots-clés des catégories QIF -> identifiants de catégorie ForecastPro
+	 * Comparés aux mots de chaque niveau de catégorie, sans accents ni casse
+	 */
+	private static readonly CATEGORY_KEYWORDS: Record<string, string> = {
+		income: "revenu income salaire salary wage paie bonus interet interest dividende",
+		food: "alimentation courses groceries food dining restaurant supermarche",
+		transport: "transport auto voiture carburant fuel essence parking peage train",
+		housing: "logement housing home maison loyer rent mortgage utilities electricite energie",
+		subscriptions: "abonnement subscription telephone internet mobile streaming",
+		health: "sante health medical medecin doctor pharmacie mutuelle",
+		leisure: "loisir leisure entertainment vacances vacation voyage travel sport hobbies",
+		shopping: "shopping vetement clothing household electronique electronics cadeau gift",
+	};
+
+	/**
+	 * Catégorie des opérations QIF catégorisées mais non reconnues
+	 */
+	private static readonly FALLBACK_CATEGORY = "other";
+
+	/**
+	 * Parse un fichier QIF complet
+	 * dateOrder : impose l'ordre jour / mois, sinon déduit des dates du fichier
+	 */
+	parse(content: string, options?: { dateOrder?: QifDateOrder }): ParseResult {
+		const transactions: ParsedTransactionData[] = [];
+		const errors: string[] = [];
+
+		const records = this.readRecords(content);
+		if (records.length === 0) {
+			return {
+				transactions,
+				errors: ["Aucune opération bancaire trouvée dans le fichier QIF"],
+			};
+		}
+
+		const dateOrder = options?.dateOrder ?? this.detectDateOrder(records);
+		const nextHash = hashGenerator.forImportedFile();
+
+		for (const record of records) {
+			try {
+				for (const transaction of this.toTransactions(record, dateOrder)) {
+					transaction.hash = nextHash(
+						transaction.date,
+						transaction.label,
+						transaction.amount,
+					);
+					transactions.push(transaction);
+				}
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Erreur inconnue";
+				errors.push(`Ligne ${record.line}: ${message}`);
+			}
+		}
+
+		return { transactions, errors };
+	}
+
+	/**
+	 * Associe une catégorie QIF ("Auto:Carburant") à une catégorie ForecastPro
+	 * Les virements entre comptes ("[Épargne]") ne sont pas catégorisés
+	 */
+	mapCategory(category: string): string | null {
+		const value = category.split("/")[0].trim(); // "Catégorie/Classe"
+		if (!value || value.startsWith("[")) return null;
+
+		for (const level of value.split(":")) {
+			const words = this.normalize(level).split(/[^a-z0-9]+/);
+			for (const [id, keywords] of Object.entries(
+				QifParser.CATEGORY_KEYWORDS,
+			)) {
+				if (
+					keywords
+						.split(" ")
+						.some((keyword) => words.some((word) => word.startsWith(keyword)))
+				) {
+					return id;
+				}
+			}
+		}
+
+		return QifParser.FALLBACK_CATEGORY;
+	}
+
+	/**
+	 * Découpe le fichier en enregistrements des sections bancaires
+	 */
+	private readRecords(content: string): QifRecord[] {
+		const records: QifRecord[] = [];
+		const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+		let inAccountSection = false;
+		let current = this.emptyRecord(1);
+
+		lines.forEach((rawLine, index) => {
+			const line = rawLine.trimEnd();
+			if (!line) return;
+
+			// En-tête de section : !Type:Bank, !Account, !Option:AutoSwitch...
+			if (line.startsWith("!")) {
+				const header = line.toLowerCase();
+				if (header.startsWith("!type:")) {
+					inAccountSection = QifParser.ACCOUNT_TYPES.includes(
+						header.slice("!type:".length).trim(),
+					);
+				} else if (header.startsWith("!account")) {
+					inAccountSection = false;
+				}
+				current = this.emptyRecord(index + 2);
+				return;
+			}
+
+			if (line.startsWith("^")) {
+				if (inAccountSection && (current.date || current.amount)) {
+					records.push(current);
+				}
+				current = this.emptyRecord(index + 2);
+				return;
+			}
+
+			if (!inAccountSection) return;
+
+			const value = line.slice(1).trim();
+			switch (line[0]) {
+				case "D":
+					current.date = value;
+					break;
+				case "T":
+				case "U":
+					// U est un doublon de T dans les exports récents
+					current.amount ||= value;
+					break;
+				case "P":
+					current.payee = value;
+					break;
+				case "M":
+					current.memo = value;
+					break;
+				case "L":
+					current.category = value;
+					break;
+				case "N":
+					current.number = value;
+					break;
+				case "S":
+					current.splits.push({ category: value, memo: "", amount: "" });
+					break;
+				case "E":
+					if (current.splits.length > 0) {
+						current.splits[current.splits.length - 1].memo = value;
+					}
+					break;
+				case "$":
+					if (current.splits.length > 0) {
+						current.splits[current.splits.length - 1].amount = value;
+					}
+					break;
+			}
+		});
+
+		return records;
+	}
+
+	/**
+	 * Convertit un enregistrement en transaction(s)
+	 * Une opération ventilée donne une transaction par ligne de ventilation
+	 */
+	private toTransactions(
+		record: QifRecord,
+		dateOrder: QifDateOrder,
+	): ParsedTransactionData[] {
+		const date = this.parseDate(record.date, dateOrder);
+		if (!date) {
+			throw new Error(`Date invalide: ${record.date}`);
+		}
+
+		const total = this.parseAmount(record.amount);
+		if (total === null) {
+			throw new Error(`Montant invalide: ${record.amount}`);
+		}
+
+		const payee = record.payee.replace(/\s+/g, " ");
+		const paymentMethod = this.paymentMethod(record);
+
+		const splits = record.splits.map((split) => ({
+			...split,
+			value: this.parseAmount(split.amount),
+		}));
+		const splitTotal = splits.reduce(
+			(sum, split) => sum + (split.value ?? 0),
+			0,
+		);
+		const isSplit =
+			splits.length > 1 &&
+			splits.every((split) => split.value !== null) &&
+			Math.abs(splitTotal - total) < 0.01;
+
+		// Une ventilation incohérente est ignorée au profit du montant total
+		const lines = isSplit
+			? splits.map((split) => ({
+					value: split.value!,
+					memo: split.memo || record.memo,
+					category: split.category,
+				}))
+			: [
+					{
+						value: total,
+						memo: record.memo,
+						category: record.category || record.splits[0]?.category || "",
+					},
+				];
+
+		return lines
+			.filter((line) => line.value !== 0)
+			.map((line) => {
+				const amount = Math.round(line.value * 100) / 100;
+				const type: TransactionType = amount < 0 ? "debit" : "credit";
+
+				return {
+					date: date.toJSDate(),
+					label: this.buildLabel(payee, line.memo, record),
+					amount,
+					type,
+					merchant: payee || null,
+					paymentMethod,
+					category: this.mapCategory(line.category),
+					hash: "", // Calculé par l'appelant
+				};
+			});
+	}
+
+	/**
+	 * Libellé : bénéficiaire et mémo, sinon chèque ou compte du virement
+	 */
+	private buildLabel(payee: string, memo: string, record: QifRecord): string {
+		const label = memo && !payee.includes(memo) ? `${payee} ${memo}` : payee;
+		if (label.trim()) return label.trim();
+
+		if (record.number) return `Chèque ${record.number}`;
+		if (record.category.startsWith("[")) {
+			return `Virement ${record.category.replace(/[[\]]/g, "")}`;
+		}
+		return "Opération";
+	}
+
+	/**
+	 * Déduit l'ordre jour / mois : une valeur > 12 tranche l'ambiguïté
+	 * Par défaut, ordre français (jour / mois)
+	 */
+	private detectDateOrder(records: QifRecord[]): QifDateOrder {
+		for (const record of records) {
+			const parts = this.dateParts(record.date);
+			if (!parts || parts[0].length === 4) continue;
+
+			if (Number(parts[0]) > 12) return "dmy";
+			if (Number(parts[1]) > 12) return "mdy";
+		}
+
+		return "dmy";
+	}
+
+	/**
+	 * Parse une date QIF : "15/01/2024", "1/15'24", " 1/ 5' 4", "15.01.24", "2024-01-15"
+	 */
+	private parseDate(value: string, dateOrder: QifDateOrder): DateTime | null {
+		const parts = this.dateParts(value);
+		if (!parts) return null;
+
+		let day: number;
+		let month: number;
+		let year: number;
+
+		if (parts[0].length === 4) {
+			[year, month, day] = parts.map(Number);
+		} else {
+			const [first, second, third] = parts.map(Number);
+			[day, month] = dateOrder === "dmy" ? [first, second] : [second, first];
+			year = third;
+
+			// L'apostrophe de Quicken signale une année >= 2000
+			if (parts[2].length <= 2) {
+				year += value.includes("'") || year < 50 ? 2000 : 1900;
+			}
+		}
+
+		const parsed = DateTime.fromObject({ year, month, day });
+		return parsed.isValid ? parsed : null;
+	}
+
+	/**
+	 * Découpe une date QIF en trois composantes numériques
+	 */
+	private dateParts(value: string): string[] | null {
+		const parts = value.replace(/\s/g, "").split(/[/.'-]/);
+		if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) {
+			return null;
+		}
+		return parts;
+	}
+
+	/**
+	 * Parse un montant QIF ("-1,234.56" ou "-1 234,56")
+	 * Le dernier séparateur suivi de 1 ou 2 chiffres est le séparateur décimal
+	 */
+	private parseAmount(value: string): number | null {
+		const cleaned = value.replace(/\s/g, "");
+		if (!cleaned) return null;
+
+		const decimal = cleaned.match(/[.,](\d{1,2})$/);
+		const normalized = decimal
+			? `${cleaned.slice(0, -decimal[0].length).replace(/[.,]/g, "")}.${decimal[1]}`
+			: cleaned.replace(/[.,]/g, "");
+
+		const amount = Number.parseFloat(normalized);
+		return Number.isNaN(amount) ? null : amount;
+	}
+
+	/**
+	 * Méthode de paiement déduite du numéro (chèque) ou d'un virement
+	 */
+	private paymentMethod(record: QifRecord): PaymentMethod {
+		if (/^\d+$/.test(record.number)) return "cheque";
+		if (record.category.startsWith("[")) return "virement";
+		return null;
+	}
+
+	/**
+	 * Normalise un texte pour la comparaison (casse, accents)
+	 */
+	private normalize(value: string): string {
+		return value
+			.normalize("NFD")
+			.replace(/[\u0300-\u036f]/g, "")
+			.toLowerCase();
+	}
+
+	/**
+	 * Enregistrement vide commençant à la ligne indiquée
+	 */
+	private emptyRecord(line: number): QifRecord {
+		return {
+			date: "",
+			amount: "",
+			payee: "",
+			memo: "",
+			category: "",
+			number: "",
+			splits: [],
+			line,
+		};
+	}
+}
@@ -8,6 +8,7 @@ export interface TinkToken {
 	token_type: string;
 	expires_in: number;
 	scope: string;
+	refresh_token?: string;
 }
 
 export interface TinkAccountRaw {
@@ -32,6 +33,13 @@ export interface TinkAccountRaw {
 	};
 }
 
+export interface TinkCredentialsRaw {
+	id: string;
+	providerName: string;
+	status: string;
+	sessionExpiryDate?: number | null;
+}
+
 export interface TinkTransactionRaw {
 	id: string;
 	accountId: string;
@@ -52,6 +60,11 @@ export interface TinkTransactionRaw {
 	status: string;
 }
 
+export interface TinkTransactionsPage {
+	transactions: TinkTransactionRaw[];
+	nextPageToken: string;
+}
+
 /**
  * Client API Tink (Open Banking)
  * Couche technique - gère la communication avec l'API externe
@@ -137,6 +150,54 @@ export default class TinkApiClient {
 		return response.json();
 	}
 
+	/**
+	 * Renouvelle l'access token à partir du refresh token
+	 */
+	async refreshAccessToken(refreshToken: string): Promise<TinkToken> {
+		const response = await fetch(`${this.baseUrl}/api/v1/oauth/token`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/x-www-form-urlencoded",
+			},
+			body: new URLSearchParams({
+				client_id: this.clientId,
+				client_secret: this.clientSecret,
+				grant_type: "refresh_token",
+				refresh_token: refreshToken,
+			}),
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(
+				`Erreur renouvellement token (${response.status}): ${errorText}`,
+			);
+		}
+
+		return (await response.json()) as TinkToken;
+	}
+
+	/**
+	 * Récupère les accès bancaires (credentials) et l'expiration de leur consentement
+	 */
+	async getCredentials(accessToken: string): Promise<TinkCredentialsRaw[]> {
+		const response = await fetch(`${this.baseUrl}/api/v1/credentials/list`, {
+			headers: {
+				Authorization: `Bearer ${accessToken}`,
+			},
+		});
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			throw new Error(`Erreur credentials (${response.status}): ${errorText}`);
+		}
+
+		const data = (await response.json()) as {
+			credentials?: TinkCredentialsRaw[];
+		};
+		return data.credentials || [];
+	}
+
 	/**
 	 * Récupère les comptes bancaires
 	 */
@@ -157,30 +218,83 @@ export default class TinkApiClient {
 	}
 
 	/**
-	 * Récupère les transactions
+	 * Récupère toutes les transactions en suivant la pagination (nextPageToken)
+	 * bookedDateGte (yyyy-MM-dd) limite la récupération aux opérations comptabilisées depuis cette date
 	 */
 	async getTransactions(
 		accessToken: string,
-		accountId?: string,
-		pageSize: number = 100,
+		options: {
+			accountId?: string;
+			bookedDateGte?: string;
+			pageSize?: number;
+		} = {},
 	): Promise<TinkTransactionRaw[]> {
-		let url = `${this.baseUrl}/data/v2/transactions?pageSize=${pageSize}`;
-		if (accountId) {
-			url += `&accountIdIn=${accountId}`;
+		const transactions: TinkTransactionRaw[] = [];
+		const seenTokens = new Set<string>();
+		let pageToken: string | undefined;
+
+		do {
+			const page = await this.getTransactionsPage(accessToken, {
+				...options,
+				pageToken,
+			});
+			transactions.push(...page.transactions);
+
+			// Un token déjà vu signifie que l'API reboucle : on s'arrête
+			pageToken =
+				page.nextPageToken && !seenTokens.has(page.nextPageToken)
+					? page.nextPageToken
+					: undefined;
+			if (pageToken) seenTokens.add(pageToken);
+		} while (pageToken);
+
+		return transactions;
+	}
+
+	/**
+	 * Récupère une page de transactions
+	 */
+	private async getTransactionsPage(
+		accessToken: string,
+		options: {
+			accountId?: string;
+			bookedDateGte?: string;
+			pageSize?: number;
+			pageToken?: string;
+		},
+	): Promise<TinkTransactionsPage> {
+		const query = new URLSearchParams({
+			pageSize: String(options.pageSize ?? 100),
+		});
+		if (options.accountId) {
+			query.append("accountIdIn", options.accountId);
+		}
+		if (options.bookedDateGte) {
+			query.append("bookedDateGte", options.bookedDateGte);
+		}
+		if (options.pageToken) {
+			query.append("pageToken", options.pageToken);
 		}
 
-		const response = await fetch(url, {
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
+		const response = await fetch(
+			`${this.baseUrl}/data/v2/transactions?${query.toString()}`,
+			{
+				headers: {
+					Authorization: `Bearer ${accessToken}`,
+				},
 			},
-		});
+		);
 
 		if (!response.ok) {
 			const errorText = await response.text();
 			throw new Error(`Erreur transactions (${response.status}): ${errorText}`);
 		}
 
-		const data = await response.json();
-		return data.transactions || [];
+		// Les champs peuvent être absents sur une page vide
+		const data = (await response.json()) as Partial<TinkTransactionsPage>;
+		return {
+			transactions: data.transactions || [],
+			nextPageToken: data.nextPageToken || "",
+		};
 	}
 }
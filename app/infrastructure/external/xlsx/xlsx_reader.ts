@@ -0,0 +1,402 @@
+import { inflateRawSync } from "node:zlib";
+import { DateUtils } from "#infrastructure/utils/date_utils";
+
+/**
+ * Valeur d'une cellule : texte, nombre, ou date ISO (AAAA-MM-JJ)
+ */
+export type XlsxCell = string | number;
+
+/**
+ * Feuille lue : lignes non vides, colonnes alignées sur A, B, C...
+ */
+export interface XlsxSheet {
+	name: string;
+	rows: XlsxCell[][];
+}
+
+/**
+ * Entrée de l'archive ZIP (répertoire central)
+ */
+interface ZipEntry {
+	method: number;
+	compressedSize: number;
+	localHeaderOffset: number;
+}
+
+/**
+ * Lecteur de classeurs Excel (.xlsx)
+ * Couche technique - ne contient pas de logique métier
+ * Un .xlsx est une archive ZIP de fichiers XML : seules les valeurs des
+ * cellules sont lues (ni formules, ni mise en forme hormis les formats de date)
+ */
+export default class XlsxReader {
+	/**
+	 * Formats numériques intégrés d'Excel correspondant à des dates
+	 */
+	private static readonly BUILT_IN_DATE_FORMATS = new Set([
+		14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+		45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+	]);
+
+	/**
+	 * Lit une feuille du classeur : la première, ou celle désignée par son nom
+	 * ou son numéro (à partir de 1)
+	 */
+	read(data: Buffer, sheet?: string): XlsxSheet {
+		const entries = this.readZipEntries(data);
+		const file = (path: string) => {
+			const entry = entries.get(path);
+			return entry ? this.extract(data, entry).toString("utf-8") : null;
+		};
+
+		const workbook = file("xl/workbook.xml");
+		if (!workbook) {
+			throw new Error("Fichier XLSX invalide: classeur introuvable");
+		}
+
+		const sheets = this.listSheets(
+			workbook,
+			file("xl/_rels/workbook.xml.rels"),
+		);
+		if (sheets.length === 0) {
+			throw new Error("Fichier XLSX invalide: aucune feuille");
+		}
+
+		const selected = sheet ? this.findSheet(sheets, sheet) : sheets[0];
+		if (!selected) {
+			throw new Error(`Feuille introuvable dans le classeur: ${sheet}`);
+		}
+
+		const content = file(selected.path);
+		if (!content) {
+			throw new Error(
+				`Fichier XLSX invalide: feuille ${selected.name} absente`,
+			);
+		}
+
+		const date1904 = /<(?:\w+:)?workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(
+			workbook,
+		);
+
+		return {
+			name: selected.name,
+			rows: this.readRows(
+				content,
+				this.readSharedStrings(file("xl/sharedStrings.xml")),
+				this.readDateStyles(file("xl/styles.xml")),
+				date1904,
+			),
+		};
+	}
+
+	/**
+	 * Feuilles du classeur dans l'ordre des onglets, avec le chemin de leur XML
+	 */
+	private listSheets(
+		workbook: string,
+		rels: string | null,
+	): { name: string; path: string }[] {
+		const targets = new Map<string, string>();
+		for (const match of (rels ?? "").matchAll(/<Relationship\b[^>]*>/g)) {
+			const id = this.attribute(match[0], "Id");
+			const target = this.attribute(match[0], "Target");
+			if (id && target) targets.set(id, target);
+		}
+
+		const sheets: { name: string; path: string }[] = [];
+		for (const match of workbook.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+			const name = this.attribute(match[0], "name") ?? "";
+			const target = targets.get(this.attribute(match[0], "r:id") ?? "");
+			if (!target) continue;
+
+			// Cible relative à xl/, ou absolue depuis la racine de l'archive
+			const path = target.startsWith("/")
+				? target.slice(1)
+				: `xl/${target.replace(/^\.\//, "")}`;
+			sheets.push({ name: this.decode(name), path });
+		}
+
+		return sheets;
+	}
+
+	/**
+	 * Feuille désignée par son nom (sans casse) ou son numéro
+	 */
+	private findSheet(
+		sheets: { name: string; path: string }[],
+		sheet: string,
+	): { name: string; path: string } | undefined {
+		const byName = sheets.find(
+			(candidate) =>
+				candidate.name.trim().toLowerCase() === sheet.trim().toLowerCase(),
+		);
+		if (byName || !/^\d+$/.test(sheet.trim())) return byName;
+
+		return sheets[Number(sheet) - 1];
+	}
+
+	/**
+	 * Table des textes partagés (cellules de type "s")
+	 */
+	private readSharedStrings(xml: string | null): string[] {
+		if (!xml) return [];
+
+		return [...xml.matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g)].map(
+			(match) => this.text(match[1]),
+		);
+	}
+
+	/**
+	 * Index des styles de cellule (attribut s) dont le format est une date
+	 */
+	private readDateStyles(xml: string | null): Set<number> {
+		const styles = new Set<number>();
+		if (!xml) return styles;
+
+		// Formats personnalisés : une date contient j/m/a ou h/m/s hors texte littéral
+		const customDateFormats = new Set<number>();
+		for (const match of xml.matchAll(/<(?:\w+:)?numFmt\b[^>]*>/g)) {
+			const id = Number(this.attribute(match[0], "numFmtId"));
+			const code = this.decode(this.attribute(match[0], "formatCode") ?? "")
+				.replace(/"[^"]*"/g, "")
+				.replace(/\\./g, "")
+				.replace(/\[[^\]]*\]/g, "");
+			if (/[dmyhs]/i.test(code)) customDateFormats.add(id);
+		}
+
+		const cellXfs =
+			xml.match(
+				/<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/,
+			)?.[1] ?? "";
+		[...cellXfs.matchAll(/<(?:\w+:)?xf\b[^>]*>/g)].forEach((match, index) => {
+			const id = Number(this.attribute(match[0], "numFmtId") ?? 0);
+			if (
+				XlsxReader.BUILT_IN_DATE_FORMATS.has(id) ||
+				customDateFormats.has(id)
+			) {
+				styles.add(index);
+			}
+		});
+
+		return styles;
+	}
+
+	/**
+	 * Lit les lignes d'une feuille
+	 * Les lignes vides sont ignorées, comme dans un CSV
+	 */
+	private readRows(
+		xml: string,
+		sharedStrings: string[],
+		dateStyles: Set<number>,
+		date1904: boolean,
+	): XlsxCell[][] {
+		const rows: XlsxCell[][] = [];
+
+		const rowPattern =
+			/<(?:\w+:)?row\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+		const cellPattern =
+			/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+
+		for (const rowMatch of xml.matchAll(rowPattern)) {
+			const row: XlsxCell[] = [];
+
+			for (const cellMatch of (rowMatch[1] ?? "").matchAll(cellPattern)) {
+				const attributes = cellMatch[1];
+				const body = cellMatch[2] ?? "";
+
+				// Référence "C12" : les cellules vides ne sont pas écrites
+				const reference = this.attribute(attributes, "r");
+				const column = reference ? this.columnIndex(reference) : row.length;
+				while (row.length < column) row.push("");
+
+				row[column] = this.cellValue(
+					this.attribute(attributes, "t") ?? "n",
+					body,
+					sharedStrings,
+					dateStyles.has(Number(this.attribute(attributes, "s") ?? -1)),
+					date1904,
+				);
+			}
+
+			if (row.some((cell) => cell !== "")) {
+				rows.push(row);
+			}
+		}
+
+		return rows;
+	}
+
+	/**
+	 * Valeur d'une cellule selon son type
+	 */
+	private cellValue(
+		type: string,
+		body: string,
+		sharedStrings: string[],
+		isDate: boolean,
+		date1904: boolean,
+	): XlsxCell {
+		const value = body.match(/<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/)?.[1];
+
+		switch (type) {
+			case "s":
+				return sharedStrings[Number(value)] ?? "";
+			case "inlineStr":
+				return this.text(body);
+			case "str":
+			case "e":
+				return this.decode(value ?? "").trim();
+			case "b":
+				return value === "1" ? "TRUE" : "FALSE";
+			case "d":
+				// Date ISO 8601 (rare, écrite par certains outils)
+				return (value ?? "").slice(0, 10);
+		}
+
+		if (value === undefined || value === "") return "";
+
+		const number = Number(value);
+		if (Number.isNaN(number)) return value;
+
+		if (isDate) {
+			const date = DateUtils.fromExcelSerial(number, date1904);
+			return date?.toISODate() ?? number;
+		}
+
+		return number;
+	}
+
+	/**
+	 * Index de colonne (0 pour A) d'une référence "AB12"
+	 */
+	private columnIndex(reference: string): number {
+		const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "A";
+		let index = 0;
+		for (const letter of letters) {
+			index = index * 26 + (letter.charCodeAt(0) - 64);
+		}
+		return index - 1;
+	}
+
+	/**
+	 * Texte d'un élément riche : concaténation des <t>, hors annotations phonétiques
+	 */
+	private text(xml: string): string {
+		const withoutPhonetics = xml.replace(
+			/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g,
+			"",
+		);
+		return [
+			...withoutPhonetics.matchAll(
+				/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g,
+			),
+		]
+			.map((match) => this.decode(match[1]))
+			.join("");
+	}
+
+	/**
+	 * Valeur d'un attribut XML
+	 */
+	private attribute(tag: string, name: string): string | null {
+		const escaped = name.replace(":", "\\:");
+		const match = tag.match(new RegExp(`\\s${escaped}="([^"]*)"`));
+		return match ? match[1] : null;
+	}
+
+	/**
+	 * Décode les entités XML (nommées et numériques)
+	 */
+	private decode(value: string): string {
+		return value
+			.replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+				String.fromCodePoint(Number.parseInt(hex, 16)),
+			)
+			.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+			.replace(/&lt;/g, "<")
+			.replace(/&gt;/g, ">")
+			.replace(/&quot;/g, '"')
+			.replace(/&apos;/g, "'")
+			.replace(/&amp;/g, "&");
+	}
+
+	/**
+	 * Lit le répertoire central de l'archive ZIP
+	 */
+	private readZipEntries(data: Buffer): Map<string, ZipEntry> {
+		// Fin du répertoire central : dans les 22 + 65535 derniers octets
+		let end = -1;
+		for (
+			let offset = data.length - 22;
+			offset >= Math.max(0, data.length - 22 - 0xffff);
+			offset--
+		) {
+			if (data.readUInt32LE(offset) === 0x06054b50) {
+				end = offset;
+				break;
+			}
+		}
+		if (end < 0) {
+			throw new Error("Fichier XLSX invalide: archive illisible");
+		}
+
+		const entries = new Map<string, ZipEntry>();
+		const count = data.readUInt16LE(end + 10);
+		let offset = data.readUInt32LE(end + 16);
+
+		for (let i = 0; i < count; i++) {
+			if (
+				offset + 46 > data.length ||
+				data.readUInt32LE(offset) !== 0x02014b50
+			) {
+				throw new Error("Fichier XLSX invalide: archive corrompue");
+			}
+
+			const nameLength = data.readUInt16LE(offset + 28);
+			const extraLength = data.readUInt16LE(offset + 30);
+			const commentLength = data.readUInt16LE(offset + 32);
+			const name = data
+				.subarray(offset + 46, offset + 46 + nameLength)
+				.toString("utf-8");
+
+			entries.set(name, {
+				method: data.readUInt16LE(offset + 10),
+				compressedSize: data.readUInt32LE(offset + 20),
+				localHeaderOffset: data.readUInt32LE(offset + 42),
+			});
+
+			offset += 46 + nameLength + extraLength + commentLength;
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Extrait le contenu d'une entrée (stockée ou compressée en deflate)
+	 */
+	private extract(data: Buffer, entry: ZipEntry): Buffer {
+		const header = entry.localHeaderOffset;
+		if (data.readUInt32LE(header) !== 0x04034b50) {
+			throw new Error("Fichier XLSX invalide: archive corrompue");
+		}
+
+		const start =
+			header +
+			30 +
+			data.readUInt16LE(header + 26) +
+			data.readUInt16LE(header + 28);
+		const content = data.subarray(start, start + entry.compressedSize);
+
+		switch (entry.method) {
+			case 0:
+				return content;
+			case 8:
+				return inflateRawSync(content);
+			default:
+				throw new Error(
+					`Fichier XLSX invalide: compression non supportée (${entry.method})`,
+				);
+		}
+	}
+}
@@ -1,3 +1,4 @@
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
 import Account from "#models/account";
 import type { CreateAccountDto } from "#domain/types/index";
 
@@ -9,8 +10,11 @@ export default class AccountRepository {
 	/**
 	 * Trouve un compte par son ID
 	 */
-	async findById(id: number): Promise<Account | null> {
-		return Account.find(id);
+	async findById(
+		id: number,
+		trx?: TransactionClientContract,
+	): Promise<Account | null> {
+		return Account.find(id, { client: trx });
 	}
 
 	/**
@@ -34,6 +38,26 @@ export default class AccountRepository {
 		return Account.query().where("accountNumber", accountNumber).first();
 	}
 
+	/**
+	 * Trouve le compte lié à un compte Tink
+	 */
+	async findByExternalAccountId(
+		externalAccountId: string,
+	): Promise<Account | null> {
+		return Account.query()
+			.where("externalAccountId", externalAccountId)
+			.first();
+	}
+
+	/**
+	 * Récupère les comptes liés à des connexions bancaires
+	 */
+	async findByBankConnectionIds(
+		bankConnectionIds: number[],
+	): Promise<Account[]> {
+		return Account.query().whereIn("bankConnectionId", bankConnectionIds);
+	}
+
 	/**
 	 * Trouve un compte par nom
 	 */
@@ -69,6 +93,7 @@ export default class AccountRepository {
 			isDefault: boolean;
 			initialBalance: number;
 			balance: number;
+			lowBalanceThreshold: number | null;
 		}>,
 	): Promise<Account | null> {
 		const account = await this.findById(id);
@@ -112,8 +137,11 @@ export default class AccountRepository {
 	/**
 	 * Réinitialise un compte à son état initial
 	 */
-	async resetToInitialState(id: number): Promise<Account | null> {
-		const account = await this.findById(id);
+	async resetToInitialState(
+		id: number,
+		trx?: TransactionClientContract,
+	): Promise<Account | null> {
+		const account = await this.findById(id, trx);
 		if (!account) return null;
 
 		const initialBalance = parseFloat(String(account.initialBalance)) || 0;
@@ -122,6 +150,8 @@ export default class AccountRepository {
 		account.bank = null;
 		account.accountNumber = null;
 		account.name = "Compte Principal";
+		account.externalAccountId = null;
+		account.bankConnectionId = null;
 
 		await account.save();
 
@@ -157,6 +187,24 @@ export default class AccountRepository {
 		return account;
 	}
 
+	/**
+	 * Lie un compte à un compte Tink d'une connexion bancaire
+	 */
+	async linkExternalAccount(
+		id: number,
+		externalAccountId: string,
+		bankConnectionId: number,
+	): Promise<Account | null> {
+		const account = await this.findById(id);
+		if (!account) return null;
+
+		account.externalAccountId = externalAccountId;
+		account.bankConnectionId = bankConnectionId;
+		await account.save();
+
+		return account;
+	}
+
 	/**
 	 * Met à jour les informations bancaires (depuis Tink)
 	 */
@@ -168,8 +216,9 @@ export default class AccountRepository {
 			accountNumber?: string | null;
 			currency?: string;
 		},
+		trx?: TransactionClientContract,
 	): Promise<Account | null> {
-		const account = await this.findById(id);
+		const account = await this.findById(id, trx);
 		if (!account) return null;
 
 		if (data.name) account.name = data.name;
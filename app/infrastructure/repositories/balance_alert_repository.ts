@@ -0,0 +1,78 @@
+import BalanceAlert from "#models/balance_alert";
+import type { BalanceAlertStatus, ForecastItem } from "#domain/types/index";
+import { DateTime } from "luxon";
+
+/**
+ * Repository pour l'accès aux données des alertes de solde
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class BalanceAlertRepository {
+	/**
+	 * Trouve une alerte par son ID
+	 */
+	async findById(id: number): Promise<BalanceAlert | null> {
+		return BalanceAlert.find(id);
+	}
+
+	/**
+	 * Récupère les alertes d'un compte
+	 */
+	async findByAccountId(
+		accountId: number,
+		options?: { statuses?: BalanceAlertStatus[] },
+	): Promise<BalanceAlert[]> {
+		const query = BalanceAlert.query()
+			.where("accountId", accountId)
+			.orderBy("alertDate", "asc")
+			.orderBy("id", "asc");
+
+		if (options?.statuses) {
+			query.whereIn("status", options.statuses);
+		}
+
+		return query;
+	}
+
+	/**
+	 * Crée une nouvelle alerte
+	 */
+	async create(data: {
+		accountId: number;
+		threshold: number;
+		alertDate: DateTime;
+		projectedBalance: number;
+		lowestDate: DateTime;
+		lowestBalance: number;
+		causes: ForecastItem[];
+	}): Promise<BalanceAlert> {
+		return BalanceAlert.create({
+			...data,
+			status: "active",
+		});
+	}
+
+	/**
+	 * Met à jour une alerte
+	 */
+	async update(
+		id: number,
+		data: Partial<{
+			alertDate: DateTime;
+			projectedBalance: number;
+			lowestDate: DateTime;
+			lowestBalance: number;
+			causes: ForecastItem[];
+			status: BalanceAlertStatus;
+			acknowledgedAt: DateTime | null;
+			resolvedAt: DateTime | null;
+		}>,
+	): Promise<BalanceAlert | null> {
+		const alert = await this.findById(id);
+		if (!alert) return null;
+
+		alert.merge(data);
+		await alert.save();
+
+		return alert;
+	}
+}
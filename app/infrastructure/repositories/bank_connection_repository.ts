@@ -0,0 +1,151 @@
+import { DateTime } from "luxon";
+import BankConnection from "#models/bank_connection";
+import type {
+	BankConnectionStatus,
+	BankProvider,
+	TinkAccountData,
+} from "#domain/types/index";
+
+/**
+ * Repository pour les connexions bancaires (tokens chiffrés par le modèle)
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class BankConnectionRepository {
+	/**
+	 * Récupère toutes les connexions, les plus récentes en premier
+	 */
+	async findAll(): Promise<BankConnection[]> {
+		return BankConnection.query().orderBy("createdAt", "desc");
+	}
+
+	/**
+	 * Trouve une connexion par son ID
+	 */
+	async findById(id: number): Promise<BankConnection | null> {
+		return BankConnection.find(id);
+	}
+
+	/**
+	 * Récupère les connexions synchronisables (actives ou en erreur, consentement
+	 * en cours), les plus anciennes en premier
+	 */
+	async findAllSyncable(): Promise<BankConnection[]> {
+		return this.syncableQuery().orderBy("createdAt", "asc");
+	}
+
+	/**
+	 * Trouve la connexion synchronisable la plus récente
+	 */
+	async findLatestSyncable(): Promise<BankConnection | null> {
+		return this.syncableQuery().orderBy("createdAt", "desc").first();
+	}
+
+	/**
+	 * Enregistre une nouvelle connexion
+	 */
+	async create(data: {
+		provider: BankProvider;
+		accessToken: string;
+		refreshToken: string | null;
+		tokenExpiresAt: DateTime;
+		consentExpiresAt: DateTime | null;
+		accounts: TinkAccountData[];
+	}): Promise<BankConnection> {
+		return BankConnection.create({
+			...data,
+			status: "active",
+		});
+	}
+
+	/**
+	 * Remplace les tokens après un renouvellement
+	 */
+	async updateTokens(
+		id: number,
+		data: {
+			accessToken: string;
+			refreshToken: string | null;
+			tokenExpiresAt: DateTime;
+		},
+	): Promise<BankConnection | null> {
+		const connection = await this.findById(id);
+		if (!connection) return null;
+
+		connection.merge(data);
+		await connection.save();
+		return connection;
+	}
+
+	/**
+	 * Enregistre une synchronisation réussie, les comptes à jour et le point de reprise
+	 */
+	async markSynced(
+		id: number,
+		accounts: TinkAccountData[],
+		bookedUntil: DateTime | null,
+	): Promise<BankConnection | null> {
+		const connection = await this.findById(id);
+		if (!connection) return null;
+
+		connection.status = "active";
+		connection.accounts = accounts;
+		connection.lastSyncedAt = DateTime.now();
+		connection.errorMessage = null;
+		if (bookedUntil) {
+			connection.bookedUntil = bookedUntil;
+		}
+
+		await connection.save();
+		return connection;
+	}
+
+	/**
+	 * Change le statut d'une connexion (expirée, en erreur)
+	 */
+	async updateStatus(
+		id: number,
+		status: BankConnectionStatus,
+		errorMessage: string | null = null,
+	): Promise<BankConnection | null> {
+		const connection = await this.findById(id);
+		if (!connection) return null;
+
+		connection.status = status;
+		connection.errorMessage = errorMessage;
+
+		await connection.save();
+		return connection;
+	}
+
+	/**
+	 * Supprime une connexion et ses tokens
+	 */
+	async delete(id: number): Promise<boolean> {
+		const connection = await this.findById(id);
+		if (!connection) return false;
+
+		await connection.delete();
+		return true;
+	}
+
+	/**
+	 * Supprime toutes les connexions
+	 */
+	async deleteAll(): Promise<number> {
+		const result = await BankConnection.query().delete();
+		return Array.isArray(result) ? result.length : result;
+	}
+
+	/**
+	 * Connexions non expirées dont le consentement n'est pas dépassé
+	 */
+	private syncableQuery() {
+		return BankConnection.query()
+			.whereNot("status", "expired")
+			.where((query) => {
+				query
+					.whereNull("consentExpiresAt")
+					.orWhere("consentExpiresAt", ">", DateTime.now().toSQL()!);
+			});
+	}
+}
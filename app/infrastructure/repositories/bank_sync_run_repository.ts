@@ -0,0 +1,100 @@
+import { DateTime } from "luxon";
+import BankSyncRun from "#models/bank_sync_run";
+import type {
+	BankAccountSyncResult,
+	BankSyncTrigger,
+} from "#domain/types/index";
+
+/**
+ * Repository pour le journal des synchronisations bancaires
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class BankSyncRunRepository {
+	/**
+	 * Récupère les dernières synchronisations, éventuellement d'une seule connexion
+	 */
+	async findRecent(
+		limit: number,
+		bankConnectionId?: number,
+	): Promise<BankSyncRun[]> {
+		const query = BankSyncRun.query().orderBy("startedAt", "desc").limit(limit);
+		if (bankConnectionId !== undefined) {
+			query.where("bankConnectionId", bankConnectionId);
+		}
+		return query;
+	}
+
+	/**
+	 * Ouvre une entrée de journal au démarrage d'une synchronisation
+	 */
+	async start(
+		bankConnectionId: number,
+		trigger: BankSyncTrigger,
+	): Promise<BankSyncRun> {
+		return BankSyncRun.create({
+			bankConnectionId,
+			trigger,
+			status: "running",
+			transactionsFetched: 0,
+			rowsImported: 0,
+			rowsSkipped: 0,
+			startedAt: DateTime.now(),
+		});
+	}
+
+	/**
+	 * Enregistre les compteurs d'une synchronisation réussie
+	 */
+	async markCompleted(
+		id: number,
+		accounts: BankAccountSyncResult[],
+	): Promise<BankSyncRun | null> {
+		const run = await BankSyncRun.find(id);
+		if (!run) return null;
+
+		run.merge({
+			...this.totals(accounts),
+			accounts,
+			status: "completed",
+			finishedAt: DateTime.now(),
+		});
+		await run.save();
+		return run;
+	}
+
+	/**
+	 * Enregistre l'échec d'une synchronisation
+	 * Les comptes synchronisés avant l'erreur restent comptabilisés
+	 */
+	async markFailed(
+		id: number,
+		errorMessage: string,
+		accounts: BankAccountSyncResult[] = [],
+	): Promise<BankSyncRun | null> {
+		const run = await BankSyncRun.find(id);
+		if (!run) return null;
+
+		run.merge({ ...this.totals(accounts), accounts });
+		run.status = "failed";
+		run.errorMessage = errorMessage;
+		run.finishedAt = DateTime.now();
+
+		await run.save();
+		return run;
+	}
+
+	/**
+	 * Compteurs cumulés des comptes synchronisés
+	 */
+	private totals(accounts: BankAccountSyncResult[]): {
+		transactionsFetched: number;
+		rowsImported: number;
+		rowsSkipped: number;
+	} {
+		return {
+			transactionsFetched: accounts.reduce((sum, a) => sum + a.fetched, 0),
+			rowsImported: accounts.reduce((sum, a) => sum + a.imported, 0),
+			rowsSkipped: accounts.reduce((sum, a) => sum + a.skipped, 0),
+		};
+	}
+}
@@ -0,0 +1,70 @@
+import CsvImportTemplate from "#models/csv_import_template";
+import type { CsvColumnMapping } from "#domain/types/index";
+
+/**
+ * Repository pour l'accès aux modèles d'import CSV
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class CsvImportTemplateRepository {
+	/**
+	 * Trouve un modèle par son ID
+	 */
+	async findById(id: number): Promise<CsvImportTemplate | null> {
+		return CsvImportTemplate.find(id);
+	}
+
+	/**
+	 * Récupère tous les modèles
+	 */
+	async findAll(): Promise<CsvImportTemplate[]> {
+		return CsvImportTemplate.query().orderBy("name", "asc");
+	}
+
+	/**
+	 * Crée un modèle
+	 */
+	async create(data: {
+		name: string;
+		delimiter: string;
+		headerOffset: number;
+		dateFormat: string;
+		decimalSeparator: "," | ".";
+		mapping: CsvColumnMapping;
+	}): Promise<CsvImportTemplate> {
+		return CsvImportTemplate.create(data);
+	}
+
+	/**
+	 * Met à jour un modèle
+	 */
+	async update(
+		id: number,
+		data: Partial<{
+			name: string;
+			delimiter: string;
+			headerOffset: number;
+			dateFormat: string;
+			decimalSeparator: "," | ".";
+			mapping: CsvColumnMapping;
+		}>,
+	): Promise<CsvImportTemplate | null> {
+		const template = await this.findById(id);
+		if (!template) return null;
+
+		template.merge(data);
+		await template.save();
+
+		return template;
+	}
+
+	/**
+	 * Supprime un modèle
+	 */
+	async delete(id: number): Promise<boolean> {
+		const template = await this.findById(id);
+		if (!template) return false;
+
+		await template.delete();
+		return true;
+	}
+}
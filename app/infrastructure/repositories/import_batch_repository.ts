@@ -1,3 +1,5 @@
+import { DateTime } from "luxon";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
 import ImportBatch from "#models/import_batch";
 import type { ImportStatus, CreateImportBatchDto } from "#domain/types/index";
 
@@ -36,9 +38,12 @@ export default class ImportBatchRepository {
 		return ImportBatch.create({
 			accountId: data.accountId,
 			filename: data.filename,
+			source: data.source ?? null,
 			status: data.status ?? "pending",
 			rowsImported: 0,
 			rowsSkipped: 0,
+			rowsTotal: data.rowsTotal ?? 0,
+			rowsProcessed: 0,
 		});
 	}
 
@@ -80,6 +85,20 @@ export default class ImportBatchRepository {
 		return batch;
 	}
 
+	/**
+	 * Met à jour la progression d'un batch en cours de traitement
+	 */
+	async updateProgress(
+		id: number,
+		progress: { processed: number; imported: number; skipped: number },
+	): Promise<void> {
+		await ImportBatch.query().where("id", id).update({
+			rowsProcessed: progress.processed,
+			rowsImported: progress.imported,
+			rowsSkipped: progress.skipped,
+		});
+	}
+
 	/**
 	 * Marque un batch comme terminé
 	 */
@@ -87,13 +106,15 @@ export default class ImportBatchRepository {
 		id: number,
 		imported: number,
 		skipped: number,
+		trx?: TransactionClientContract,
 	): Promise<ImportBatch | null> {
-		const batch = await this.findById(id);
+		const batch = await ImportBatch.find(id, { client: trx });
 		if (!batch) return null;
 
 		batch.status = "completed";
 		batch.rowsImported = imported;
 		batch.rowsSkipped = skipped;
+		batch.rowsProcessed = batch.rowsTotal;
 
 		await batch.save();
 		return batch;
@@ -109,8 +130,27 @@ export default class ImportBatchRepository {
 		const batch = await this.findById(id);
 		if (!batch) return null;
 
+		// La transaction d'import est annulée : aucune ligne n'est conservée
 		batch.status = "failed";
 		batch.errorMessage = errorMessage;
+		batch.rowsImported = 0;
+
+		await batch.save();
+		return batch;
+	}
+
+	/**
+	 * Marque un batch comme annulé (ses transactions ont été supprimées)
+	 */
+	async markRolledBack(
+		id: number,
+		trx?: TransactionClientContract,
+	): Promise<ImportBatch | null> {
+		const batch = await ImportBatch.find(id, { client: trx });
+		if (!batch) return null;
+
+		batch.status = "rolled_back";
+		batch.rolledBackAt = DateTime.now();
 
 		await batch.save();
 		return batch;
@@ -130,8 +170,11 @@ export default class ImportBatchRepository {
 	/**
 	 * Supprime tous les batches d'un compte
 	 */
-	async deleteByAccountId(accountId: number): Promise<number> {
-		const result = await ImportBatch.query()
+	async deleteByAccountId(
+		accountId: number,
+		trx?: TransactionClientContract,
+	): Promise<number> {
+		const result = await ImportBatch.query({ client: trx })
 			.where("accountId", accountId)
 			.delete();
 		return Array.isArray(result) ? result.length : result;
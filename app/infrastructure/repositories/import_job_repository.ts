@@ -0,0 +1,112 @@
+import { DateTime } from "luxon";
+import db from "@adonisjs/lucid/services/db";
+import ImportJob from "#models/import_job";
+import type { ImportJobPayload, ImportResult } from "#domain/types/index";
+
+/**
+ * Repository pour la file des jobs d'import (stockée en base)
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class ImportJobRepository {
+	/**
+	 * Trouve un job par son ID
+	 */
+	async findById(id: number): Promise<ImportJob | null> {
+		return ImportJob.find(id);
+	}
+
+	/**
+	 * Trouve le dernier job d'un batch d'import
+	 */
+	async findByImportBatchId(batchId: number): Promise<ImportJob | null> {
+		return ImportJob.query()
+			.where("importBatchId", batchId)
+			.orderBy("id", "desc")
+			.first();
+	}
+
+	/**
+	 * Ajoute un job en file d'attente
+	 */
+	async create(data: {
+		importBatchId: number;
+		payload: ImportJobPayload;
+	}): Promise<ImportJob> {
+		return ImportJob.create({
+			importBatchId: data.importBatchId,
+			payload: data.payload,
+			status: "pending",
+			attempts: 0,
+		});
+	}
+
+	/**
+	 * Réserve le plus ancien job en attente et le passe en cours de traitement
+	 * Le verrou SKIP LOCKED évite que deux workers prennent le même job
+	 */
+	async claimNext(): Promise<ImportJob | null> {
+		return db.transaction(async (trx) => {
+			const job = await ImportJob.query({ client: trx })
+				.where("status", "pending")
+				.orderBy("id", "asc")
+				.forUpdate()
+				.skipLocked()
+				.first();
+			if (!job) return null;
+
+			job.status = "processing";
+			job.attempts += 1;
+			job.startedAt = DateTime.now();
+
+			await job.save();
+			return job;
+		});
+	}
+
+	/**
+	 * Marque un job comme terminé et libère son contenu
+	 */
+	async markCompleted(
+		id: number,
+		result: ImportResult,
+	): Promise<ImportJob | null> {
+		const job = await this.findById(id);
+		if (!job) return null;
+
+		job.status = "completed";
+		job.result = result;
+		job.payload = null;
+		job.finishedAt = DateTime.now();
+
+		await job.save();
+		return job;
+	}
+
+	/**
+	 * Marque un job comme échoué
+	 */
+	async markFailed(
+		id: number,
+		errorMessage: string,
+	): Promise<ImportJob | null> {
+		const job = await this.findById(id);
+		if (!job) return null;
+
+		job.status = "failed";
+		job.errorMessage = errorMessage;
+		job.finishedAt = DateTime.now();
+
+		await job.save();
+		return job;
+	}
+
+	/**
+	 * Remet en attente les jobs interrompus (arrêt du serveur pendant un import)
+	 */
+	async requeueProcessing(): Promise<number> {
+		const result = await ImportJob.query()
+			.where("status", "processing")
+			.update({ status: "pending" });
+		return Array.isArray(result) ? result.length : result;
+	}
+}
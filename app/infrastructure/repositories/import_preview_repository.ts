@@ -0,0 +1,56 @@
+import { DateTime } from "luxon";
+import ImportPreview from "#models/import_preview";
+import type { ImportPreviewRow } from "#domain/types/index";
+
+/**
+ * Repository pour l'accès aux aperçus d'import en attente de confirmation
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class ImportPreviewRepository {
+	/**
+	 * Trouve un aperçu non expiré par son jeton
+	 */
+	async findByToken(token: string): Promise<ImportPreview | null> {
+		return ImportPreview.query()
+			.where("token", token)
+			.where("expiresAt", ">", DateTime.now().toSQL()!)
+			.first();
+	}
+
+	/**
+	 * Crée un aperçu
+	 */
+	async create(data: {
+		token: string;
+		accountId: number;
+		filename: string;
+		profile: string | null;
+		rows: ImportPreviewRow[];
+		closingBalance: number | null;
+		closingBalanceDate: DateTime | null;
+		expiresAt: DateTime;
+	}): Promise<ImportPreview> {
+		return ImportPreview.create(data);
+	}
+
+	/**
+	 * Supprime un aperçu
+	 */
+	async delete(id: number): Promise<boolean> {
+		const preview = await ImportPreview.find(id);
+		if (!preview) return false;
+
+		await preview.delete();
+		return true;
+	}
+
+	/**
+	 * Supprime les aperçus expirés
+	 */
+	async deleteExpired(): Promise<number> {
+		const result = await ImportPreview.query()
+			.where("expiresAt", "<=", DateTime.now().toSQL()!)
+			.delete();
+		return Array.isArray(result) ? result.length : result;
+	}
+}
@@ -0,0 +1,179 @@
+import PlannedTransaction from "#models/planned_transaction";
+import PlannedTransactionRealization from "#models/planned_transaction_realization";
+import type {
+	PlannedTransactionStatus,
+	RecurrencePeriod,
+	TransactionType,
+} from "#domain/types/index";
+import { DateTime } from "luxon";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
+
+/**
+ * Repository pour l'accès aux données des transactions planifiées
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class PlannedTransactionRepository {
+	/**
+	 * Trouve une transaction planifiée par son ID
+	 */
+	async findById(
+		id: number,
+		trx?: TransactionClientContract,
+	): Promise<PlannedTransaction | null> {
+		return PlannedTransaction.find(id, { client: trx });
+	}
+
+	/**
+	 * Récupère les transactions planifiées d'un compte
+	 */
+	async findByAccountId(
+		accountId: number,
+		options?: { status?: PlannedTransactionStatus },
+	): Promise<PlannedTransaction[]> {
+		const query = PlannedTransaction.query()
+			.where("accountId", accountId)
+			.orderBy("dueDate", "asc")
+			.orderBy("id", "asc");
+
+		if (options?.status) {
+			query.where("status", options.status);
+		}
+
+		return query;
+	}
+
+	/**
+	 * Crée une transaction planifiée
+	 */
+	async create(data: {
+		accountId: number;
+		label: string;
+		amount: number;
+		type: TransactionType;
+		dueDate: DateTime;
+		period?: RecurrencePeriod | null;
+		interval?: number;
+		endDate?: DateTime | null;
+		category?: string | null;
+	}): Promise<PlannedTransaction> {
+		return PlannedTransaction.create({
+			accountId: data.accountId,
+			label: data.label,
+			amount: data.amount,
+			type: data.type,
+			dueDate: data.dueDate,
+			period: data.period ?? null,
+			interval: data.interval ?? 1,
+			endDate: data.endDate ?? null,
+			category: data.category ?? null,
+			status: "pending",
+		});
+	}
+
+	/**
+	 * Met à jour une transaction planifiée
+	 */
+	async update(
+		id: number,
+		data: Partial<{
+			label: string;
+			amount: number;
+			type: TransactionType;
+			dueDate: DateTime;
+			period: RecurrencePeriod | null;
+			interval: number;
+			endDate: DateTime | null;
+			category: string | null;
+			status: PlannedTransactionStatus;
+			realizedTransactionId: number | null;
+		}>,
+		trx?: TransactionClientContract,
+	): Promise<PlannedTransaction | null> {
+		const planned = await this.findById(id, trx);
+		if (!planned) return null;
+
+		planned.merge(data);
+		await planned.save();
+
+		return planned;
+	}
+
+	/**
+	 * Rattache à une autre transaction les échéances réalisées par une transaction
+	 */
+	async reassignRealizedTransaction(
+		fromTransactionId: number,
+		toTransactionId: number,
+		trx?: TransactionClientContract,
+	): Promise<void> {
+		await PlannedTransaction.query({ client: trx })
+			.where("realizedTransactionId", fromTransactionId)
+			.update({ realizedTransactionId: toTransactionId });
+		await PlannedTransactionRealization.query({ client: trx })
+			.where("transactionId", fromTransactionId)
+			.update({ transactionId: toTransactionId });
+	}
+
+	/**
+	 * Journalise l'échéance couverte par une transaction réelle
+	 */
+	async recordRealization(data: {
+		plannedTransactionId: number;
+		transactionId: number;
+		dueDate: DateTime;
+	}): Promise<PlannedTransactionRealization> {
+		return PlannedTransactionRealization.create(data);
+	}
+
+	/**
+	 * Récupère les échéances réalisées par des transactions
+	 */
+	async findRealizationsByTransactionIds(
+		transactionIds: number[],
+		trx?: TransactionClientContract,
+	): Promise<PlannedTransactionRealization[]> {
+		if (transactionIds.length === 0) return [];
+		return PlannedTransactionRealization.query({ client: trx }).whereIn(
+			"transactionId",
+			transactionIds,
+		);
+	}
+
+	/**
+	 * Dernière échéance réalisée d'une transaction planifiée
+	 */
+	async findLatestRealization(
+		plannedTransactionId: number,
+		trx?: TransactionClientContract,
+	): Promise<PlannedTransactionRealization | null> {
+		return PlannedTransactionRealization.query({ client: trx })
+			.where("plannedTransactionId", plannedTransactionId)
+			.orderBy("dueDate", "desc")
+			.orderBy("id", "desc")
+			.first();
+	}
+
+	/**
+	 * Supprime les échéances réalisées par des transactions
+	 */
+	async deleteRealizationsByTransactionIds(
+		transactionIds: number[],
+		trx?: TransactionClientContract,
+	): Promise<void> {
+		if (transactionIds.length === 0) return;
+		await PlannedTransactionRealization.query({ client: trx })
+			.whereIn("transactionId", transactionIds)
+			.delete();
+	}
+
+	/**
+	 * Supprime une transaction planifiée
+	 */
+	async delete(id: number): Promise<boolean> {
+		const planned = await this.findById(id);
+		if (!planned) return false;
+
+		await planned.delete();
+		return true;
+	}
+}
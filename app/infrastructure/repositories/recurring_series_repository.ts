@@ -0,0 +1,132 @@
+import RecurringSeries from "#models/recurring_series";
+import Transaction from "#models/transaction";
+import type {
+	RecurrencePeriod,
+	RecurringSeriesStatus,
+	TransactionType,
+} from "#domain/types/index";
+import { DateTime } from "luxon";
+
+/**
+ * Repository pour l'accès aux données des séries récurrentes
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class RecurringSeriesRepository {
+	/**
+	 * Trouve une série par son ID
+	 */
+	async findById(id: number): Promise<RecurringSeries | null> {
+		return RecurringSeries.find(id);
+	}
+
+	/**
+	 * Récupère les séries d'un compte
+	 */
+	async findByAccountId(
+		accountId: number,
+		options?: { statuses?: RecurringSeriesStatus[] },
+	): Promise<RecurringSeries[]> {
+		const query = RecurringSeries.query()
+			.where("accountId", accountId)
+			.orderBy("nextExpectedDate", "asc");
+
+		if (options?.statuses) {
+			query.whereIn("status", options.statuses);
+		}
+
+		return query;
+	}
+
+	/**
+	 * Récupère les séries d'un compte pour un libellé normalisé
+	 */
+	async findByMerchantKey(
+		accountId: number,
+		merchantKey: string,
+		type: TransactionType,
+	): Promise<RecurringSeries[]> {
+		return RecurringSeries.query()
+			.where("accountId", accountId)
+			.where("merchantKey", merchantKey)
+			.where("type", type);
+	}
+
+	/**
+	 * Crée une nouvelle série
+	 */
+	async create(data: {
+		accountId: number;
+		merchantKey: string;
+		label: string;
+		type: TransactionType;
+		amount: number;
+		period: RecurrencePeriod;
+		lastDate: DateTime;
+		nextExpectedDate: DateTime;
+		occurrences: number;
+		category?: string | null;
+		status?: RecurringSeriesStatus;
+	}): Promise<RecurringSeries> {
+		return RecurringSeries.create({
+			accountId: data.accountId,
+			merchantKey: data.merchantKey,
+			label: data.label,
+			type: data.type,
+			amount: data.amount,
+			period: data.period,
+			lastDate: data.lastDate,
+			nextExpectedDate: data.nextExpectedDate,
+			occurrences: data.occurrences,
+			category: data.category ?? null,
+			status: data.status ?? "detected",
+		});
+	}
+
+	/**
+	 * Met à jour une série
+	 */
+	async update(
+		id: number,
+		data: Partial<{
+			label: string;
+			amount: number;
+			period: RecurrencePeriod;
+			lastDate: DateTime;
+			nextExpectedDate: DateTime;
+			occurrences: number;
+			category: string | null;
+			status: RecurringSeriesStatus;
+		}>,
+	): Promise<RecurringSeries | null> {
+		const series = await this.findById(id);
+		if (!series) return null;
+
+		series.merge(data);
+		await series.save();
+
+		return series;
+	}
+
+	/**
+	 * Rattache des transactions à une série
+	 */
+	async linkTransactions(
+		seriesId: number,
+		transactionIds: number[],
+	): Promise<void> {
+		if (transactionIds.length === 0) return;
+
+		await Transaction.query()
+			.whereIn("id", transactionIds)
+			.update({ recurringSeriesId: seriesId });
+	}
+
+	/**
+	 * Détache toutes les transactions d'une série
+	 */
+	async unlinkTransactions(seriesId: number): Promise<void> {
+		await Transaction.query()
+			.where("recurringSeriesId", seriesId)
+			.update({ recurringSeriesId: null });
+	}
+}
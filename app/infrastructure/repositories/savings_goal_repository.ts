@@ -0,0 +1,82 @@
+import SavingsGoal from "#models/savings_goal";
+import { DateTime } from "luxon";
+
+/**
+ * Repository pour l'accès aux données des objectifs d'épargne
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class SavingsGoalRepository {
+	/**
+	 * Trouve un objectif par son ID
+	 */
+	async findById(id: number): Promise<SavingsGoal | null> {
+		return SavingsGoal.find(id);
+	}
+
+	/**
+	 * Récupère les objectifs d'un compte
+	 */
+	async findByAccountId(accountId: number): Promise<SavingsGoal[]> {
+		return SavingsGoal.query()
+			.where("accountId", accountId)
+			.orderBy("targetDate", "asc")
+			.orderBy("id", "asc");
+	}
+
+	/**
+	 * Crée un objectif
+	 */
+	async create(data: {
+		accountId: number;
+		name: string;
+		targetAmount: number;
+		targetDate: DateTime;
+		linkedAccountId?: number | null;
+		category?: string | null;
+		initialAmount?: number;
+	}): Promise<SavingsGoal> {
+		return SavingsGoal.create({
+			accountId: data.accountId,
+			name: data.name,
+			targetAmount: data.targetAmount,
+			targetDate: data.targetDate,
+			linkedAccountId: data.linkedAccountId ?? null,
+			category: data.category ?? null,
+			initialAmount: data.initialAmount ?? 0,
+		});
+	}
+
+	/**
+	 * Met à jour un objectif
+	 */
+	async update(
+		id: number,
+		data: Partial<{
+			name: string;
+			targetAmount: number;
+			targetDate: DateTime;
+			linkedAccountId: number | null;
+			category: string | null;
+			initialAmount: number;
+		}>,
+	): Promise<SavingsGoal | null> {
+		const goal = await this.findById(id);
+		if (!goal) return null;
+
+		goal.merge(data);
+		await goal.save();
+
+		return goal;
+	}
+
+	/**
+	 * Supprime un objectif
+	 */
+	async delete(id: number): Promise<boolean> {
+		const goal = await this.findById(id);
+		if (!goal) return false;
+
+		await goal.delete();
+		return true;
+	}
+}
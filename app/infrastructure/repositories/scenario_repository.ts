@@ -0,0 +1,100 @@
+import Scenario from "#models/scenario";
+import ScenarioAdjustment from "#models/scenario_adjustment";
+import type {
+	RecurrencePeriod,
+	ScenarioAdjustmentKind,
+	ScenarioTargetType,
+} from "#domain/types/index";
+import { DateTime } from "luxon";
+
+/**
+ * Ligne d'ajustement prête à être persistée
+ */
+export interface ScenarioAdjustmentRow {
+	kind: ScenarioAdjustmentKind;
+	targetType: ScenarioTargetType | null;
+	targetId: number | null;
+	label: string | null;
+	amount: number | null;
+	period: RecurrencePeriod | null;
+	factor: number | null;
+	startDate: DateTime | null;
+	endDate: DateTime | null;
+}
+
+/**
+ * Repository pour l'accès aux données des scénarios
+ * Couche technique - ne contient pas de logique métier
+ */
+export default class ScenarioRepository {
+	/**
+	 * Trouve un scénario par son ID (avec ses ajustements)
+	 */
+	async findById(id: number): Promise<Scenario | null> {
+		return Scenario.query().where("id", id).preload("adjustments").first();
+	}
+
+	/**
+	 * Récupère les scénarios d'un compte (avec leurs ajustements)
+	 */
+	async findByAccountId(accountId: number): Promise<Scenario[]> {
+		return Scenario.query()
+			.where("accountId", accountId)
+			.preload("adjustments")
+			.orderBy("createdAt", "asc");
+	}
+
+	/**
+	 * Crée un scénario et ses ajustements
+	 */
+	async create(data: {
+		accountId: number;
+		name: string;
+		description: string | null;
+		adjustments: ScenarioAdjustmentRow[];
+	}): Promise<Scenario> {
+		const scenario = await Scenario.create({
+			accountId: data.accountId,
+			name: data.name,
+			description: data.description,
+		});
+
+		await scenario.related("adjustments").createMany(data.adjustments);
+
+		return (await this.findById(scenario.id))!;
+	}
+
+	/**
+	 * Met à jour un scénario et remplace ses ajustements
+	 */
+	async update(
+		id: number,
+		data: {
+			name: string;
+			description: string | null;
+			adjustments: ScenarioAdjustmentRow[];
+		},
+	): Promise<Scenario | null> {
+		const scenario = await Scenario.find(id);
+		if (!scenario) return null;
+
+		scenario.merge({ name: data.name, description: data.description });
+		await scenario.save();
+
+		await ScenarioAdjustment.query().where("scenarioId", id).delete();
+		await scenario.related("adjustments").createMany(data.adjustments);
+
+		return this.findById(id);
+	}
+
+	/**
+	 * Supprime un scénario (les ajustements sont supprimés en cascade)
+	 */
+	async delete(id: number): Promise<boolean> {
+		const scenario = await Scenario.find(id);
+		if (!scenario) return false;
+
+		await scenario.delete();
+		return true;
+	}
+}
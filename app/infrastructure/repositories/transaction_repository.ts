@@ -1,9 +1,11 @@
+import db from "@adonisjs/lucid/services/db";
 import Transaction from "#models/transaction";
 import type {
 	TransactionType,
 	CreateTransactionDto,
 } from "#domain/types/index";
 import { DateTime } from "luxon";
+import type { TransactionClientContract } from "@adonisjs/lucid/types/database";
 
 /**
  * Repository pour l'accès aux données des transactions
@@ -13,15 +15,63 @@ export default class TransactionRepository {
 	/**
 	 * Trouve une transaction par son ID
 	 */
-	async findById(id: number): Promise<Transaction | null> {
-		return Transaction.find(id);
+	async findById(
+		id: number,
+		trx?: TransactionClientContract,
+	): Promise<Transaction | null> {
+		return Transaction.find(id, { client: trx });
+	}
+
+	/**
+	 * Trouve une transaction d'un compte par son hash (détection doublons)
+	 */
+	async findByHash(
+		accountId: number,
+		hash: string,
+	): Promise<Transaction | null> {
+		return Transaction.query()
+			.where("accountId", accountId)
+			.where("hash", hash)
+			.first();
+	}
+
+	/**
+	 * Trouve les transactions d'un compte correspondant à une liste de hashs
+	 */
+	async findByAccountHashes(
+		accountId: number,
+		hashes: string[],
+		trx?: TransactionClientContract,
+	): Promise<Transaction[]> {
+		if (hashes.length === 0) return [];
+		return Transaction.query({ client: trx })
+			.where("accountId", accountId)
+			.whereIn("hash", hashes);
 	}
 
 	/**
-	 * Trouve une transaction par son hash (détection doublons)
+	 * Trouve les transactions correspondant à une liste de hashs, tous comptes confondus
 	 */
-	async findByHash(hash: string): Promise<Transaction | null> {
-		return Transaction.query().where("hash", hash).first();
+	async findByHashes(
+		hashes: string[],
+		trx?: TransactionClientContract,
+	): Promise<Transaction[]> {
+		if (hashes.length === 0) return [];
+		return Transaction.query({ client: trx }).whereIn("hash", hashes);
+	}
+
+	/**
+	 * Trouve les transactions d'un compte par identifiant externe
+	 */
+	async findByExternalIds(
+		accountId: number,
+		externalIds: string[],
+		trx?: TransactionClientContract,
+	): Promise<Transaction[]> {
+		if (externalIds.length === 0) return [];
+		return Transaction.query({ client: trx })
+			.where("accountId", accountId)
+			.whereIn("externalId", externalIds);
 	}
 
 	/**
@@ -50,12 +100,42 @@ export default class TransactionRepository {
 	/**
 	 * Récupère les transactions d'un batch d'import
 	 */
-	async findByImportBatchId(batchId: number): Promise<Transaction[]> {
-		return Transaction.query()
+	async findByImportBatchId(
+		batchId: number,
+		trx?: TransactionClientContract,
+	): Promise<Transaction[]> {
+		return Transaction.query({ client: trx })
 			.where("importBatchId", batchId)
 			.orderBy("date", "desc");
 	}
 
+	/**
+	 * Récupère les transactions importées d'un compte (avec leur batch)
+	 */
+	async findImportedByAccountId(accountId: number): Promise<Transaction[]> {
+		return Transaction.query()
+			.where("accountId", accountId)
+			.whereNotNull("importBatchId")
+			.preload("importBatch")
+			.orderBy("id", "asc");
+	}
+
+	/**
+	 * Récupère les transactions catégorisées d'un compte pour des marchands donnés
+	 * Les plus récentes en premier
+	 */
+	async findCategorizedByMerchants(
+		accountId: number,
+		merchants: string[],
+	): Promise<Transaction[]> {
+		if (merchants.length === 0) return [];
+		return Transaction.query()
+			.where("accountId", accountId)
+			.whereIn("merchant", merchants)
+			.whereNotNull("category")
+			.orderBy("date", "desc");
+	}
+
 	/**
 	 * Récupère les transactions d'un compte pour un mois donné
 	 */
@@ -74,38 +154,107 @@ export default class TransactionRepository {
 			.orderBy("date", "desc");
 	}
 
+	/**
+	 * Récupère les transactions d'un compte entre deux dates (incluses)
+	 */
+	async findByAccountIdBetween(
+		accountId: number,
+		startDate: DateTime,
+		endDate: DateTime,
+	): Promise<Transaction[]> {
+		return Transaction.query()
+			.where("accountId", accountId)
+			.where("date", ">=", startDate.toSQLDate()!)
+			.where("date", "<=", endDate.toSQLDate()!)
+			.orderBy("date", "asc")
+			.orderBy("id", "asc");
+	}
+
 	/**
 	 * Crée une nouvelle transaction
 	 */
-	async create(data: {
-		accountId: number;
-		importBatchId?: number | null;
-		date: DateTime | Date;
-		label: string;
-		amount: number;
-		type: TransactionType;
-		merchant?: string | null;
-		category?: string | null;
-		paymentMethod?: string | null;
-		hash: string;
-	}): Promise<Transaction> {
+	async create(
+		data: {
+			accountId: number;
+			importBatchId?: number | null;
+			date: DateTime | Date;
+			label: string;
+			amount: number;
+			type: TransactionType;
+			merchant?: string | null;
+			category?: string | null;
+			paymentMethod?: string | null;
+			hash: string;
+			externalId?: string | null;
+		},
+		trx?: TransactionClientContract,
+	): Promise<Transaction> {
 		const dateTime =
 			data.date instanceof DateTime
 				? data.date
 				: DateTime.fromJSDate(data.date);
 
-		return Transaction.create({
-			accountId: data.accountId,
-			importBatchId: data.importBatchId ?? null,
-			date: dateTime,
-			label: data.label,
-			amount: data.amount,
-			type: data.type,
-			merchant: data.merchant ?? null,
-			category: data.category ?? null,
-			paymentMethod: data.paymentMethod ?? null,
-			hash: data.hash,
-		});
+		return Transaction.create(
+			{
+				accountId: data.accountId,
+				importBatchId: data.importBatchId ?? null,
+				date: dateTime,
+				label: data.label,
+				amount: data.amount,
+				type: data.type,
+				merchant: data.merchant ?? null,
+				category: data.category ?? null,
+				paymentMethod: data.paymentMethod ?? null,
+				hash: data.hash,
+				externalId: data.externalId ?? null,
+			},
+			{ client: trx },
+		);
+	}
+
+	/**
+	 * Insère plusieurs transactions en une seule requête (imports volumineux)
+	 *
+	 * @returns Le nombre de transactions insérées
+	 */
+	async createMany(
+		rows: Array<{
+			accountId: number;
+			importBatchId: number | null;
+			date: DateTime;
+			label: string;
+			amount: number;
+			type: TransactionType;
+			merchant: string | null;
+			category: string | null;
+			paymentMethod: string | null;
+			hash: string;
+			externalId: string | null;
+		}>,
+		trx?: TransactionClientContract,
+	): Promise<number> {
+		if (rows.length === 0) return 0;
+
+		const now = DateTime.now().toFormat("yyyy-MM-dd HH:mm:ss");
+		await (trx ?? db).table("transactions").multiInsert(
+			rows.map((row) => ({
+				account_id: row.accountId,
+				import_batch_id: row.importBatchId,
+				date: row.date.toSQLDate(),
+				label: row.label,
+				amount: row.amount,
+				type: row.type,
+				merchant: row.merchant,
+				category: row.category,
+				payment_method: row.paymentMethod,
+				hash: row.hash,
+				external_id: row.externalId,
+				created_at: now,
+				updated_at: now,
+			})),
+		);
+
+		return rows.length;
 	}
 
 	/**
@@ -120,9 +269,12 @@ export default class TransactionRepository {
 			merchant: string | null;
 			category: string | null;
 			paymentMethod: string | null;
+			hash: string;
+			recurringSeriesId: number | null;
 		}>,
+		trx?: TransactionClientContract,
 	): Promise<Transaction | null> {
-		const transaction = await this.findById(id);
+		const transaction = await this.findById(id, trx);
 		if (!transaction) return null;
 
 		transaction.merge(data);
@@ -134,8 +286,8 @@ export default class TransactionRepository {
 	/**
 	 * Supprime une transaction
 	 */
-	async delete(id: number): Promise<boolean> {
-		const transaction = await this.findById(id);
+	async delete(id: number, trx?: TransactionClientContract): Promise<boolean> {
+		const transaction = await this.findById(id, trx);
 		if (!transaction) return false;
 
 		await transaction.delete();
@@ -145,8 +297,11 @@ export default class TransactionRepository {
 	/**
 	 * Supprime toutes les transactions d'un compte
 	 */
-	async deleteByAccountId(accountId: number): Promise<number> {
-		const result = await Transaction.query()
+	async deleteByAccountId(
+		accountId: number,
+		trx?: TransactionClientContract,
+	): Promise<number> {
+		const result = await Transaction.query({ client: trx })
 			.where("accountId", accountId)
 			.delete();
 		return Array.isArray(result) ? result.length : result;
@@ -155,8 +310,11 @@ export default class TransactionRepository {
 	/**
 	 * Supprime toutes les transactions d'un batch
 	 */
-	async deleteByImportBatchId(batchId: number): Promise<number> {
-		const result = await Transaction.query()
+	async deleteByImportBatchId(
+		batchId: number,
+		trx?: TransactionClientContract,
+	): Promise<number> {
+		const result = await Transaction.query({ client: trx })
 			.where("importBatchId", batchId)
 			.delete();
 		return Array.isArray(result) ? result.length : result;
@@ -176,6 +334,34 @@ export default class TransactionRepository {
 		return typeof total === "string" ? parseFloat(total) : (total ?? 0);
 	}
 
+	/**
+	 * Calcule la somme signée des transactions jusqu'à une date incluse
+	 */
+	async sumUntil(accountId: number, date: DateTime): Promise<number> {
+		const result = await Transaction.query()
+			.where("accountId", accountId)
+			.where("date", "<=", date.toSQLDate()!)
+			.sum("amount as total")
+			.first();
+
+		const total = result?.$extras?.total;
+		return typeof total === "string" ? parseFloat(total) : (total ?? 0);
+	}
+
+	/**
+	 * Calcule la somme des transactions d'une catégorie
+	 */
+	async sumByCategory(accountId: number, category: string): Promise<number> {
+		const result = await Transaction.query()
+			.where("accountId", accountId)
+			.where("category", category)
+			.sum("amount as total")
+			.first();
+
+		const total = result?.$extras?.total;
+		return typeof total === "string" ? parseFloat(total) : (total ?? 0);
+	}
+
 	/**
 	 * Calcule la somme des transactions par type pour un mois donné
 	 */
@@ -213,6 +399,48 @@ export default class TransactionRepository {
 		return typeof total === "string" ? parseInt(total, 10) : (total ?? 0);
 	}
 
+	/**
+	 * Compte les transactions Tink d'un compte importées sans identifiant externe
+	 */
+	async countLegacyTinkByAccountId(accountId: number): Promise<number> {
+		const result = await Transaction.query()
+			.where("accountId", accountId)
+			.whereNull("externalId")
+			.whereHas("importBatch", (query) => {
+				query
+					.where("source", "tink")
+					.orWhere("filename", "like", "tink_sync_%");
+			})
+			.count("* as total")
+			.first();
+
+		const total = result?.$extras?.total;
+		return typeof total === "string" ? parseInt(total, 10) : (total ?? 0);
+	}
+
+	/**
+	 * Attribue son identifiant externe et son hash stable à une transaction déjà importée
+	 * (et éventuellement son compte)
+	 */
+	async assignExternalId(
+		id: number,
+		data: {
+			externalId: string;
+			hash: string;
+			accountId?: number;
+			recurringSeriesId?: number | null;
+		},
+		trx?: TransactionClientContract,
+	): Promise<Transaction | null> {
+		const transaction = await Transaction.find(id, { client: trx });
+		if (!transaction) return null;
+
+		transaction.merge(data);
+		await transaction.save();
+
+		return transaction;
+	}
+
 	/**
 	 * Vérifie si un hash existe déjà
 	 */
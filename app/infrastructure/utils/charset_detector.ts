@@ -0,0 +1,63 @@
+import type { DecodedFile, FileEncoding } from "#domain/types/index";
+
+/**
+ * Détection de l'encodage des fichiers importés
+ * Couche technique - les exports bancaires français sont souvent en
+ * Windows-1252 ou ISO-8859-1, parfois précédés d'un BOM
+ */
+export default class CharsetDetector {
+	/**
+	 * Marques d'ordre des octets (BOM) reconnues
+	 */
+	private static readonly BOMS: { bytes: number[]; encoding: FileEncoding }[] =
+		[
+			{ bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+			{ bytes: [0xff, 0xfe], encoding: "utf-16le" },
+			{ bytes: [0xfe, 0xff], encoding: "utf-16be" },
+		];
+
+	/**
+	 * Décode un fichier : BOM, sinon UTF-8 strict, sinon Windows-1252 / ISO-8859-1
+	 * Le BOM est retiré du contenu
+	 */
+	decode(data: Buffer): DecodedFile {
+		const bom = CharsetDetector.BOMS.find(({ bytes }) =>
+			bytes.every((byte, index) => data[index] === byte),
+		);
+		if (bom) {
+			return {
+				content: new TextDecoder(bom.encoding).decode(data),
+				encoding: bom.encoding,
+				bom: true,
+			};
+		}
+
+		try {
+			return {
+				content: new TextDecoder("utf-8", { fatal: true }).decode(data),
+				encoding: "utf-8",
+				bom: false,
+			};
+		} catch {
+			// Octets invalides en UTF-8 : encodage mono-octet
+		}
+
+		return {
+			// ISO-8859-1 coïncide avec Windows-1252 hors de la plage 0x80-0x9F
+			content: new TextDecoder("windows-1252").decode(data),
+			encoding: this.usesWindowsRange(data) ? "windows-1252" : "iso-8859-1",
+			bom: false,
+		};
+	}
+
+	/**
+	 * Présence d'octets 0x80-0x9F : caractères Windows-1252 (€, œ, ’...),
+	 * codes de contrôle inutilisés en ISO-8859-1
+	 */
+	private usesWindowsRange(data: Buffer): boolean {
+		return data.some((byte) => byte >= 0x80 && byte <= 0x9f);
+	}
+}
+
+// Export d'une instance singleton pour faciliter l'utilisation
+export const charsetDetector = new CharsetDetector();
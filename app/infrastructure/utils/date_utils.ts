@@ -43,6 +43,21 @@ export class DateUtils {
 		return null;
 	}
 
+	/**
+	 * Convertit un numéro de série Excel (jours depuis le 30/12/1899,
+	 * ou depuis le 01/01/1904 pour les classeurs Mac) en date
+	 * La partie décimale (heure) est ignorée
+	 */
+	static fromExcelSerial(serial: number, date1904 = false): DateTime | null {
+		if (!Number.isFinite(serial) || serial < 1) return null;
+
+		const epoch = date1904
+			? DateTime.fromObject({ year: 1904, month: 1, day: 1 })
+			: DateTime.fromObject({ year: 1899, month: 12, day: 30 });
+		const parsed = epoch.plus({ days: Math.floor(serial) });
+		return parsed.isValid ? parsed : null;
+	}
+
 	/**
 	 * Convertit une Date JS en DateTime Luxon
 	 */
@@ -25,25 +25,45 @@ export default class HashGenerator {
 	}
 
 	/**
-	 * Génère un hash pour une transaction importée (CSV)
-	 * Inclut l'index de ligne pour permettre les transactions identiques
+	 * Génère un hash pour une transaction importée depuis un fichier
+	 * Déterministe : l'occurrence (rang parmi les opérations identiques du fichier)
+	 * distingue les opérations jumelles d'un même jour sans dupliquer les ré-imports
+	 * Sans le compte : l'unicité et la détection des doublons sont propres à chaque compte
 	 */
 	forImportedTransaction(
 		date: Date | DateTime | string,
 		label: string,
 		amount: number,
-		rowIndex: number,
+		occurrence: number,
 	): string {
-		const dateStr = this.normalizeDate(date);
-		const timestamp = Date.now();
-		const random = Math.random().toString(36).substring(2, 10);
-		const data = `${dateStr}|${label}|${amount}|${rowIndex}|${timestamp}|${random}`;
+		const data = `${this.importKey(date, label, amount)}|${occurrence}`;
 		return this.generate(data);
 	}
 
 	/**
-	 * Génère un hash pour une transaction Tink
-	 * Déterministe pour éviter les doublons lors des re-syncs
+	 * Crée un générateur de hashs pour les opérations d'un même fichier
+	 * Chaque appel numérote l'opération parmi celles déjà vues avec la même clé
+	 */
+	forImportedFile(): (
+		date: Date | DateTime | string,
+		label: string,
+		amount: number,
+	) => string {
+		const occurrences = new Map<string, number>();
+
+		return (date, label, amount) => {
+			const key = this.importKey(date, label, amount);
+			const occurrence = occurrences.get(key) ?? 0;
+			occurrences.set(key, occurrence + 1);
+			return this.forImportedTransaction(date, label, amount, occurrence);
+		};
+	}
+
+	/**
+	 * Ancien hash des transactions Tink (date, montant, libellé, type)
+	 * Le libellé peut changer d'une synchronisation à l'autre et deux opérations
+	 * identiques d'un même jour entrent en collision : ne sert plus qu'à retrouver
+	 * les transactions importées avant le stockage de l'identifiant Tink
 	 */
 	forTinkTransaction(
 		date: string,
@@ -55,6 +75,19 @@ export default class HashGenerator {
 		return this.generate(data);
 	}
 
+	/**
+	 * Génère un hash pour une transaction portant un identifiant bancaire (FITID...)
+	 * Déterministe : un même relevé ré-importé ne crée pas de doublons
+	 */
+	forExternalTransaction(
+		source: string,
+		accountRef: string,
+		externalId: string,
+	): string {
+		const data = `${source}|${accountRef}|${externalId}`;
+		return this.generate(data);
+	}
+
 	/**
 	 * Génère un hash générique
 	 */
@@ -65,6 +98,19 @@ export default class HashGenerator {
 			.substring(0, HashGenerator.HASH_LENGTH);
 	}
 
+	/**
+	 * Clé d'une opération importée : date, libellé normalisé et montant
+	 * Les écarts d'espaces ou de casse entre deux exports ne créent pas de doublon
+	 */
+	private importKey(
+		date: Date | DateTime | string,
+		label: string,
+		amount: number,
+	): string {
+		const normalizedLabel = label.replace(/\s+/g, " ").trim().toUpperCase();
+		return `${this.normalizeDate(date)}|${normalizedLabel}|${amount.toFixed(2)}`;
+	}
+
 	/**
 	 * Normalise une date en string ISO
 	 */
@@ -77,7 +123,8 @@ export default class HashGenerator {
 			return date.toISODate() ?? date.toISO()!.split("T")[0];
 		}
 
-		return date.toISOString().split("T")[0];
+		// Date calendaire locale, comme les dates Luxon lues en base
+		return DateTime.fromJSDate(date).toISODate()!;
 	}
 }
 
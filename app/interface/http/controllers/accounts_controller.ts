@@ -23,6 +23,7 @@ export default class AccountsController {
 				bank: account.bank,
 				initialBalance: account.initialBalance || 0,
 				balance: account.balance,
+				lowBalanceThreshold: account.lowBalanceThreshold,
 			},
 		});
 	}
@@ -47,15 +48,20 @@ export default class AccountsController {
 					initialBalance: data.initialBalance,
 					name: data.name,
 					bank: data.bank,
+					lowBalanceThreshold: data.lowBalanceThreshold,
 				},
 			);
 
+			// Le seuil a pu changer : réévaluer les alertes de solde bas
+			await services.balanceAlertService.evaluate(updatedAccount.id);
+
 			return api.success(
 				{
 					account: {
 						id: updatedAccount.id,
 						initialBalance: updatedAccount.initialBalance,
 						balance: updatedAccount.balance,
+						lowBalanceThreshold: updatedAccount.lowBalanceThreshold,
 					},
 				},
 				"Paramètres mis à jour avec succès",
@@ -86,6 +92,9 @@ export default class AccountsController {
 			const stats = await services.accountService.getStats(account.id);
 			const monthlyStats = await services.accountService.getMonthlyStats(
 				account.id,
+				undefined,
+				undefined,
+				{ projection: true },
 			);
 
 			return api.success({
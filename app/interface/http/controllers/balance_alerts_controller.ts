@@ -0,0 +1,73 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+
+/**
+ * Controller pour les alertes de solde bas
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class BalanceAlertsController {
+	/**
+	 * Liste les alertes du compte
+	 * GET /api/alerts
+	 */
+	async index({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const includeAcknowledged =
+				request.input("includeAcknowledged") === "true";
+
+			const account = await services.accountService.getOrCreateDefault();
+			const alerts = await services.balanceAlertService.getByAccountId(
+				account.id,
+				includeAcknowledged,
+			);
+
+			return api.success({ alerts });
+		} catch (error) {
+			console.error("Erreur chargement alertes:", error);
+			return api.serverError("Erreur lors du chargement des alertes");
+		}
+	}
+
+	/**
+	 * Réévalue la prévision du compte et met à jour ses alertes
+	 * POST /api/alerts/evaluate
+	 */
+	async evaluate({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const account = await services.accountService.getOrCreateDefault();
+			const alert = await services.balanceAlertService.evaluate(account.id);
+
+			return api.success({ alert }, "Alertes mises à jour");
+		} catch (error) {
+			console.error("Erreur évaluation alertes:", error);
+			return api.serverError("Erreur lors de l'évaluation des alertes");
+		}
+	}
+
+	/**
+	 * Acquitte une alerte
+	 * POST /api/alerts/:id/acknowledge
+	 */
+	async acknowledge({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const alert = await services.balanceAlertService.acknowledge(params.id);
+
+			return api.success({ alert }, "Alerte acquittée");
+		} catch (error) {
+			console.error("Erreur acquittement alerte:", error);
+
+			if ((error as Error).message === "Alerte non trouvée") {
+				return api.notFound("Alerte non trouvée");
+			}
+
+			return api.serverError("Erreur lors de l'acquittement de l'alerte");
+		}
+	}
+}
@@ -84,7 +84,8 @@ export default class BankConnectionsController {
 	}
 
 	/**
-	 * Échange le code contre un token et importe les transactions
+	 * Échange le code contre un token, enregistre la connexion et importe les transactions
+	 * Le token reste côté serveur
 	 * POST /api/tink/token
 	 */
 	async exchangeToken({ request, response }: HttpContext) {
@@ -105,19 +106,14 @@ export default class BankConnectionsController {
 			);
 
 			return api.success({
-				accessToken: result.accessToken,
-				expiresIn: result.expiresIn,
+				connectionId: result.connectionId,
 				accounts: result.accounts,
-				import: result.importResult
-					? {
-							imported: result.importResult.imported,
-							skipped: result.importResult.skipped,
-							batchId: result.importResult.batchId,
-						}
-					: null,
-				message: result.importResult
-					? `${result.importResult.imported} transactions importées, ${result.importResult.skipped} ignorées`
-					: "Comptes connectés",
+				import: {
+					imported: result.imported,
+					skipped: result.skipped,
+				},
+				syncedAccounts: result.syncedAccounts,
+				message: `${result.imported} transactions importées, ${result.skipped} ignorées`,
 			});
 		} catch (error) {
 			console.error("Erreur échange token:", error);
@@ -129,86 +125,170 @@ export default class BankConnectionsController {
 	}
 
 	/**
-	 * Récupère les comptes Tink
-	 * GET /api/tink/accounts
+	 * Récupère les comptes Tink d'une connexion enregistrée
+	 * GET /api/tink/accounts?connectionId=
 	 */
 	async getAccounts({ request, response }: HttpContext) {
 		const api = apiResponse({ response } as HttpContext);
 
 		try {
-			const authHeader = request.header("Authorization");
-			const userToken = authHeader?.replace("Bearer ", "");
-
-			if (!userToken) {
-				return api.badRequest("Token utilisateur requis");
-			}
+			const connectionId = request.input("connectionId");
 
-			const accounts = await services.importService.getTinkAccounts(userToken);
+			const accounts = await services.importService.getTinkAccounts(
+				connectionId ? Number(connectionId) : undefined,
+			);
 
 			return api.success({ accounts });
 		} catch (error) {
 			console.error("Erreur récupération comptes:", error);
+			if ((error as Error).message === "Connexion bancaire non trouvée") {
+				return api.notFound("Connexion bancaire non trouvée");
+			}
+
+			if ((error as Error).message === "Aucune connexion bancaire active") {
+				return api.badRequest("Aucune connexion bancaire active");
+			}
+
+			if ((error as Error).message?.startsWith("Connexion bancaire expirée")) {
+				return api.conflict((error as Error).message);
+			}
+
 			return api.serverError("Erreur lors de la récupération des comptes");
 		}
 	}
 
 	/**
-	 * Synchronise les transactions
+	 * Synchronise une connexion : importe les nouvelles transactions
 	 * POST /api/bank-connections/sync
 	 */
 	async sync({ request, response }: HttpContext) {
 		const api = apiResponse({ response } as HttpContext);
 
 		try {
-			const { accessToken, accountId } =
+			const { connectionId, accountId } =
 				await request.validateUsing(tinkSyncValidator);
 
 			const result = await services.importService.syncFromTink(
-				accessToken,
+				connectionId,
 				accountId,
 			);
 
-			return api.success({
-				count: result.count,
-				transactions: result.transactions,
-			});
+			return api.success(
+				{
+					connectionId: result.connectionId,
+					count: result.count,
+					import: {
+						imported: result.imported,
+						skipped: result.skipped,
+					},
+					syncedAccounts: result.syncedAccounts,
+				},
+				`${result.imported} transactions importées, ${result.skipped} ignorées`,
+			);
 		} catch (error) {
 			console.error("Erreur sync:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if ((error as Error).message === "Connexion bancaire non trouvée") {
+				return api.notFound("Connexion bancaire non trouvée");
+			}
+
+			if ((error as Error).message === "Aucune connexion bancaire active") {
+				return api.badRequest("Aucune connexion bancaire active");
+			}
+
+			if ((error as Error).message?.startsWith("Connexion bancaire expirée")) {
+				return api.conflict((error as Error).message);
+			}
+
 			return api.serverError("Erreur lors de la synchronisation");
 		}
 	}
 
 	/**
-	 * Déconnecte le compte bancaire et supprime les données
-	 * DELETE /api/bank-connections/disconnect
+	 * Journal des dernières synchronisations (manuelles et planifiées)
+	 * GET /api/bank-connections/sync-runs?connectionId=
 	 */
-	async disconnect({ response }: HttpContext) {
+	async syncRuns({ request, response }: HttpContext) {
 		const api = apiResponse({ response } as HttpContext);
 
 		try {
-			const account = await services.accountService.getOrCreateDefault();
-			const result = await services.accountService.resetAccount(account.id);
+			const connectionId = request.input("connectionId");
+
+			const runs = await services.importService.getSyncRuns(
+				connectionId ? Number(connectionId) : undefined,
+			);
+
+			return api.success({ runs });
+		} catch (error) {
+			console.error("Erreur chargement synchronisations:", error);
+			return api.serverError("Erreur lors du chargement des synchronisations");
+		}
+	}
+
+	/**
+	 * Déconnecte le compte bancaire, supprime la connexion et les données
+	 * DELETE /api/bank-connections/disconnect (toutes les connexions)
+	 * DELETE /api/bank-connections/:id
+	 */
+	async disconnect({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const connections = params.id
+				? [await services.bankConnectionService.resolve(Number(params.id))]
+				: await services.bankConnectionService.getAll();
+
+			// Comptes liés à supprimer avant la connexion (le lien est effacé avec elle)
+			const result = await services.accountService.removeBankAccounts(
+				connections.map((connection) => connection.id),
+				!params.id,
+			);
+
+			for (const connection of connections) {
+				await services.bankConnectionService.delete(connection.id);
+			}
 
 			return api.success(
 				{
 					deletedTransactions: result.deletedTransactions,
+					deletedAccounts: result.deletedAccounts,
 					newBalance: result.newBalance,
 				},
-				`${result.deletedTransactions} transactions supprimées, compte réinitialisé`,
+				`${result.deletedTransactions} transactions supprimées, ${result.deletedAccounts} compte(s) supprimé(s)`,
 			);
 		} catch (error) {
 			console.error("Erreur déconnexion:", error);
+
+			if ((error as Error).message === "Connexion bancaire non trouvée") {
+				return api.notFound("Connexion bancaire non trouvée");
+			}
+
 			return api.serverError("Erreur lors de la déconnexion");
 		}
 	}
 
 	/**
-	 * Liste les connexions (stub)
+	 * Liste les connexions enregistrées (sans les tokens)
 	 * GET /api/bank-connections
 	 */
 	async index({ response }: HttpContext) {
 		const api = apiResponse({ response } as HttpContext);
-		return api.success({ connections: [] });
+
+		try {
+			const connections = await services.bankConnectionService.getAll();
+
+			return api.success({ connections });
+		} catch (error) {
+			console.error("Erreur chargement connexions:", error);
+			return api.serverError("Erreur lors du chargement des connexions");
+		}
 	}
 
 	/**
@@ -219,10 +299,7 @@ export default class BankConnectionsController {
 		const api = apiResponse({ response } as HttpContext);
 
 		try {
-			const { accessToken, tinkBalance } = request.only([
-				"accessToken",
-				"tinkBalance",
-			]);
+			const { tinkBalance } = request.only(["tinkBalance"]);
 
 			if (tinkBalance === undefined || tinkBalance === null) {
 				return api.badRequest("Le solde Tink est requis");
@@ -0,0 +1,124 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import { saveCsvTemplateValidator } from "#interface/http/validators/import_validator";
+
+/**
+ * Controller pour les modèles d'import CSV
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class CsvTemplatesController {
+	/**
+	 * Liste les modèles
+	 * GET /api/import/templates
+	 */
+	async index({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const templates = await services.csvTemplateService.getAll();
+
+			return api.success({ templates });
+		} catch (error) {
+			console.error("Erreur chargement modèles CSV:", error);
+			return api.serverError("Erreur lors du chargement des modèles");
+		}
+	}
+
+	/**
+	 * Crée un modèle
+	 * POST /api/import/templates
+	 */
+	async store({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(saveCsvTemplateValidator);
+
+			const template = await services.csvTemplateService.create(data);
+
+			return api.created(
+				{
+					template,
+					profile: services.csvTemplateService.toProfile(template).id,
+				},
+				"Modèle enregistré avec succès",
+			);
+		} catch (error) {
+			console.error("Erreur création modèle CSV:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if ((error as Error).message?.startsWith("Mapping invalide")) {
+				return api.badRequest((error as Error).message);
+			}
+
+			return api.serverError("Erreur lors de la création du modèle");
+		}
+	}
+
+	/**
+	 * Remplace un modèle
+	 * PUT /api/import/templates/:id
+	 */
+	async update({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(saveCsvTemplateValidator);
+
+			const template = await services.csvTemplateService.update(
+				params.id,
+				data,
+			);
+
+			return api.success({ template }, "Modèle mis à jour");
+		} catch (error) {
+			console.error("Erreur mise à jour modèle CSV:", error);
+
+			if ((error as Error).message === "Modèle non trouvé") {
+				return api.notFound("Modèle non trouvé");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if ((error as Error).message?.startsWith("Mapping invalide")) {
+				return api.badRequest((error as Error).message);
+			}
+
+			return api.serverError("Erreur lors de la mise à jour du modèle");
+		}
+	}
+
+	/**
+	 * Supprime un modèle
+	 * DELETE /api/import/templates/:id
+	 */
+	async destroy({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			await services.csvTemplateService.delete(params.id);
+
+			return api.success(null, "Modèle supprimé");
+		} catch (error) {
+			console.error("Erreur suppression modèle CSV:", error);
+
+			if ((error as Error).message === "Modèle non trouvé") {
+				return api.notFound("Modèle non trouvé");
+			}
+
+			return api.serverError("Erreur lors de la suppression du modèle");
+		}
+	}
+}
@@ -0,0 +1,41 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import { forecastQueryValidator } from "#interface/http/validators/forecast_validator";
+
+/**
+ * Controller pour les prévisions de solde
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class ForecastsController {
+	/**
+	 * Projette le solde du compte jour par jour
+	 * GET /api/forecast
+	 */
+	async index({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { days } = await request.validateUsing(forecastQueryValidator);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const forecast = await services.forecastService.forecast(
+				account.id,
+				days,
+			);
+
+			return api.success({ forecast });
+		} catch (error) {
+			console.error("Erreur prévision:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Paramètres invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors du calcul de la prévision");
+		}
+	}
+}
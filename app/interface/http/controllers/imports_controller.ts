@@ -1,28 +1,247 @@
 import type { HttpContext } from "@adonisjs/core/http";
 import { services } from "#domain/services/service_provider";
 import { apiResponse } from "#interface/http/responses/api_response";
+import {
+	confirmImportValidator,
+	csvImportOptionsValidator,
+	csvPreviewOptionsValidator,
+} from "#interface/http/validators/import_validator";
+import CsvTemplateService from "#domain/services/csv_template_service";
+import ImportService from "#domain/services/import_service";
 
 /**
- * Controller pour l'import de fichiers CSV
+ * Controller pour l'import de relevés et l'historique des imports
  * Couche Interface - ne contient pas de logique métier
  */
 export default class ImportsController {
 	/**
-	 * Importe un fichier CSV
+	 * Liste les profils bancaires CSV reconnus
+	 * GET /api/import/profiles
+	 */
+	async profiles({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const profiles = await services.importService.getCsvProfiles();
+
+			return api.success({ profiles });
+		} catch (error) {
+			console.error("Erreur chargement profils bancaires:", error);
+			return api.serverError("Erreur lors du chargement des profils");
+		}
+	}
+
+	/**
+	 * Aperçu des colonnes et des premières lignes d'un CSV
+	 * POST /api/import/columns
+	 */
+	async columns({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const options = await request.validateUsing(csvPreviewOptionsValidator);
+
+			const file = request.file("csv", {
+				size: "10mb",
+				extnames: ["csv"],
+			});
+
+			if (!file) {
+				return api.badRequest("Aucun fichier CSV fourni");
+			}
+
+			if (!file.isValid) {
+				return api.validationError("Fichier invalide", file.errors);
+			}
+
+			if (!file.tmpPath) {
+				return api.badRequest("Impossible de lire le fichier");
+			}
+
+			// Lu en octets : l'encodage est détecté par le service d'import
+			const fs = await import("node:fs/promises");
+			const data = await fs.readFile(file.tmpPath);
+
+			if (data.length === 0) {
+				return api.badRequest("Le fichier est vide");
+			}
+
+			const preview = await services.importService.previewCsvColumns(
+				data,
+				options,
+			);
+
+			return api.success({
+				preview,
+				dateFormats: CsvTemplateService.DATE_FORMATS,
+			});
+		} catch (error) {
+			console.error("Erreur aperçu CSV:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la lecture du fichier");
+		}
+	}
+
+	/**
+	 * Aperçu d'un import sans écriture : décision proposée pour chaque ligne
+	 * POST /api/import/preview
+	 * Mêmes champs que POST /api/import
+	 */
+	async preview({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { profile, dateOrder, sheet } = await request.validateUsing(
+				csvImportOptionsValidator,
+			);
+
+			const file = request.file("csv", {
+				size: "10mb",
+				extnames: Object.keys(ImportService.FILE_FORMATS),
+			});
+
+			if (!file) {
+				return api.badRequest("Aucun fichier fourni");
+			}
+
+			if (!file.isValid) {
+				return api.validationError("Fichier invalide", file.errors);
+			}
+
+			if (!file.tmpPath) {
+				return api.badRequest("Impossible de lire le fichier");
+			}
+
+			// Lu en octets : l'encodage est détecté par le service d'import
+			const fs = await import("node:fs/promises");
+			const data = await fs.readFile(file.tmpPath);
+
+			if (data.length === 0) {
+				return api.badRequest("Le fichier est vide");
+			}
+
+			const preview = await services.importService.previewFile(
+				data,
+				file.clientName,
+				{ profile, dateOrder, sheet },
+			);
+
+			return api.success(
+				preview,
+				`${preview.summary.new} nouvelle(s) transaction(s) à importer`,
+			);
+		} catch (error) {
+			console.error("Erreur aperçu import:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if (
+				(error as Error).message?.startsWith("Profil bancaire inconnu") ||
+				(error as Error).message?.startsWith("Fichier XLSX invalide") ||
+				(error as Error).message?.startsWith("Feuille introuvable")
+			) {
+				return api.badRequest((error as Error).message);
+			}
+
+			return api.serverError(
+				"Erreur lors de l'analyse du fichier",
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+	}
+
+	/**
+	 * Confirme un aperçu d'import (lignes décochées exclues)
+	 * POST /api/import/confirm
+	 * L'import est traité en arrière-plan (voir GET /api/imports/:id)
+	 */
+	async confirm({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { token, excludedRows } = await request.validateUsing(
+				confirmImportValidator,
+			);
+
+			const queued = await services.importService.confirmPreview(
+				token,
+				excludedRows,
+			);
+
+			return api.success(
+				{
+					batchId: queued.batchId,
+					rowsTotal: queued.rowsTotal,
+					profile: queued.profile,
+				},
+				`Import de ${queued.rowsTotal} transactions en cours`,
+				202,
+			);
+		} catch (error) {
+			console.error("Erreur confirmation import:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if (
+				(error as Error).message === "Aperçu d'import introuvable ou expiré"
+			) {
+				return api.notFound("Aperçu d'import introuvable ou expiré");
+			}
+
+			if (
+				(error as Error).message === "Aucune ligne sélectionnée pour l'import"
+			) {
+				return api.badRequest("Aucune ligne sélectionnée pour l'import");
+			}
+
+			return api.serverError(
+				"Erreur lors de l'import",
+				error instanceof Error ? error.message : undefined,
+			);
+		}
+	}
+
+	/**
+	 * Importe un relevé bancaire (CSV, XLSX, OFX/QFX, QIF, CAMT.053 ou MT940)
 	 * POST /api/import
+	 * Champs optionnels "profile" (profil bancaire CSV / XLSX), "dateOrder" (QIF)
+	 * et "sheet" (feuille XLSX, la première par défaut)
+	 * Le fichier est parsé puis importé en arrière-plan (voir GET /api/imports/:id)
+	 * La réponse indique l'encodage, le BOM et le séparateur détectés
 	 */
 	async store({ request, response }: HttpContext) {
 		const api = apiResponse({ response } as HttpContext);
 
 		try {
+			const { profile, dateOrder, sheet } = await request.validateUsing(
+				csvImportOptionsValidator,
+			);
+
 			// Récupérer le fichier
 			const file = request.file("csv", {
 				size: "10mb",
-				extnames: ["csv"],
+				extnames: Object.keys(ImportService.FILE_FORMATS),
 			});
 
 			if (!file) {
-				return api.badRequest("Aucun fichier CSV fourni");
+				return api.badRequest("Aucun fichier fourni");
 			}
 
 			if (!file.isValid) {
@@ -34,40 +253,138 @@ export default class ImportsController {
 				return api.badRequest("Impossible de lire le fichier");
 			}
 
+			// Lu en octets : l'encodage est détecté par le service d'import
 			const fs = await import("node:fs/promises");
-			const content = await fs.readFile(file.tmpPath, "utf-8");
+			const data = await fs.readFile(file.tmpPath);
 
-			if (!content) {
+			if (data.length === 0) {
 				return api.badRequest("Le fichier est vide");
 			}
 
-			// Importer via le service
-			const result = await services.importService.importFromCsv(
-				content,
+			// Mettre en file d'import (format déduit de l'extension)
+			const queued = await services.importService.queueFile(
+				data,
 				file.clientName,
+				{ profile, dateOrder, sheet },
 			);
 
-			if (result.imported === 0 && result.errors.length > 0) {
+			if (queued.rowsTotal === 0 && queued.errors.length > 0) {
 				return api.badRequest("Erreur lors du parsing du fichier", {
-					errors: result.errors,
+					errors: queued.errors,
+					detected: queued.detected,
 				});
 			}
 
 			return api.success(
 				{
-					batchId: result.batchId,
-					rowsImported: result.imported,
-					rowsSkipped: result.skipped,
-					parsingErrors: result.errors,
+					batchId: queued.batchId,
+					rowsTotal: queued.rowsTotal,
+					parsingErrors: queued.errors,
+					profile: queued.profile,
+					detected: queued.detected,
 				},
-				`Import terminé: ${result.imported} transactions importées`,
+				`Import de ${queued.rowsTotal} transactions en cours`,
+				202,
 			);
 		} catch (error) {
-			console.error("Erreur import CSV:", error);
+			console.error("Erreur import relevé:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			if (
+				(error as Error).message?.startsWith("Profil bancaire inconnu") ||
+				(error as Error).message?.startsWith("Fichier XLSX invalide") ||
+				(error as Error).message?.startsWith("Feuille introuvable")
+			) {
+				return api.badRequest((error as Error).message);
+			}
+
 			return api.serverError(
 				"Erreur lors du traitement du fichier",
 				error instanceof Error ? error.message : undefined,
 			);
 		}
 	}
+
+	/**
+	 * Historique des imports (nombre de lignes, statut et source)
+	 * GET /api/imports
+	 */
+	async index({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const imports = await services.importService.getImportHistory();
+
+			return api.success({ imports });
+		} catch (error) {
+			console.error("Erreur chargement historique des imports:", error);
+			return api.serverError("Erreur lors du chargement de l'historique");
+		}
+	}
+
+	/**
+	 * Avancement d'un import en arrière-plan (à interroger jusqu'à la fin)
+	 * GET /api/imports/:id
+	 */
+	async show({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const progress = await services.importService.getImportProgress(
+				Number(params.id),
+			);
+
+			if (!progress) {
+				return api.notFound("Import non trouvé");
+			}
+
+			return api.success(progress);
+		} catch (error) {
+			console.error("Erreur suivi import:", error);
+			return api.serverError("Erreur lors du suivi de l'import");
+		}
+	}
+
+	/**
+	 * Annule un import : supprime ses transactions et conserve le batch
+	 * DELETE /api/imports/:id
+	 */
+	async destroy({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { batch, removed } = await services.importService.rollbackImport(
+				Number(params.id),
+			);
+
+			return api.success(
+				{ import: batch, transactionsRemoved: removed },
+				`Import annulé: ${removed} transactions supprimées`,
+			);
+		} catch (error) {
+			console.error("Erreur annulation import:", error);
+
+			if ((error as Error).message === "Import non trouvé") {
+				return api.notFound("Import non trouvé");
+			}
+
+			if ((error as Error).message === "Import déjà annulé") {
+				return api.conflict("Import déjà annulé");
+			}
+
+			if ((error as Error).message === "Import en cours") {
+				return api.conflict(
+					"Import en cours : annulation possible une fois l'import terminé",
+				);
+			}
+
+			return api.serverError("Erreur lors de l'annulation de l'import");
+		}
+	}
 }
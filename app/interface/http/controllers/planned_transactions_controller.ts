@@ -0,0 +1,165 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import {
+	createPlannedTransactionValidator,
+	updatePlannedTransactionValidator,
+} from "#interface/http/validators/planned_transaction_validator";
+
+/**
+ * Controller pour les transactions planifiées
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class PlannedTransactionsController {
+	/**
+	 * Liste les transactions planifiées
+	 * GET /api/planned-transactions
+	 */
+	async index({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const account = await services.accountService.getOrCreateDefault();
+			const plannedTransactions =
+				await services.plannedTransactionService.getByAccountId(account.id);
+
+			return api.success({ plannedTransactions });
+		} catch (error) {
+			console.error("Erreur chargement transactions planifiées:", error);
+			return api.serverError(
+				"Erreur lors du chargement des transactions planifiées",
+			);
+		}
+	}
+
+	/**
+	 * Crée une transaction planifiée
+	 * POST /api/planned-transactions
+	 */
+	async store({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(
+				createPlannedTransactionValidator,
+			);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const plannedTransaction =
+				await services.plannedTransactionService.create(account.id, data);
+
+			// Le solde prévu change : réévaluer les alertes de solde bas
+			await services.balanceAlertService.evaluate(account.id);
+
+			return api.created(
+				{ plannedTransaction },
+				"Transaction planifiée créée avec succès",
+			);
+		} catch (error) {
+			console.error("Erreur création transaction planifiée:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError(
+				"Erreur lors de la création de la transaction planifiée",
+			);
+		}
+	}
+
+	/**
+	 * Affiche une transaction planifiée
+	 * GET /api/planned-transactions/:id
+	 */
+	async show({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const plannedTransaction =
+				await services.plannedTransactionService.getById(params.id);
+
+			if (!plannedTransaction) {
+				return api.notFound("Transaction planifiée non trouvée");
+			}
+
+			return api.success({ plannedTransaction });
+		} catch (error) {
+			console.error("Erreur récupération transaction planifiée:", error);
+			return api.serverError(
+				"Erreur lors de la récupération de la transaction planifiée",
+			);
+		}
+	}
+
+	/**
+	 * Met à jour une transaction planifiée
+	 * PUT /api/planned-transactions/:id
+	 */
+	async update({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(
+				updatePlannedTransactionValidator,
+			);
+
+			const plannedTransaction =
+				await services.plannedTransactionService.update(params.id, data);
+
+			await services.balanceAlertService.evaluate(plannedTransaction.accountId);
+
+			return api.success(
+				{ plannedTransaction },
+				"Transaction planifiée mise à jour",
+			);
+		} catch (error) {
+			console.error("Erreur mise à jour transaction planifiée:", error);
+
+			if ((error as Error).message === "Transaction planifiée non trouvée") {
+				return api.notFound("Transaction planifiée non trouvée");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError(
+				"Erreur lors de la mise à jour de la transaction planifiée",
+			);
+		}
+	}
+
+	/**
+	 * Supprime une transaction planifiée
+	 * DELETE /api/planned-transactions/:id
+	 */
+	async destroy({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			await services.plannedTransactionService.delete(params.id);
+
+			const account = await services.accountService.getOrCreateDefault();
+			await services.balanceAlertService.evaluate(account.id);
+
+			return api.success(null, "Transaction planifiée supprimée");
+		} catch (error) {
+			console.error("Erreur suppression transaction planifiée:", error);
+
+			if ((error as Error).message === "Transaction planifiée non trouvée") {
+				return api.notFound("Transaction planifiée non trouvée");
+			}
+
+			return api.serverError(
+				"Erreur lors de la suppression de la transaction planifiée",
+			);
+		}
+	}
+}
@@ -0,0 +1,138 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import { updateRecurringSeriesValidator } from "#interface/http/validators/recurring_series_validator";
+
+/**
+ * Controller pour les transactions récurrentes
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class RecurringSeriesController {
+	/**
+	 * Liste les séries récurrentes du compte
+	 * GET /api/recurring-series
+	 */
+	async index({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const includeDismissed = request.input("includeDismissed") === "true";
+
+			const account = await services.accountService.getOrCreateDefault();
+			const series = await services.recurringSeriesService.getByAccountId(
+				account.id,
+				includeDismissed,
+			);
+
+			return api.success({ series });
+		} catch (error) {
+			console.error("Erreur chargement récurrences:", error);
+			return api.serverError("Erreur lors du chargement des récurrences");
+		}
+	}
+
+	/**
+	 * Relance la détection des récurrences
+	 * POST /api/recurring-series/detect
+	 */
+	async detect({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const account = await services.accountService.getOrCreateDefault();
+			const result = await services.recurringSeriesService.detect(account.id);
+			const series = await services.recurringSeriesService.getByAccountId(
+				account.id,
+			);
+
+			return api.success(
+				{ ...result, series },
+				`${result.detected} récurrences détectées (${result.created} nouvelles)`,
+			);
+		} catch (error) {
+			console.error("Erreur détection récurrences:", error);
+			return api.serverError("Erreur lors de la détection des récurrences");
+		}
+	}
+
+	/**
+	 * Modifie une série récurrente
+	 * PATCH /api/recurring-series/:id
+	 */
+	async update({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(updateRecurringSeriesValidator);
+
+			const series = await services.recurringSeriesService.update(
+				params.id,
+				data,
+			);
+
+			// Les échéances de la série entrent dans la prévision des alertes de solde bas
+			await services.balanceAlertService.evaluate(series.accountId);
+
+			return api.success({ series }, "Récurrence mise à jour");
+		} catch (error) {
+			console.error("Erreur mise à jour récurrence:", error);
+
+			if ((error as Error).message === "Série non trouvée") {
+				return api.notFound("Récurrence non trouvée");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la mise à jour de la récurrence");
+		}
+	}
+
+	/**
+	 * Confirme une série récurrente
+	 * POST /api/recurring-series/:id/confirm
+	 */
+	async confirm({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const series = await services.recurringSeriesService.confirm(params.id);
+			await services.balanceAlertService.evaluate(series.accountId);
+			return api.success({ series }, "Récurrence confirmée");
+		} catch (error) {
+			console.error("Erreur confirmation récurrence:", error);
+
+			if ((error as Error).message === "Série non trouvée") {
+				return api.notFound("Récurrence non trouvée");
+			}
+
+			return api.serverError("Erreur lors de la confirmation de la récurrence");
+		}
+	}
+
+	/**
+	 * Écarte une série récurrente
+	 * POST /api/recurring-series/:id/dismiss
+	 */
+	async dismiss({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const series = await services.recurringSeriesService.dismiss(params.id);
+			await services.balanceAlertService.evaluate(series.accountId);
+			return api.success({ series }, "Récurrence ignorée");
+		} catch (error) {
+			console.error("Erreur rejet récurrence:", error);
+
+			if ((error as Error).message === "Série non trouvée") {
+				return api.notFound("Récurrence non trouvée");
+			}
+
+			return api.serverError("Erreur lors du rejet de la récurrence");
+		}
+	}
+}
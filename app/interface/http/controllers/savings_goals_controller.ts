@@ -0,0 +1,143 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import {
+	createSavingsGoalValidator,
+	updateSavingsGoalValidator,
+} from "#interface/http/validators/savings_goal_validator";
+
+/**
+ * Controller pour les objectifs d'épargne
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class SavingsGoalsController {
+	/**
+	 * Liste les objectifs avec leur projection
+	 * GET /api/savings-goals
+	 */
+	async index({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const account = await services.accountService.getOrCreateDefault();
+			const goals = await services.savingsGoalService.getByAccountId(
+				account.id,
+			);
+
+			return api.success({ goals });
+		} catch (error) {
+			console.error("Erreur chargement objectifs:", error);
+			return api.serverError("Erreur lors du chargement des objectifs");
+		}
+	}
+
+	/**
+	 * Crée un objectif
+	 * POST /api/savings-goals
+	 */
+	async store({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(createSavingsGoalValidator);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const goal = await services.savingsGoalService.create(account.id, data);
+
+			return api.created({ goal }, "Objectif créé avec succès");
+		} catch (error) {
+			console.error("Erreur création objectif:", error);
+
+			if ((error as Error).message === "Compte lié non trouvé") {
+				return api.badRequest("Compte lié non trouvé");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la création de l'objectif");
+		}
+	}
+
+	/**
+	 * Affiche un objectif avec sa projection
+	 * GET /api/savings-goals/:id
+	 */
+	async show({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const result = await services.savingsGoalService.getById(params.id);
+
+			if (!result) {
+				return api.notFound("Objectif non trouvé");
+			}
+
+			return api.success(result);
+		} catch (error) {
+			console.error("Erreur récupération objectif:", error);
+			return api.serverError("Erreur lors de la récupération de l'objectif");
+		}
+	}
+
+	/**
+	 * Met à jour un objectif
+	 * PUT /api/savings-goals/:id
+	 */
+	async update({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(updateSavingsGoalValidator);
+
+			const goal = await services.savingsGoalService.update(params.id, data);
+
+			return api.success({ goal }, "Objectif mis à jour");
+		} catch (error) {
+			console.error("Erreur mise à jour objectif:", error);
+
+			if ((error as Error).message === "Objectif non trouvé") {
+				return api.notFound("Objectif non trouvé");
+			}
+
+			if ((error as Error).message === "Compte lié non trouvé") {
+				return api.badRequest("Compte lié non trouvé");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la mise à jour de l'objectif");
+		}
+	}
+
+	/**
+	 * Supprime un objectif
+	 * DELETE /api/savings-goals/:id
+	 */
+	async destroy({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			await services.savingsGoalService.delete(params.id);
+
+			return api.success(null, "Objectif supprimé");
+		} catch (error) {
+			console.error("Erreur suppression objectif:", error);
+
+			if ((error as Error).message === "Objectif non trouvé") {
+				return api.notFound("Objectif non trouvé");
+			}
+
+			return api.serverError("Erreur lors de la suppression de l'objectif");
+		}
+	}
+}
@@ -0,0 +1,200 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { services } from "#domain/services/service_provider";
+import { apiResponse } from "#interface/http/responses/api_response";
+import { forecastQueryValidator } from "#interface/http/validators/forecast_validator";
+import { saveScenarioValidator } from "#interface/http/validators/scenario_validator";
+
+/**
+ * Controller pour les scénarios de simulation
+ * Couche Interface - ne contient pas de logique métier
+ */
+export default class ScenariosController {
+	/**
+	 * Liste les scénarios du compte
+	 * GET /api/scenarios
+	 */
+	async index({ response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const account = await services.accountService.getOrCreateDefault();
+			const scenarios = await services.scenarioService.getByAccountId(
+				account.id,
+			);
+
+			return api.success({ scenarios });
+		} catch (error) {
+			console.error("Erreur chargement scénarios:", error);
+			return api.serverError("Erreur lors du chargement des scénarios");
+		}
+	}
+
+	/**
+	 * Crée un scénario
+	 * POST /api/scenarios
+	 */
+	async store({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(saveScenarioValidator);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const scenario = await services.scenarioService.create(account.id, data);
+
+			return api.created({ scenario }, "Scénario créé avec succès");
+		} catch (error) {
+			console.error("Erreur création scénario:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la création du scénario");
+		}
+	}
+
+	/**
+	 * Affiche un scénario
+	 * GET /api/scenarios/:id
+	 */
+	async show({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const scenario = await services.scenarioService.getById(params.id);
+
+			if (!scenario) {
+				return api.notFound("Scénario non trouvé");
+			}
+
+			return api.success({ scenario });
+		} catch (error) {
+			console.error("Erreur récupération scénario:", error);
+			return api.serverError("Erreur lors de la récupération du scénario");
+		}
+	}
+
+	/**
+	 * Remplace un scénario
+	 * PUT /api/scenarios/:id
+	 */
+	async update({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const data = await request.validateUsing(saveScenarioValidator);
+
+			const scenario = await services.scenarioService.update(params.id, data);
+
+			return api.success({ scenario }, "Scénario mis à jour");
+		} catch (error) {
+			console.error("Erreur mise à jour scénario:", error);
+
+			if ((error as Error).message === "Scénario non trouvé") {
+				return api.notFound("Scénario non trouvé");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Données invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la mise à jour du scénario");
+		}
+	}
+
+	/**
+	 * Supprime un scénario
+	 * DELETE /api/scenarios/:id
+	 */
+	async destroy({ params, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			await services.scenarioService.delete(params.id);
+
+			return api.success(null, "Scénario supprimé");
+		} catch (error) {
+			console.error("Erreur suppression scénario:", error);
+
+			if ((error as Error).message === "Scénario non trouvé") {
+				return api.notFound("Scénario non trouvé");
+			}
+
+			return api.serverError("Erreur lors de la suppression du scénario");
+		}
+	}
+
+	/**
+	 * Compare tous les scénarios à la prévision de référence
+	 * GET /api/scenarios/compare
+	 */
+	async compare({ request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { days } = await request.validateUsing(forecastQueryValidator);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const comparison = await services.scenarioService.compare(
+				account.id,
+				days,
+			);
+
+			return api.success({ comparison });
+		} catch (error) {
+			console.error("Erreur comparaison scénarios:", error);
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Paramètres invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la comparaison des scénarios");
+		}
+	}
+
+	/**
+	 * Compare un scénario à la prévision de référence
+	 * GET /api/scenarios/:id/compare
+	 */
+	async compareOne({ params, request, response }: HttpContext) {
+		const api = apiResponse({ response } as HttpContext);
+
+		try {
+			const { days } = await request.validateUsing(forecastQueryValidator);
+
+			const account = await services.accountService.getOrCreateDefault();
+			const comparison = await services.scenarioService.compare(
+				account.id,
+				days,
+				Number(params.id),
+			);
+
+			return api.success({ comparison });
+		} catch (error) {
+			console.error("Erreur comparaison scénario:", error);
+
+			if ((error as Error).message === "Scénario non trouvé") {
+				return api.notFound("Scénario non trouvé");
+			}
+
+			if ((error as any).code === "E_VALIDATION_ERROR") {
+				return api.validationError(
+					"Paramètres invalides",
+					(error as any).messages,
+				);
+			}
+
+			return api.serverError("Erreur lors de la comparaison du scénario");
+		}
+	}
+}
@@ -65,6 +65,9 @@ export default class TransactionsController {
 				paymentMethod: data.paymentMethod,
 			});
 
+			// Le solde a changé : réévaluer les alertes de solde bas
+			await services.balanceAlertService.evaluate(account.id);
+
 			// Récupérer le solde mis à jour
 			const updatedAccount = await services.accountService.getById(account.id);
 
@@ -158,6 +161,7 @@ export default class TransactionsController {
 
 			// Récupérer le compte mis à jour
 			const account = await services.accountService.getOrCreateDefault();
+			await services.balanceAlertService.evaluate(account.id);
 
 			return api.success(
 				{
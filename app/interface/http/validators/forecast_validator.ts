@@ -0,0 +1,10 @@
+import vine from "@vinejs/vine";
+
+/**
+ * Validateur pour les paramètres de prévision
+ */
+export const forecastQueryValidator = vine.compile(
+	vine.object({
+		days: vine.number().withoutDecimals().min(1).max(365).optional(),
+	}),
+);
@@ -1,5 +1,60 @@
 import vine from "@vinejs/vine";
 
+/**
+ * Validateur pour les options d'import d'un relevé
+ * profile : profil bancaire CSV / XLSX, dateOrder : ordre jour / mois des dates QIF,
+ * sheet : nom ou numéro de la feuille XLSX (la première par défaut)
+ */
+export const csvImportOptionsValidator = vine.compile(
+	vine.object({
+		profile: vine.string().trim().minLength(1).optional(),
+		dateOrder: vine.enum(["dmy", "mdy"]).optional(),
+		sheet: vine.string().trim().minLength(1).maxLength(100).optional(),
+	}),
+);
+
+/**
+ * Validateur pour la confirmation d'un aperçu d'import
+ * excludedRows : index des lignes décochées
+ */
+export const confirmImportValidator = vine.compile(
+	vine.object({
+		token: vine.string().uuid(),
+		excludedRows: vine.array(vine.number().withoutDecimals().min(0)).optional(),
+	}),
+);
+
+/**
+ * Validateur pour l'aperçu des colonnes d'un CSV
+ */
+export const csvPreviewOptionsValidator = vine.compile(
+	vine.object({
+		delimiter: vine.string().minLength(1).maxLength(4).optional(),
+		headerOffset: vine.number().withoutDecimals().min(0).max(50).optional(),
+	}),
+);
+
+/**
+ * Validateur pour la création ou le remplacement d'un modèle d'import CSV
+ */
+export const saveCsvTemplateValidator = vine.compile(
+	vine.object({
+		name: vine.string().trim().minLength(1).maxLength(100),
+		delimiter: vine.string().minLength(1).maxLength(4),
+		headerOffset: vine.number().withoutDecimals().min(0).max(50).optional(),
+		dateFormat: vine.string().trim().minLength(2).maxLength(30),
+		decimalSeparator: vine.enum([",", "."]),
+		mapping: vine.object({
+			date: vine.string().trim().minLength(1),
+			label: vine.array(vine.string().trim().minLength(1)).minLength(1),
+			amount: vine.string().trim().nullable().optional(),
+			debit: vine.string().trim().nullable().optional(),
+			credit: vine.string().trim().nullable().optional(),
+			merchant: vine.string().trim().nullable().optional(),
+		}),
+	}),
+);
+
 /**
  * Validateur pour l'échange de code Tink
  */
@@ -11,10 +66,11 @@ export const tinkCodeValidator = vine.compile(
 
 /**
  * Validateur pour la synchronisation Tink
+ * Sans connectionId, la connexion active la plus récente est synchronisée
  */
 export const tinkSyncValidator = vine.compile(
 	vine.object({
-		accessToken: vine.string().trim().minLength(1),
+		connectionId: vine.number().positive().optional(),
 		accountId: vine.string().trim().optional(),
 	}),
 );
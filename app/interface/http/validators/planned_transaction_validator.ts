@@ -0,0 +1,40 @@
+import vine from "@vinejs/vine";
+
+/**
+ * Validateur pour la création d'une transaction planifiée
+ */
+export const createPlannedTransactionValidator = vine.compile(
+	vine.object({
+		label: vine.string().trim().minLength(1).maxLength(255),
+		amount: vine.number().positive(),
+		type: vine.enum(["debit", "credit"]),
+		dueDate: vine.date({ formats: ["YYYY-MM-DD"] }),
+		period: vine
+			.enum(["weekly", "monthly", "quarterly", "yearly"])
+			.nullable()
+			.optional(),
+		interval: vine.number().withoutDecimals().min(1).max(60).optional(),
+		endDate: vine.date({ formats: ["YYYY-MM-DD"] }).nullable().optional(),
+		category: vine.string().trim().maxLength(50).nullable().optional(),
+	}),
+);
+
+/**
+ * Validateur pour la mise à jour d'une transaction planifiée
+ */
+export const updatePlannedTransactionValidator = vine.compile(
+	vine.object({
+		label: vine.string().trim().minLength(1).maxLength(255).optional(),
+		amount: vine.number().positive().optional(),
+		type: vine.enum(["debit", "credit"]).optional(),
+		dueDate: vine.date({ formats: ["YYYY-MM-DD"] }).optional(),
+		period: vine
+			.enum(["weekly", "monthly", "quarterly", "yearly"])
+			.nullable()
+			.optional(),
+		interval: vine.number().withoutDecimals().min(1).max(60).optional(),
+		endDate: vine.date({ formats: ["YYYY-MM-DD"] }).nullable().optional(),
+		category: vine.string().trim().maxLength(50).nullable().optional(),
+		status: vine.enum(["pending", "realized", "cancelled"]).optional(),
+	}),
+);
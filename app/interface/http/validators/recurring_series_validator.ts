@@ -0,0 +1,14 @@
+import vine from "@vinejs/vine";
+
+/**
+ * Validateur pour la modification d'une série récurrente
+ */
+export const updateRecurringSeriesValidator = vine.compile(
+	vine.object({
+		label: vine.string().trim().minLength(1).maxLength(255).optional(),
+		amount: vine.number().positive().optional(),
+		period: vine.enum(["weekly", "monthly", "quarterly", "yearly"]).optional(),
+		nextExpectedDate: vine.date({ formats: ["YYYY-MM-DD"] }).optional(),
+		category: vine.string().trim().maxLength(50).nullable().optional(),
+	}),
+);
@@ -0,0 +1,29 @@
+import vine from "@vinejs/vine";
+
+/**
+ * Validateur pour la création d'un objectif d'épargne
+ */
+export const createSavingsGoalValidator = vine.compile(
+	vine.object({
+		name: vine.string().trim().minLength(1).maxLength(100),
+		targetAmount: vine.number().positive(),
+		targetDate: vine.date({ formats: ["YYYY-MM-DD"] }).afterOrEqual("today"),
+		linkedAccountId: vine.number().positive().nullable().optional(),
+		category: vine.string().trim().maxLength(50).nullable().optional(),
+		initialAmount: vine.number().min(0).optional(),
+	}),
+);
+
+/**
+ * Validateur pour la mise à jour d'un objectif d'épargne
+ */
+export const updateSavingsGoalValidator = vine.compile(
+	vine.object({
+		name: vine.string().trim().minLength(1).maxLength(100).optional(),
+		targetAmount: vine.number().positive().optional(),
+		targetDate: vine.date({ formats: ["YYYY-MM-DD"] }).optional(),
+		linkedAccountId: vine.number().positive().nullable().optional(),
+		category: vine.string().trim().maxLength(50).nullable().optional(),
+		initialAmount: vine.number().min(0).optional(),
+	}),
+);
@@ -0,0 +1,55 @@
+import vine from "@vinejs/vine";
+
+/**
+ * Schéma d'un ajustement de scénario
+ */
+const adjustmentSchema = vine.object({
+	kind: vine.enum(["add", "remove", "scale"]),
+	targetType: vine
+		.enum(["recurring", "planned"])
+		.nullable()
+		.optional()
+		.requiredWhen("kind", "in", ["remove", "scale"]),
+	targetId: vine
+		.number()
+		.withoutDecimals()
+		.nullable()
+		.optional()
+		.requiredWhen("kind", "in", ["remove", "scale"]),
+	label: vine.string().trim().maxLength(255).nullable().optional(),
+	amount: vine
+		.number()
+		.positive()
+		.nullable()
+		.optional()
+		.requiredWhen("kind", "=", "add"),
+	type: vine
+		.enum(["debit", "credit"])
+		.nullable()
+		.optional()
+		.requiredWhen("kind", "=", "add"),
+	period: vine
+		.enum(["weekly", "monthly", "quarterly", "yearly"])
+		.nullable()
+		.optional(),
+	factor: vine
+		.number()
+		.min(0)
+		.max(100)
+		.nullable()
+		.optional()
+		.requiredWhen("kind", "=", "scale"),
+	startDate: vine.date({ formats: ["YYYY-MM-DD"] }).nullable().optional(),
+	endDate: vine.date({ formats: ["YYYY-MM-DD"] }).nullable().optional(),
+});
+
+/**
+ * Validateur pour la création ou le remplacement d'un scénario
+ */
+export const saveScenarioValidator = vine.compile(
+	vine.object({
+		name: vine.string().trim().minLength(1).maxLength(100),
+		description: vine.string().trim().maxLength(500).nullable().optional(),
+		adjustments: vine.array(adjustmentSchema).minLength(1),
+	}),
+);
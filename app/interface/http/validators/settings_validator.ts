@@ -8,5 +8,6 @@ export const updateSettingsValidator = vine.compile(
 		initialBalance: vine.number().optional(),
 		name: vine.string().trim().minLength(1).maxLength(100).optional(),
 		bank: vine.string().trim().maxLength(100).nullable().optional(),
+		lowBalanceThreshold: vine.number().nullable().optional(),
 	}),
 );
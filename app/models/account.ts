@@ -23,12 +23,22 @@ export default class Account extends BaseModel {
 	@column()
 	declare initialBalance: number;
 
+	@column()
+	declare lowBalanceThreshold: number | null;
+
 	@column()
 	declare currency: string;
 
 	@column()
 	declare isDefault: boolean;
 
+	// Compte Tink lié (synchronisation bancaire)
+	@column()
+	declare externalAccountId: string | null;
+
+	@column()
+	declare bankConnectionId: number | null;
+
 	@column.dateTime({ autoCreate: true })
 	declare createdAt: DateTime;
 
@@ -0,0 +1,49 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+import type { ForecastItem } from "#domain/types/index";
+
+export default class BalanceAlert extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare threshold: number;
+
+	@column.date()
+	declare alertDate: DateTime;
+
+	@column()
+	declare projectedBalance: number;
+
+	@column.date()
+	declare lowestDate: DateTime;
+
+	@column()
+	declare lowestBalance: number;
+
+	@column({ prepare: (value: ForecastItem[]) => JSON.stringify(value) })
+	declare causes: ForecastItem[];
+
+	@column()
+	declare status: "active" | "acknowledged" | "resolved";
+
+	@column.dateTime()
+	declare acknowledgedAt: DateTime | null;
+
+	@column.dateTime()
+	declare resolvedAt: DateTime | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+}
@@ -0,0 +1,66 @@
+import { DateTime } from "luxon";
+import { BaseModel, column } from "@adonisjs/lucid/orm";
+import encryption from "@adonisjs/core/services/encryption";
+import type {
+	BankConnectionStatus,
+	BankProvider,
+	TinkAccountData,
+} from "#domain/types/index";
+
+export default class BankConnection extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare provider: BankProvider;
+
+	@column()
+	declare status: BankConnectionStatus;
+
+	// Tokens chiffrés en base et jamais sérialisés vers le client
+	@column({
+		serializeAs: null,
+		prepare: (value: string | null) =>
+			value === null ? null : encryption.encrypt(value),
+		consume: (value: string | null) =>
+			value === null ? null : encryption.decrypt<string>(value),
+	})
+	declare accessToken: string | null;
+
+	@column({
+		serializeAs: null,
+		prepare: (value: string | null) =>
+			value === null ? null : encryption.encrypt(value),
+		consume: (value: string | null) =>
+			value === null ? null : encryption.decrypt<string>(value),
+	})
+	declare refreshToken: string | null;
+
+	@column.dateTime()
+	declare tokenExpiresAt: DateTime | null;
+
+	@column.dateTime()
+	declare consentExpiresAt: DateTime | null;
+
+	@column({
+		prepare: (value: TinkAccountData[] | null) =>
+			value === null ? null : JSON.stringify(value),
+	})
+	declare accounts: TinkAccountData[] | null;
+
+	@column.dateTime()
+	declare lastSyncedAt: DateTime | null;
+
+	// Dernière date comptabilisée importée (point de reprise des synchronisations)
+	@column.date()
+	declare bookedUntil: DateTime | null;
+
+	@column()
+	declare errorMessage: string | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+}
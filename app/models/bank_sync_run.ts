@@ -0,0 +1,56 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import BankConnection from "#models/bank_connection";
+import type {
+	BankAccountSyncResult,
+	BankSyncRunStatus,
+	BankSyncTrigger,
+} from "#domain/types/index";
+
+export default class BankSyncRun extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare bankConnectionId: number;
+
+	@column()
+	declare trigger: BankSyncTrigger;
+
+	@column()
+	declare status: BankSyncRunStatus;
+
+	@column()
+	declare transactionsFetched: number;
+
+	@column()
+	declare rowsImported: number;
+
+	@column()
+	declare rowsSkipped: number;
+
+	@column({
+		prepare: (value: BankAccountSyncResult[] | null) =>
+			value === null ? null : JSON.stringify(value),
+	})
+	declare accounts: BankAccountSyncResult[] | null;
+
+	@column()
+	declare errorMessage: string | null;
+
+	@column.dateTime()
+	declare startedAt: DateTime;
+
+	@column.dateTime()
+	declare finishedAt: DateTime | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => BankConnection)
+	declare bankConnection: BelongsTo<typeof BankConnection>;
+}
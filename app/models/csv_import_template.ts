@@ -0,0 +1,32 @@
+import { DateTime } from "luxon";
+import { BaseModel, column } from "@adonisjs/lucid/orm";
+import type { CsvColumnMapping } from "#domain/types/index";
+
+export default class CsvImportTemplate extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare name: string;
+
+	@column()
+	declare delimiter: string;
+
+	@column()
+	declare headerOffset: number;
+
+	@column()
+	declare dateFormat: string;
+
+	@column()
+	declare decimalSeparator: "," | ".";
+
+	@column({ prepare: (value: CsvColumnMapping) => JSON.stringify(value) })
+	declare mapping: CsvColumnMapping;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+}
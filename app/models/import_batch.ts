@@ -3,6 +3,7 @@ import { BaseModel, column, belongsTo, hasMany } from "@adonisjs/lucid/orm";
 import type { BelongsTo, HasMany } from "@adonisjs/lucid/types/relations";
 import Account from "#models/account";
 import Transaction from "#models/transaction";
+import type { ImportSource, ImportStatus } from "#domain/types/index";
 
 export default class ImportBatch extends BaseModel {
 	@column({ isPrimary: true })
@@ -14,6 +15,9 @@ export default class ImportBatch extends BaseModel {
 	@column()
 	declare filename: string;
 
+	@column()
+	declare source: ImportSource | null;
+
 	@column()
 	declare rowsImported: number;
 
@@ -21,11 +25,20 @@ export default class ImportBatch extends BaseModel {
 	declare rowsSkipped: number;
 
 	@column()
-	declare status: "pending" | "processing" | "completed" | "failed";
+	declare rowsTotal: number;
+
+	@column()
+	declare rowsProcessed: number;
+
+	@column()
+	declare status: ImportStatus;
 
 	@column()
 	declare errorMessage: string | null;
 
+	@column.dateTime()
+	declare rolledBackAt: DateTime | null;
+
 	@column.dateTime({ autoCreate: true })
 	declare createdAt: DateTime;
 
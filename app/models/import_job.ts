@@ -0,0 +1,53 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import ImportBatch from "#models/import_batch";
+import type {
+	ImportJobPayload,
+	ImportJobStatus,
+	ImportResult,
+} from "#domain/types/index";
+
+export default class ImportJob extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare importBatchId: number;
+
+	@column()
+	declare status: ImportJobStatus;
+
+	@column({
+		prepare: (value: ImportJobPayload | null) =>
+			value === null ? null : JSON.stringify(value),
+	})
+	declare payload: ImportJobPayload | null;
+
+	@column({
+		prepare: (value: ImportResult | null) =>
+			value === null ? null : JSON.stringify(value),
+	})
+	declare result: ImportResult | null;
+
+	@column()
+	declare attempts: number;
+
+	@column()
+	declare errorMessage: string | null;
+
+	@column.dateTime()
+	declare startedAt: DateTime | null;
+
+	@column.dateTime()
+	declare finishedAt: DateTime | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => ImportBatch)
+	declare importBatch: BelongsTo<typeof ImportBatch>;
+}
@@ -0,0 +1,43 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+import type { ImportPreviewRow } from "#domain/types/index";
+
+export default class ImportPreview extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare token: string;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare filename: string;
+
+	@column()
+	declare profile: string | null;
+
+	@column({ prepare: (value: ImportPreviewRow[]) => JSON.stringify(value) })
+	declare rows: ImportPreviewRow[];
+
+	@column()
+	declare closingBalance: number | null;
+
+	@column.date()
+	declare closingBalanceDate: DateTime | null;
+
+	@column.dateTime()
+	declare expiresAt: DateTime;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+}
@@ -0,0 +1,55 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+import Transaction from "#models/transaction";
+
+export default class PlannedTransaction extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare label: string;
+
+	@column()
+	declare amount: number;
+
+	@column()
+	declare type: "debit" | "credit";
+
+	@column()
+	declare category: string | null;
+
+	@column.date()
+	declare dueDate: DateTime;
+
+	@column()
+	declare period: "weekly" | "monthly" | "quarterly" | "yearly" | null;
+
+	@column()
+	declare interval: number;
+
+	@column.date()
+	declare endDate: DateTime | null;
+
+	@column()
+	declare status: "pending" | "realized" | "cancelled";
+
+	@column()
+	declare realizedTransactionId: number | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+
+	@belongsTo(() => Transaction, { foreignKey: "realizedTransactionId" })
+	declare realizedTransaction: BelongsTo<typeof Transaction>;
+}
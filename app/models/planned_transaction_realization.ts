@@ -0,0 +1,28 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import PlannedTransaction from "#models/planned_transaction";
+import Transaction from "#models/transaction";
+
+export default class PlannedTransactionRealization extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare plannedTransactionId: number;
+
+	@column()
+	declare transactionId: number;
+
+	@column.date()
+	declare dueDate: DateTime;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@belongsTo(() => PlannedTransaction)
+	declare plannedTransaction: BelongsTo<typeof PlannedTransaction>;
+
+	@belongsTo(() => Transaction)
+	declare transaction: BelongsTo<typeof Transaction>;
+}
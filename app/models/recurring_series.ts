@@ -0,0 +1,57 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo, hasMany } from "@adonisjs/lucid/orm";
+import type { BelongsTo, HasMany } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+import Transaction from "#models/transaction";
+
+export default class RecurringSeries extends BaseModel {
+	static table = "recurring_series";
+
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare merchantKey: string;
+
+	@column()
+	declare label: string;
+
+	@column()
+	declare type: "debit" | "credit";
+
+	@column()
+	declare amount: number;
+
+	@column()
+	declare period: "weekly" | "monthly" | "quarterly" | "yearly";
+
+	@column.date()
+	declare lastDate: DateTime;
+
+	@column.date()
+	declare nextExpectedDate: DateTime;
+
+	@column()
+	declare occurrences: number;
+
+	@column()
+	declare category: string | null;
+
+	@column()
+	declare status: "detected" | "confirmed" | "dismissed";
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+
+	@hasMany(() => Transaction)
+	declare transactions: HasMany<typeof Transaction>;
+}
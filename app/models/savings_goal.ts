@@ -0,0 +1,42 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+
+export default class SavingsGoal extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare name: string;
+
+	@column()
+	declare targetAmount: number;
+
+	@column.date()
+	declare targetDate: DateTime;
+
+	@column()
+	declare linkedAccountId: number | null;
+
+	@column()
+	declare category: string | null;
+
+	@column()
+	declare initialAmount: number;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+
+	@belongsTo(() => Account, { foreignKey: "linkedAccountId" })
+	declare linkedAccount: BelongsTo<typeof Account>;
+}
@@ -0,0 +1,31 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo, hasMany } from "@adonisjs/lucid/orm";
+import type { BelongsTo, HasMany } from "@adonisjs/lucid/types/relations";
+import Account from "#models/account";
+import ScenarioAdjustment from "#models/scenario_adjustment";
+
+export default class Scenario extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare accountId: number;
+
+	@column()
+	declare name: string;
+
+	@column()
+	declare description: string | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Account)
+	declare account: BelongsTo<typeof Account>;
+
+	@hasMany(() => ScenarioAdjustment)
+	declare adjustments: HasMany<typeof ScenarioAdjustment>;
+}
@@ -0,0 +1,48 @@
+import { DateTime } from "luxon";
+import { BaseModel, column, belongsTo } from "@adonisjs/lucid/orm";
+import type { BelongsTo } from "@adonisjs/lucid/types/relations";
+import Scenario from "#models/scenario";
+
+export default class ScenarioAdjustment extends BaseModel {
+	@column({ isPrimary: true })
+	declare id: number;
+
+	@column()
+	declare scenarioId: number;
+
+	@column()
+	declare kind: "add" | "remove" | "scale";
+
+	@column()
+	declare targetType: "recurring" | "planned" | null;
+
+	@column()
+	declare targetId: number | null;
+
+	@column()
+	declare label: string | null;
+
+	@column()
+	declare amount: number | null;
+
+	@column()
+	declare period: "weekly" | "monthly" | "quarterly" | "yearly" | null;
+
+	@column()
+	declare factor: number | null;
+
+	@column.date()
+	declare startDate: DateTime | null;
+
+	@column.date()
+	declare endDate: DateTime | null;
+
+	@column.dateTime({ autoCreate: true })
+	declare createdAt: DateTime;
+
+	@column.dateTime({ autoCreate: true, autoUpdate: true })
+	declare updatedAt: DateTime | null;
+
+	@belongsTo(() => Scenario)
+	declare scenario: BelongsTo<typeof Scenario>;
+}
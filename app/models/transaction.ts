@@ -3,6 +3,7 @@ import { BaseModel, column, belongsTo } from '@adonisjs/lucid/orm'
 import type { BelongsTo } from '@adonisjs/lucid/types/relations'
 import Account from '#models/account'
 import ImportBatch from '#models/import_batch'
+import RecurringSeries from '#models/recurring_series'
 
 export default class Transaction extends BaseModel {
   @column({ isPrimary: true })
@@ -38,6 +39,12 @@ export default class Transaction extends BaseModel {
   @column()
   declare hash: string
 
+  @column()
+  declare externalId: string | null
+
+  @column()
+  declare recurringSeriesId: number | null
+
   @column.dateTime({ autoCreate: true })
   declare createdAt: DateTime
 
@@ -49,4 +56,7 @@ export default class Transaction extends BaseModel {
 
   @belongsTo(() => ImportBatch)
   declare importBatch: BelongsTo<typeof ImportBatch>
+
+  @belongsTo(() => RecurringSeries)
+  declare recurringSeries: BelongsTo<typeof RecurringSeries>
 }
@@ -0,0 +1,88 @@
+import { BaseCommand, flags } from "@adonisjs/core/ace";
+import type { CommandOptions } from "@adonisjs/core/types/ace";
+import { services } from "#domain/services/service_provider";
+
+export default class DedupeTransactions extends BaseCommand {
+	static commandName = "transactions:dedupe";
+	static description =
+		"Fusionne les doublons créés par des ré-imports CSV et attribue leur identifiant Tink aux transactions synchronisées avant son stockage";
+
+	static options: CommandOptions = {
+		startApp: true,
+	};
+
+	@flags.boolean({ description: "Affiche les doublons sans rien modifier" })
+	declare dryRun: boolean;
+
+	async run() {
+		const accounts = await services.accountRepository.findAll();
+		let removed = 0;
+
+		for (const account of accounts) {
+			const report = await services.transactionService.mergeImportDuplicates(
+				account.id,
+				{ dryRun: this.dryRun },
+			);
+
+			this.logger.info(
+				`📊 ${account.name}: ${report.removed} doublon(s) dans ${report.duplicateGroups} groupe(s), ${report.rehashed} hash(s) à recalculer`,
+			);
+
+			// Les séries récurrentes sont recalculées sans les doublons
+			if (!this.dryRun && report.removed > 0) {
+				await services.recurringSeriesService.detect(account.id);
+			}
+			removed += report.removed;
+		}
+
+		if (this.dryRun) {
+			this.logger.warning(
+				`Simulation : ${removed} doublon(s) seraient supprimé(s)`,
+			);
+		} else {
+			this.logger.success(`✅ ${removed} doublon(s) supprimé(s)`);
+			await this.reconcileTink();
+		}
+
+		// Sans identifiant, l'ancien hash reste la seule clé de reprise : il est conservé
+		for (const account of await services.accountRepository.findAll()) {
+			const legacy =
+				await services.transactionRepository.countLegacyTinkByAccountId(
+					account.id,
+				);
+			if (legacy > 0) {
+				this.logger.warning(
+					`${account.name}: ${legacy} transaction(s) Tink sans identifiant, reprises à la prochaine synchronisation de leur connexion (reconnectez-la si elle a expiré)`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Les identifiants Tink ne sont connus que de l'API : une synchronisation complète
+	 * de chaque connexion non expirée les attribue aux transactions déjà importées,
+	 * recalcule leur hash et les range dans le compte lié à leur compte Tink
+	 */
+	private async reconcileTink() {
+		const connections = await services.bankConnectionService.getSyncable();
+
+		for (const connection of connections) {
+			try {
+				const result = await services.importService.syncFromTink(
+					connection.id,
+					undefined,
+					"manual",
+					{ fullHistory: true },
+				);
+				this.logger.info(
+					`🏦 Connexion ${connection.id}: ${result.skipped} transaction(s) reconnue(s), ${result.imported} importée(s)`,
+				);
+			} catch (error) {
+				this.exitCode = 1;
+				this.logger.error(
+					`Connexion ${connection.id}: ${error instanceof Error ? error.message : "Erreur inconnue"}`,
+				);
+			}
+		}
+	}
+}
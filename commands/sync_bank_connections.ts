@@ -0,0 +1,47 @@
+import { BaseCommand, flags } from "@adonisjs/core/ace";
+import type { CommandOptions } from "@adonisjs/core/types/ace";
+import { services } from "#domain/services/service_provider";
+
+export default class SyncBankConnections extends BaseCommand {
+	static commandName = "bank:sync";
+	static description =
+		"Synchronise les connexions bancaires non expirées (y compris en erreur) et importe les nouvelles transactions";
+
+	static options: CommandOptions = {
+		startApp: true,
+	};
+
+	@flags.number({ description: "Synchronise uniquement cette connexion" })
+	declare connection?: number;
+
+	async run() {
+		if (this.connection !== undefined) {
+			const result = await services.importService.syncFromTink(
+				this.connection,
+				undefined,
+				"scheduled",
+			);
+			this.logger.success(
+				`✅ Connexion ${result.connectionId}: ${result.imported} transaction(s) importée(s), ${result.skipped} ignorée(s) sur ${result.syncedAccounts.length} compte(s)`,
+			);
+			return;
+		}
+
+		const report = await services.bankSyncScheduler.syncAll("scheduled");
+
+		for (const error of report.errors) {
+			this.logger.error(error);
+		}
+
+		if (report.failed > 0) {
+			this.exitCode = 1;
+			this.logger.warning(
+				`${report.succeeded}/${report.connections} connexion(s) synchronisée(s), ${report.imported} transaction(s) importée(s)`,
+			);
+		} else {
+			this.logger.success(
+				`✅ ${report.connections} connexion(s) synchronisée(s), ${report.imported} transaction(s) importée(s)`,
+			);
+		}
+	}
+}
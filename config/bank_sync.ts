@@ -0,0 +1,21 @@
+import env from '#start/env'
+
+/**
+ * Synchronisation bancaire automatique (Tink)
+ */
+const bankSyncConfig = {
+  /**
+   * Cadence de synchronisation des connexions actives, en minutes
+   * (0 pour désactiver la synchronisation automatique)
+   */
+  intervalMinutes: env.get('BANK_SYNC_INTERVAL_MINUTES', 360),
+
+  /**
+   * Fenêtre de recouvrement, en jours : chaque synchronisation reprend
+   * avant la dernière date comptabilisée pour récupérer les opérations
+   * comptabilisées en retard. Les doublons sont écartés à l'import.
+   */
+  overlapDays: env.get('BANK_SYNC_OVERLAP_DAYS', 7),
+}
+
+export default bankSyncConfig
@@ -0,0 +1,41 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'recurring_series'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.string('merchant_key').notNullable() // Libellé normalisé utilisé pour le regroupement
+      table.string('label').notNullable() // Ex: "NETFLIX", "LOYER"
+      table.enum('type', ['debit', 'credit']).notNullable()
+      table.decimal('amount', 12, 2).notNullable() // Montant de référence (négatif = débit)
+      table.enum('period', ['weekly', 'monthly', 'quarterly', 'yearly']).notNullable()
+      table.date('last_date').notNullable() // Dernière occurrence constatée
+      table.date('next_expected_date').notNullable()
+      table.integer('occurrences').defaultTo(0)
+      table.string('category').nullable()
+      table.enum('status', ['detected', 'confirmed', 'dismissed']).defaultTo('detected')
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['account_id', 'status'])
+      table.index(['account_id', 'merchant_key'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,23 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'transactions'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table
+        .integer('recurring_series_id')
+        .unsigned()
+        .references('id')
+        .inTable('recurring_series')
+        .onDelete('SET NULL')
+        .nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('recurring_series_id')
+    })
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'planned_transactions'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.string('label').notNullable() // Ex: "Impôts", "Assurance voiture"
+      table.decimal('amount', 12, 2).notNullable() // Négatif = débit, Positif = crédit
+      table.enum('type', ['debit', 'credit']).notNullable()
+      table.string('category').nullable()
+
+      // Échéance à venir (avancée à chaque réalisation pour les opérations répétées)
+      table.date('due_date').notNullable()
+      // Null = opération ponctuelle
+      table.enum('period', ['weekly', 'monthly', 'quarterly', 'yearly']).nullable()
+      table.integer('interval').defaultTo(1) // Ex: period=monthly, interval=12 => tous les 12 mois
+      table.date('end_date').nullable()
+
+      table.enum('status', ['pending', 'realized', 'cancelled']).defaultTo('pending')
+      table
+        .integer('realized_transaction_id')
+        .unsigned()
+        .references('id')
+        .inTable('transactions')
+        .onDelete('SET NULL')
+        .nullable() // Dernière transaction réelle rapprochée
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['account_id', 'status', 'due_date'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,40 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'scenario_adjustments'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('scenario_id')
+        .unsigned()
+        .references('id')
+        .inTable('scenarios')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.enum('kind', ['add', 'remove', 'scale']).notNullable()
+
+      // Élément ciblé (remove / scale)
+      table.enum('target_type', ['recurring', 'planned']).nullable()
+      table.integer('target_id').nullable()
+
+      // Nouvelle opération (add)
+      table.string('label').nullable()
+      table.decimal('amount', 12, 2).nullable() // Négatif = débit, Positif = crédit
+      table.enum('period', ['weekly', 'monthly', 'quarterly', 'yearly']).nullable()
+
+      table.decimal('factor', 8, 4).nullable() // Ex: 1.1 pour +10%
+      table.date('start_date').nullable()
+      table.date('end_date').nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
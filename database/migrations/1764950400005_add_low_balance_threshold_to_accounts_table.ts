@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'accounts'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Seuil d'alerte de solde bas (null = alertes désactivées)
+      table.decimal('low_balance_threshold', 12, 2).nullable().defaultTo(0).after('initial_balance')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('low_balance_threshold')
+    })
+  }
+}
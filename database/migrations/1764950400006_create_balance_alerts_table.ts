@@ -0,0 +1,41 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'balance_alerts'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.decimal('threshold', 12, 2).notNullable()
+      // Premier jour où le solde projeté passe sous le seuil
+      table.date('alert_date').notNullable()
+      table.decimal('projected_balance', 12, 2).notNullable()
+      table.date('lowest_date').notNullable()
+      table.decimal('lowest_balance', 12, 2).notNullable()
+      table.jsonb('causes').notNullable() // Opérations prévues responsables du passage sous le seuil
+
+      table.enum('status', ['active', 'acknowledged', 'resolved']).defaultTo('active')
+      table.timestamp('acknowledged_at').nullable()
+      table.timestamp('resolved_at').nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['account_id', 'status'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
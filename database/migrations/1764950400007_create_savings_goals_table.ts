@@ -0,0 +1,32 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'savings_goals'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.string('name').notNullable() // Ex: "Vacances", "Apport immobilier"
+      table.decimal('target_amount', 12, 2).notNullable()
+      table.date('target_date').notNullable()
+      // Null = progression mesurée sur le solde du compte, sinon sur le total de la catégorie
+      table.string('category').nullable()
+      table.decimal('initial_amount', 12, 2).defaultTo(0) // Montant déjà épargné hors transactions
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
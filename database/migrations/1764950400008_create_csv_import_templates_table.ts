@@ -0,0 +1,26 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'csv_import_templates'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+
+      table.string('name').notNullable() // Ex: "Crédit Mutuel"
+      table.string('delimiter', 4).notNullable()
+      table.integer('header_offset').defaultTo(0) // Lignes de préambule avant l'en-tête
+      table.string('date_format').notNullable() // Format Luxon, ex: "dd/MM/yyyy"
+      table.enum('decimal_separator', [',', '.']).defaultTo(',')
+      // Correspondance colonnes -> champs (date, label, amount, debit, credit, merchant)
+      table.jsonb('mapping').notNullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,34 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'import_previews'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table.uuid('token').notNullable().unique() // Jeton transmis pour confirmer l'import
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.string('filename').notNullable()
+      table.string('profile').nullable() // Profil bancaire CSV détecté
+      table.jsonb('rows').notNullable() // Lignes analysées et décision proposée
+      // Solde de clôture du relevé, rapproché après confirmation
+      table.decimal('closing_balance', 12, 2).nullable()
+      table.date('closing_balance_date').nullable()
+
+      table.timestamp('expires_at').notNullable()
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,43 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'import_batches'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.string('source', 20).nullable().after('filename') // csv, ofx, qif, camt053, mt940, tink
+      table.timestamp('rolled_back_at').nullable()
+    })
+
+    // Nouveau statut : import annulé (le batch est conservé pour l'historique)
+    this.schema.raw('ALTER TABLE import_batches DROP CONSTRAINT IF EXISTS import_batches_status_check')
+    this.schema.raw(
+      "ALTER TABLE import_batches ADD CONSTRAINT import_batches_status_check CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'rolled_back'))"
+    )
+
+    // Source des imports existants, déduite du nom de fichier
+    this.schema.raw(`
+      UPDATE import_batches SET source = CASE
+        WHEN filename LIKE 'tink_sync_%' THEN 'tink'
+        WHEN lower(filename) LIKE '%.ofx' OR lower(filename) LIKE '%.qfx' THEN 'ofx'
+        WHEN lower(filename) LIKE '%.qif' THEN 'qif'
+        WHEN lower(filename) LIKE '%.xml' THEN 'camt053'
+        WHEN lower(filename) LIKE '%.sta' OR lower(filename) LIKE '%.mt940' THEN 'mt940'
+        ELSE 'csv'
+      END
+    `)
+  }
+
+  async down() {
+    this.schema.raw("UPDATE import_batches SET status = 'completed' WHERE status = 'rolled_back'")
+    this.schema.raw('ALTER TABLE import_batches DROP CONSTRAINT IF EXISTS import_batches_status_check')
+    this.schema.raw(
+      "ALTER TABLE import_batches ADD CONSTRAINT import_batches_status_check CHECK (status IN ('pending', 'processing', 'completed', 'failed'))"
+    )
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('source')
+      table.dropColumn('rolled_back_at')
+    })
+  }
+}
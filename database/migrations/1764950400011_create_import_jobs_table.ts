@@ -0,0 +1,47 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'import_jobs'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('import_batch_id')
+        .unsigned()
+        .references('id')
+        .inTable('import_batches')
+        .onDelete('CASCADE')
+        .notNullable()
+
+      table.enum('status', ['pending', 'processing', 'completed', 'failed']).defaultTo('pending')
+      table.jsonb('payload').nullable() // Transactions à importer, vidé une fois le job terminé
+      table.jsonb('result').nullable() // Résultat de l'import (erreurs, rapprochement du solde)
+      table.integer('attempts').defaultTo(0)
+      table.text('error_message').nullable()
+      table.timestamp('started_at').nullable()
+      table.timestamp('finished_at').nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['status', 'id'])
+    })
+
+    // Progression de l'import
+    this.schema.alterTable('import_batches', (table) => {
+      table.integer('rows_total').defaultTo(0)
+      table.integer('rows_processed').defaultTo(0)
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('import_batches', (table) => {
+      table.dropColumn('rows_total')
+      table.dropColumn('rows_processed')
+    })
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,35 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'bank_connections'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('SET NULL')
+        .nullable()
+
+      table.string('provider', 20).notNullable().defaultTo('tink')
+      table.enum('status', ['active', 'expired', 'error']).defaultTo('active')
+      table.text('access_token').notNullable() // Chiffré avec APP_KEY
+      table.text('refresh_token').nullable() // Chiffré avec APP_KEY
+      table.timestamp('token_expires_at').nullable()
+      table.timestamp('consent_expires_at').nullable() // Expiration du consentement DSP2
+      table.jsonb('accounts').nullable() // Comptes bancaires exposés par la connexion
+      table.timestamp('last_synced_at').nullable()
+      table.text('error_message').nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,45 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'bank_sync_runs'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id').notNullable()
+      table
+        .integer('bank_connection_id')
+        .unsigned()
+        .references('id')
+        .inTable('bank_connections')
+        .onDelete('CASCADE')
+        .notNullable()
+      table
+        .integer('import_batch_id')
+        .unsigned()
+        .references('id')
+        .inTable('import_batches')
+        .onDelete('SET NULL')
+        .nullable()
+
+      table.enum('trigger', ['manual', 'scheduled']).notNullable()
+      table.enum('status', ['running', 'completed', 'failed']).defaultTo('running')
+      table.integer('transactions_fetched').defaultTo(0)
+      table.integer('rows_imported').defaultTo(0)
+      table.integer('rows_skipped').defaultTo(0)
+      table.text('error_message').nullable()
+      table.timestamp('started_at').notNullable()
+      table.timestamp('finished_at').nullable()
+
+      table.timestamp('created_at').notNullable()
+      table.timestamp('updated_at').nullable()
+    })
+
+    this.schema.alterTable(this.tableName, (table) => {
+      table.index(['bank_connection_id', 'started_at'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,18 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'bank_connections'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Date de comptabilisation la plus récente déjà importée (synchronisation incrémentale)
+      table.date('booked_until').nullable().after('last_synced_at')
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('booked_until')
+    })
+  }
+}
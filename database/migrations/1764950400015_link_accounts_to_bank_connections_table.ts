@@ -0,0 +1,85 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  async up() {
+    // Chaque compte Tink est lié à son propre compte
+    this.schema.alterTable('accounts', (table) => {
+      table.string('external_account_id', 100).nullable().unique() // Identifiant du compte chez Tink
+      table
+        .integer('bank_connection_id')
+        .unsigned()
+        .references('id')
+        .inTable('bank_connections')
+        .onDelete('SET NULL')
+        .nullable()
+    })
+
+    // Reprise des liens existants : le compte de chaque connexion (la plus récente s'il y en a plusieurs)...
+    this.schema.raw(`
+      UPDATE accounts SET bank_connection_id = bc.id
+      FROM (
+        SELECT DISTINCT ON (account_id) id, account_id
+        FROM bank_connections
+        WHERE account_id IS NOT NULL
+        ORDER BY account_id, id DESC
+      ) bc
+      WHERE accounts.id = bc.account_id
+    `)
+
+    // ... et son compte Tink, retrouvé par l'IBAN dans les comptes de la connexion.
+    // Les opérations des autres comptes Tink, importées jusqu'ici dans ce compte,
+    // y sont reconnues à la synchronisation suivante et déplacées vers leur compte lié
+    this.schema.raw(`
+      UPDATE accounts SET external_account_id = tink.id
+      FROM bank_connections bc
+      CROSS JOIN LATERAL jsonb_to_recordset(bc.accounts) AS tink(id text, iban text)
+      WHERE accounts.bank_connection_id = bc.id
+        AND tink.iban = accounts.account_number
+    `)
+
+    // Le lien compte → connexion remplace le compte unique de la connexion
+    this.schema.alterTable('bank_connections', (table) => {
+      table.dropColumn('account_id')
+    })
+
+    // Une synchronisation importe un batch par compte
+    this.schema.alterTable('bank_sync_runs', (table) => {
+      table.dropColumn('import_batch_id')
+      table.jsonb('accounts').nullable() // Résultat par compte synchronisé
+    })
+  }
+
+  async down() {
+    this.schema.alterTable('bank_sync_runs', (table) => {
+      table.dropColumn('accounts')
+      table
+        .integer('import_batch_id')
+        .unsigned()
+        .references('id')
+        .inTable('import_batches')
+        .onDelete('SET NULL')
+        .nullable()
+    })
+
+    this.schema.alterTable('bank_connections', (table) => {
+      table
+        .integer('account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('SET NULL')
+        .nullable()
+    })
+
+    this.schema.raw(`
+      UPDATE bank_connections SET account_id = accounts.id
+      FROM accounts
+      WHERE accounts.bank_connection_id = bank_connections.id
+    `)
+
+    this.schema.alterTable('accounts', (table) => {
+      table.dropColumn('bank_connection_id')
+      table.dropColumn('external_account_id')
+    })
+  }
+}
@@ -0,0 +1,25 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'transactions'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Identifiant de l'opération chez la banque ou le fournisseur (Tink, FITID OFX...)
+      table.string('external_id', 255).nullable().after('hash')
+      table.unique(['account_id', 'external_id'])
+    })
+
+    // Les transactions Tink déjà importées n'ont que l'ancien hash (date, montant, libellé)
+    // et leur identifiant n'est connu que de l'API : la prochaine synchronisation
+    // (ou `node ace transactions:dedupe`) reprend tout l'historique et le leur attribue
+    this.schema.raw('UPDATE bank_connections SET booked_until = NULL')
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropUnique(['account_id', 'external_id'])
+      table.dropColumn('external_id')
+    })
+  }
+}
@@ -0,0 +1,24 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'savings_goals'
+
+  async up() {
+    this.schema.alterTable(this.tableName, (table) => {
+      // Compte d'épargne dont le solde alimente l'objectif (livret, compte Tink lié...)
+      table
+        .integer('linked_account_id')
+        .unsigned()
+        .references('id')
+        .inTable('accounts')
+        .onDelete('SET NULL')
+        .nullable()
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropColumn('linked_account_id')
+    })
+  }
+}
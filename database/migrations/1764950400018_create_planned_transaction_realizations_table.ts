@@ -0,0 +1,36 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'planned_transaction_realizations'
+
+  async up() {
+    this.schema.createTable(this.tableName, (table) => {
+      table.increments('id')
+      table
+        .integer('planned_transaction_id')
+        .unsigned()
+        .references('id')
+        .inTable('planned_transactions')
+        .onDelete('CASCADE')
+        .notNullable()
+      // Transaction réelle qui a couvert l'échéance
+      table
+        .integer('transaction_id')
+        .unsigned()
+        .references('id')
+        .inTable('transactions')
+        .onDelete('CASCADE')
+        .notNullable()
+      // Échéance couverte, rétablie si la transaction est annulée
+      table.date('due_date').notNullable()
+      table.timestamp('created_at').notNullable()
+
+      table.index(['transaction_id'])
+      table.index(['planned_transaction_id'])
+    })
+  }
+
+  async down() {
+    this.schema.dropTable(this.tableName)
+  }
+}
@@ -0,0 +1,20 @@
+import { BaseSchema } from '@adonisjs/lucid/schema'
+
+export default class extends BaseSchema {
+  protected tableName = 'transactions'
+
+  async up() {
+    // Le hash ne contient pas le compte : une même ligne peut être importée dans deux comptes
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropUnique(['hash'])
+      table.unique(['account_id', 'hash'])
+    })
+  }
+
+  async down() {
+    this.schema.alterTable(this.tableName, (table) => {
+      table.dropUnique(['account_id', 'hash'])
+      table.unique(['hash'])
+    })
+  }
+}
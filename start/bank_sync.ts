@@ -0,0 +1,21 @@
+/*
+|--------------------------------------------------------------------------
+| Synchronisation bancaire automatique
+|--------------------------------------------------------------------------
+|
+| Synchronise les connexions bancaires actives selon la cadence
+| de config/bank_sync.ts, tant que le serveur HTTP tourne.
+|
+*/
+
+import app from "@adonisjs/core/services/app";
+import bankSyncConfig from "#config/bank_sync";
+import { services } from "#domain/services/service_provider";
+
+app.ready(() => {
+	services.bankSyncScheduler.start(bankSyncConfig.intervalMinutes);
+});
+
+app.terminating(() => {
+	services.bankSyncScheduler.stop();
+});
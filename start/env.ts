@@ -43,4 +43,6 @@ export default await Env.create(new URL('../', import.meta.url), {
   */
   TINK_CLIENT_ID: Env.schema.string.optional(),
   TINK_CLIENT_SECRET: Env.schema.string.optional(),
+  BANK_SYNC_INTERVAL_MINUTES: Env.schema.number.optional(),
+  BANK_SYNC_OVERLAP_DAYS: Env.schema.number.optional(),
 })
@@ -0,0 +1,20 @@
+/*
+|--------------------------------------------------------------------------
+| Worker des imports
+|--------------------------------------------------------------------------
+|
+| Traite en arrière-plan les imports mis en file par l'API
+| (table import_jobs), tant que le serveur HTTP tourne.
+|
+*/
+
+import app from "@adonisjs/core/services/app";
+import { services } from "#domain/services/service_provider";
+
+app.ready(async () => {
+	await services.importQueue.start();
+});
+
+app.terminating(() => {
+	services.importQueue.stop();
+});
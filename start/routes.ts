@@ -14,10 +14,24 @@ const TransactionsController = () =>
 	import("#interface/http/controllers/transactions_controller");
 const ImportsController = () =>
 	import("#interface/http/controllers/imports_controller");
+const CsvTemplatesController = () =>
+	import("#interface/http/controllers/csv_templates_controller");
 const AccountsController = () =>
 	import("#interface/http/controllers/accounts_controller");
 const BankConnectionsController = () =>
 	import("#interface/http/controllers/bank_connections_controller");
+const ForecastsController = () =>
+	import("#interface/http/controllers/forecasts_controller");
+const RecurringSeriesController = () =>
+	import("#interface/http/controllers/recurring_series_controller");
+const PlannedTransactionsController = () =>
+	import("#interface/http/controllers/planned_transactions_controller");
+const ScenariosController = () =>
+	import("#interface/http/controllers/scenarios_controller");
+const BalanceAlertsController = () =>
+	import("#interface/http/controllers/balance_alerts_controller");
+const SavingsGoalsController = () =>
+	import("#interface/http/controllers/savings_goals_controller");
 
 // ============================================================================
 // PAGES
@@ -44,9 +58,49 @@ router
 		]);
 		router.delete("/transactions/:id", [TransactionsController, "destroy"]);
 
+		// Transactions planifiées
+		router.get("/planned-transactions", [
+			PlannedTransactionsController,
+			"index",
+		]);
+		router.post("/planned-transactions", [
+			PlannedTransactionsController,
+			"store",
+		]);
+		router.get("/planned-transactions/:id", [
+			PlannedTransactionsController,
+			"show",
+		]);
+		router.put("/planned-transactions/:id", [
+			PlannedTransactionsController,
+			"update",
+		]);
+		router.delete("/planned-transactions/:id", [
+			PlannedTransactionsController,
+			"destroy",
+		]);
+
 		// Import CSV
+		router.get("/import/profiles", [ImportsController, "profiles"]);
+		router.post("/import/columns", [ImportsController, "columns"]);
+		router.post("/import/preview", [ImportsController, "preview"]);
+		router.post("/import/confirm", [ImportsController, "confirm"]);
 		router.post("/import", [ImportsController, "store"]);
 
+		// Historique et annulation des imports
+		router.get("/imports", [ImportsController, "index"]);
+		router.get("/imports/:id", [ImportsController, "show"]);
+		router.delete("/imports/:id", [ImportsController, "destroy"]);
+
+		// Modèles d'import CSV
+		router.get("/import/templates", [CsvTemplatesController, "index"]);
+		router.post("/import/templates", [CsvTemplatesController, "store"]);
+		router.put("/import/templates/:id", [CsvTemplatesController, "update"]);
+		router.delete("/import/templates/:id", [
+			CsvTemplatesController,
+			"destroy",
+		]);
+
 		// Paramètres compte
 		router.put("/settings", [AccountsController, "update"]);
 		router.get("/accounts/stats", [AccountsController, "stats"]);
@@ -56,6 +110,49 @@ router
 			"recalculateBalance",
 		]);
 
+		// Prévisions
+		router.get("/forecast", [ForecastsController, "index"]);
+
+		// Alertes de solde bas
+		router.get("/alerts", [BalanceAlertsController, "index"]);
+		router.post("/alerts/evaluate", [BalanceAlertsController, "evaluate"]);
+		router.post("/alerts/:id/acknowledge", [
+			BalanceAlertsController,
+			"acknowledge",
+		]);
+
+		// Objectifs d'épargne
+		router.get("/savings-goals", [SavingsGoalsController, "index"]);
+		router.post("/savings-goals", [SavingsGoalsController, "store"]);
+		router.get("/savings-goals/:id", [SavingsGoalsController, "show"]);
+		router.put("/savings-goals/:id", [SavingsGoalsController, "update"]);
+		router.delete("/savings-goals/:id", [SavingsGoalsController, "destroy"]);
+
+		// Scénarios de simulation
+		router.get("/scenarios/compare", [ScenariosController, "compare"]);
+		router.get("/scenarios", [ScenariosController, "index"]);
+		router.post("/scenarios", [ScenariosController, "store"]);
+		router.get("/scenarios/:id", [ScenariosController, "show"]);
+		router.put("/scenarios/:id", [ScenariosController, "update"]);
+		router.delete("/scenarios/:id", [ScenariosController, "destroy"]);
+		router.get("/scenarios/:id/compare", [ScenariosController, "compareOne"]);
+
+		// Transactions récurrentes
+		router.get("/recurring-series", [RecurringSeriesController, "index"]);
+		router.post("/recurring-series/detect", [
+			RecurringSeriesController,
+			"detect",
+		]);
+		router.patch("/recurring-series/:id", [RecurringSeriesController, "update"]);
+		router.post("/recurring-series/:id/confirm", [
+			RecurringSeriesController,
+			"confirm",
+		]);
+		router.post("/recurring-series/:id/dismiss", [
+			RecurringSeriesController,
+			"dismiss",
+		]);
+
 		// Connexions bancaires (Tink)
 		router.get("/banks", [BankConnectionsController, "listBanks"]);
 		router.get("/bank-connections", [BankConnectionsController, "index"]);
@@ -65,6 +162,10 @@ router
 			"callback",
 		]);
 		router.post("/bank-connections/sync", [BankConnectionsController, "sync"]);
+		router.get("/bank-connections/sync-runs", [
+			BankConnectionsController,
+			"syncRuns",
+		]);
 		router.post("/bank-connections/adjust-balance", [
 			BankConnectionsController,
 			"adjustBalance",